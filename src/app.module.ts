@@ -4,7 +4,23 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { BotModule } from './bot/bot.module.js';
 import { NotificationModule } from './notification/notification.module.js';
 import { ScheduleModule } from './schedule/schedule.module.js';
+import { DeliveryModule } from './delivery/delivery.module.js';
+import { AuthModule } from './auth/auth.module.js';
+import { AttachmentModule } from './attachment/attachment.module.js';
+import { HolidayModule } from './holiday/holiday.module.js';
+import { WebhookModule } from './webhook/webhook.module.js';
 import { ScheduledNotificationEntity } from './schedule/entities/scheduled-notification.entity.js';
+import { ScheduleDraftEntity } from './schedule/entities/schedule-draft.entity.js';
+import { ChatSettingsEntity } from './schedule/entities/chat-settings.entity.js';
+import { DeliveryEntity } from './delivery/entities/delivery.entity.js';
+import { DeadLetterEntity } from './delivery/entities/dead-letter.entity.js';
+import { ApiKeyEntity } from './auth/entities/api-key.entity.js';
+import { ChatManagerEntity } from './bot/entities/chat-manager.entity.js';
+import { StoredFileEntity } from './attachment/entities/stored-file.entity.js';
+import { CustomHolidayEntity } from './holiday/entities/custom-holiday.entity.js';
+import { AlertRouteEntity } from './notification/entities/alert-route.entity.js';
+import { WebhookSubscriptionEntity } from './webhook/entities/webhook-subscription.entity.js';
+import { WebhookDeliveryEntity } from './webhook/entities/webhook-delivery.entity.js';
 
 @Module({
   imports: [
@@ -18,7 +34,20 @@ import { ScheduledNotificationEntity } from './schedule/entities/scheduled-notif
       useFactory: (config: ConfigService) => ({
         type: 'postgres' as const,
         url: config.getOrThrow<string>('DATABASE_URL'),
-        entities: [ScheduledNotificationEntity],
+        entities: [
+          ScheduledNotificationEntity,
+          ScheduleDraftEntity,
+          ChatSettingsEntity,
+          DeliveryEntity,
+          DeadLetterEntity,
+          ApiKeyEntity,
+          ChatManagerEntity,
+          StoredFileEntity,
+          CustomHolidayEntity,
+          WebhookSubscriptionEntity,
+          WebhookDeliveryEntity,
+          AlertRouteEntity,
+        ],
         synchronize: true,
         ssl: config.get<string>('DATABASE_URL', '').includes('sslmode=disable')
           ? false
@@ -27,9 +56,14 @@ import { ScheduledNotificationEntity } from './schedule/entities/scheduled-notif
             : false,
       }),
     }),
+    AuthModule,
     BotModule,
     NotificationModule,
     ScheduleModule,
+    DeliveryModule,
+    AttachmentModule,
+    HolidayModule,
+    WebhookModule,
   ],
 })
 export class AppModule {}
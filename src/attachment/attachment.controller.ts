@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AttachmentService, UPLOAD_REF_PREFIX } from './attachment.service.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+
+/** Telegram 봇 API의 파일 업로드 한도 */
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+@ApiTags('notification')
+@Controller('files')
+export class AttachmentController {
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  @Post()
+  @Scopes('schedule:write')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({
+    summary: '첨부 파일 업로드',
+    description:
+      '파일을 저장하고 스케줄 첨부에 사용할 참조(upload:<id>)를 반환합니다. 처음 발송된 뒤에는 Telegram file_id를 재사용합니다.',
+  })
+  @ApiResponse({ status: 201, description: '업로드 성공' })
+  async upload(@UploadedFile() file?: Express.Multer.File) {
+    if (!file) throw new BadRequestException('file 필드가 필요합니다.');
+    const stored = await this.attachmentService.store(file);
+    return { ...stored, ref: `${UPLOAD_REF_PREFIX}${stored.id}` };
+  }
+
+  @Get(':id')
+  @Scopes('schedule:read')
+  @ApiOperation({ summary: '업로드 파일 정보 조회' })
+  @ApiResponse({ status: 200, description: '파일 정보' })
+  @ApiResponse({ status: 404, description: '파일을 찾을 수 없음' })
+  async findOne(@Param('id') id: string) {
+    return this.attachmentService.findFile(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BotModule } from '../bot/bot.module.js';
+import { StoredFileEntity } from './entities/stored-file.entity.js';
+import { AttachmentService } from './attachment.service.js';
+import { AttachmentController } from './attachment.controller.js';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([StoredFileEntity]), BotModule],
+  controllers: [AttachmentController],
+  providers: [AttachmentService],
+  exports: [AttachmentService],
+})
+export class AttachmentModule {}
@@ -0,0 +1,303 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Input } from 'telegraf';
+import type { InlineKeyboardMarkup, Message } from 'telegraf/types';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import { BotService } from '../bot/bot.service.js';
+import type { TelegramFile, TelegramMediaGroup } from '../bot/bot.service.js';
+import { StoredFileEntity } from './entities/stored-file.entity.js';
+
+export interface MediaAttachment {
+  type: 'photo' | 'document';
+  /** Telegram file_id, http(s) URL 또는 업로드 참조(`upload:<id>`) */
+  file: string;
+  /** HTML 캡션 */
+  caption?: string;
+}
+
+export interface LocationAttachment {
+  type: 'location';
+  latitude: number;
+  longitude: number;
+  /** title과 address가 모두 있으면 장소(venue)로 보낸다 */
+  title?: string;
+  address?: string;
+}
+
+export interface MediaGroupAttachment {
+  type: 'mediaGroup';
+  items: MediaAttachment[];
+}
+
+export type Attachment =
+  | MediaAttachment
+  | LocationAttachment
+  | MediaGroupAttachment;
+
+export const UPLOAD_REF_PREFIX = 'upload:';
+
+/** 텔레그램 호출 하나를 감싸 재시도한다. 이미 보낸 앞부분은 다시 보내지 않도록 호출 단위로 쓴다. */
+export type SendRetry = <T>(send: () => Promise<T>) => Promise<T>;
+
+const noRetry: SendRetry = (send) => send();
+
+@Injectable()
+export class AttachmentService {
+  private readonly logger = new Logger(AttachmentService.name);
+  private readonly uploadDir: string;
+
+  /** 사진·문서 캡션의 Telegram 최대 길이 */
+  private static readonly MAX_CAPTION_LENGTH = 1024;
+
+  constructor(
+    @InjectRepository(StoredFileEntity)
+    private readonly repo: Repository<StoredFileEntity>,
+    private readonly botService: BotService,
+    private readonly configService: ConfigService,
+  ) {
+    this.uploadDir = resolve(
+      this.configService.get<string>('UPLOAD_DIR', 'uploads'),
+    );
+  }
+
+  async store(file: Express.Multer.File): Promise<StoredFileEntity> {
+    const id = randomUUID();
+    const fileName = `${id}${extname(file.originalname)}`;
+    await mkdir(this.uploadDir, { recursive: true });
+    await writeFile(join(this.uploadDir, fileName), file.buffer);
+
+    const saved = await this.repo.save(
+      this.repo.create({
+        id,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        path: fileName,
+      }),
+    );
+    this.logger.log(
+      `[UPLOAD] "${saved.originalName}" (${saved.mimeType}, ${saved.size} bytes) → ${saved.id}`,
+    );
+    return saved;
+  }
+
+  async findFile(id: string): Promise<StoredFileEntity> {
+    const found = await this.repo.findOneBy({ id });
+    if (!found) {
+      throw new NotFoundException(`파일 ${id}을(를) 찾을 수 없습니다.`);
+    }
+    return found;
+  }
+
+  /**
+   * 업로드 파일들을 저장하고 첨부로 변환한다. 같은 종류 파일이 여러 개면 앨범으로 묶는다.
+   */
+  async fromUploads(files: Express.Multer.File[]): Promise<Attachment[]> {
+    const items: MediaAttachment[] = [];
+    for (const file of files) {
+      const stored = await this.store(file);
+      items.push({
+        type: file.mimetype.startsWith('image/') ? 'photo' : 'document',
+        file: `${UPLOAD_REF_PREFIX}${stored.id}`,
+      });
+    }
+
+    if (items.length > 1 && items.every((i) => i.type === items[0].type)) {
+      return [{ type: 'mediaGroup', items }];
+    }
+    return items;
+  }
+
+  /** 앨범 구성과 업로드 참조가 유효한지 확인한다 (발송·스케줄 저장 전). */
+  async validate(attachments: Attachment[]): Promise<void> {
+    for (const attachment of attachments) {
+      if (
+        attachment.type === 'mediaGroup' &&
+        !attachment.items.every((i) => i.type === attachment.items[0].type)
+      ) {
+        throw new BadRequestException(
+          '앨범(mediaGroup)은 사진끼리 또는 문서끼리만 묶을 수 있습니다.',
+        );
+      }
+    }
+
+    const ids = this.flatten(attachments)
+      .filter((a) => a.file.startsWith(UPLOAD_REF_PREFIX))
+      .map((a) => a.file.slice(UPLOAD_REF_PREFIX.length));
+    if (ids.length === 0) return;
+
+    const found = await this.repo.countBy({ id: In([...new Set(ids)]) });
+    if (found !== new Set(ids).size) {
+      throw new BadRequestException('존재하지 않는 업로드 파일이 있습니다.');
+    }
+  }
+
+  /**
+   * 메시지와 첨부를 순서대로 보낸다. 첫 첨부가 캡션 없는 사진/문서이면
+   * 메시지를 그 캡션으로 붙여 한 번에 보낸다. 보낸 메시지 목록을 반환한다.
+   * replyMarkup은 메시지(또는 메시지를 캡션으로 단 첫 첨부)에 붙는다.
+   * retry는 텔레그램 호출마다 따로 적용한다.
+   */
+  async send(
+    chatId: string,
+    message: string,
+    attachments: Attachment[] = [],
+    replyMarkup?: InlineKeyboardMarkup,
+    retry: SendRetry = noRetry,
+  ): Promise<Message[]> {
+    const queue = [...attachments];
+    const sent: Message[] = [];
+
+    const first = queue[0];
+    if (
+      first &&
+      (first.type === 'photo' || first.type === 'document') &&
+      !first.caption &&
+      message.length <= AttachmentService.MAX_CAPTION_LENGTH
+    ) {
+      sent.push(
+        ...(await this.sendAttachment(
+          chatId,
+          { ...first, caption: message },
+          replyMarkup,
+          retry,
+        )),
+      );
+      queue.shift();
+    } else {
+      sent.push(
+        await retry(() =>
+          this.botService.sendMessage(chatId, message, replyMarkup),
+        ),
+      );
+    }
+
+    for (const attachment of queue) {
+      sent.push(
+        ...(await this.sendAttachment(chatId, attachment, undefined, retry)),
+      );
+    }
+    return sent;
+  }
+
+  private async sendAttachment(
+    chatId: string,
+    attachment: Attachment,
+    replyMarkup: InlineKeyboardMarkup | undefined,
+    retry: SendRetry,
+  ): Promise<Message[]> {
+    switch (attachment.type) {
+      case 'photo': {
+        const file = await this.resolveFile(attachment.file);
+        const sent = await retry(() =>
+          this.botService.sendPhoto(
+            chatId,
+            file,
+            attachment.caption,
+            replyMarkup,
+          ),
+        );
+        await this.rememberFileId(attachment.file, sent);
+        return [sent];
+      }
+      case 'document': {
+        const file = await this.resolveFile(attachment.file);
+        const sent = await retry(() =>
+          this.botService.sendDocument(
+            chatId,
+            file,
+            attachment.caption,
+            replyMarkup,
+          ),
+        );
+        await this.rememberFileId(attachment.file, sent);
+        return [sent];
+      }
+      case 'location':
+        return [
+          await retry(() =>
+            attachment.title && attachment.address
+              ? this.botService.sendVenue(
+                  chatId,
+                  attachment.latitude,
+                  attachment.longitude,
+                  attachment.title,
+                  attachment.address,
+                )
+              : this.botService.sendLocation(
+                  chatId,
+                  attachment.latitude,
+                  attachment.longitude,
+                ),
+          ),
+        ];
+      case 'mediaGroup': {
+        const media = await Promise.all(
+          attachment.items.map(async (item) => ({
+            type: item.type,
+            media: await this.resolveFile(item.file),
+            caption: item.caption,
+            parse_mode: 'HTML' as const,
+          })),
+        );
+        const sent = await retry(() =>
+          this.botService.sendMediaGroup(chatId, media as TelegramMediaGroup),
+        );
+        for (const [i, item] of attachment.items.entries()) {
+          if (sent[i]) await this.rememberFileId(item.file, sent[i]);
+        }
+        return sent;
+      }
+    }
+  }
+
+  private async resolveFile(ref: string): Promise<TelegramFile> {
+    if (!ref.startsWith(UPLOAD_REF_PREFIX)) return ref;
+
+    const stored = await this.findFile(ref.slice(UPLOAD_REF_PREFIX.length));
+    if (stored.telegramFileId) return stored.telegramFileId;
+    return Input.fromLocalFile(
+      join(this.uploadDir, stored.path),
+      stored.originalName,
+    );
+  }
+
+  /** 업로드 파일을 처음 보냈으면 Telegram file_id를 저장해 다음부터 재업로드하지 않는다. */
+  private async rememberFileId(ref: string, sent: Message): Promise<void> {
+    if (!ref.startsWith(UPLOAD_REF_PREFIX)) return;
+
+    const fileId =
+      'photo' in sent
+        ? sent.photo[sent.photo.length - 1]?.file_id
+        : 'document' in sent
+          ? sent.document.file_id
+          : undefined;
+    if (!fileId) return;
+
+    const id = ref.slice(UPLOAD_REF_PREFIX.length);
+    const result = await this.repo
+      .createQueryBuilder()
+      .update()
+      .set({ telegramFileId: fileId })
+      .where('id = :id AND "telegramFileId" IS NULL', { id })
+      .execute();
+    if (result.affected) {
+      this.logger.log(`[UPLOAD] ${id} cached as Telegram file_id`);
+    }
+  }
+
+  private flatten(attachments: Attachment[]): MediaAttachment[] {
+    return attachments.flatMap((a) =>
+      a.type === 'mediaGroup' ? a.items : a.type === 'location' ? [] : [a],
+    );
+  }
+}
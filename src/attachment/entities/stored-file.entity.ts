@@ -0,0 +1,27 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+/** 업로드된 첨부 파일. 첫 발송 후에는 Telegram file_id를 재사용한다. */
+@Entity('stored_files')
+export class StoredFileEntity {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  originalName: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  mimeType: string;
+
+  @Column({ type: 'integer' })
+  size: number;
+
+  /** 로컬 저장 경로 (UPLOAD_DIR 기준) */
+  @Column({ type: 'varchar', length: 500 })
+  path: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  telegramFileId: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,42 @@
+import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiKeyService } from './api-key.service.js';
+import { Scopes } from './decorators/scopes.decorator.js';
+import { CreateApiKeyDto } from '../common/dto/create-api-key.dto.js';
+
+@ApiTags('auth')
+@Scopes('admin')
+@Controller('api-keys')
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'API 키 발급',
+    description:
+      '새 API 키를 발급합니다. 응답의 key 값은 이때만 확인할 수 있으며 서버에는 해시만 저장됩니다.',
+  })
+  @ApiResponse({ status: 201, description: '발급 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청' })
+  async issue(@Body() dto: CreateApiKeyDto) {
+    return this.apiKeyService.issue(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'API 키 목록 조회' })
+  @ApiResponse({ status: 200, description: 'API 키 목록 (원문 제외)' })
+  async findAll() {
+    return this.apiKeyService.findAll();
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'API 키 폐기',
+    description: '폐기된 키는 즉시 인증에 실패합니다.',
+  })
+  @ApiResponse({ status: 200, description: '폐기 성공' })
+  @ApiResponse({ status: 404, description: 'API 키를 찾을 수 없음' })
+  async revoke(@Param('id') id: string) {
+    return this.apiKeyService.revoke(id);
+  }
+}
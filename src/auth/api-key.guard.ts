@@ -0,0 +1,92 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { ApiKeyService } from './api-key.service.js';
+import type { AuthenticatedApiKey } from './api-key.service.js';
+import type { ApiKeyScope } from './entities/api-key.entity.js';
+import { IS_PUBLIC_KEY, SCOPES_KEY } from './decorators/scopes.decorator.js';
+
+/**
+ * 모든 HTTP 요청에 `Authorization: Bearer <API 키>`를 요구하는 전역 가드.
+ * 텔레그램 업데이트 핸들러에는 적용하지 않는다.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') return true;
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(SCOPES_KEY, targets) ??
+      [];
+    return this.authorize(context, required);
+  }
+
+  /**
+   * API 키 인증, 요청 한도, 스코프를 확인하고 request.apiKey를 채운다.
+   * 공개 엔드포인트가 조건에 따라 API 키를 요구할 때도 쓴다 (AlertHookGuard).
+   */
+  async authorize(
+    context: ExecutionContext,
+    required: ApiKeyScope[],
+  ): Promise<boolean> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<
+      Request & { apiKey?: AuthenticatedApiKey }
+    >();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      throw new UnauthorizedException('API 키가 필요합니다.');
+    }
+
+    const apiKey = await this.apiKeyService.authenticate(token);
+    if (!apiKey) {
+      this.logger.warn(
+        `[AUTH FAIL] ${request.method} ${request.url} invalid or revoked key`,
+      );
+      throw new UnauthorizedException('유효하지 않은 API 키입니다.');
+    }
+
+    const retryAfter = this.apiKeyService.consumeRateLimit(apiKey);
+    if (retryAfter !== null) {
+      http.getResponse<Response>().setHeader('Retry-After', String(retryAfter));
+      throw new HttpException(
+        `요청 한도(분당 ${apiKey.rateLimitPerMinute}회)를 초과했습니다. ${retryAfter}초 후 다시 시도하세요.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const missing = required.filter((scope) => !apiKey.scopes.includes(scope));
+    if (missing.length > 0) {
+      this.logger.warn(
+        `[AUTH DENY] "${apiKey.name}" ${request.method} ${request.url} missing scope: ${missing.join(',')}`,
+      );
+      throw new ForbiddenException(
+        `이 API 키에는 ${missing.join(', ')} 권한이 없습니다.`,
+      );
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+}
@@ -0,0 +1,185 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKeyEntity, API_KEY_SCOPES } from './entities/api-key.entity.js';
+import type { ApiKeyScope } from './entities/api-key.entity.js';
+import { CreateApiKeyDto } from '../common/dto/create-api-key.dto.js';
+
+/** 요청에 첨부되는 인증 정보. ADMIN_API_KEY로 인증하면 id가 null이다. */
+export interface AuthenticatedApiKey {
+  id: string | null;
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedChatIds: string[] | null;
+  rateLimitPerMinute: number;
+}
+
+interface RateWindow {
+  startedAt: number;
+  count: number;
+}
+
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly adminKeyHash: Buffer | null;
+  private readonly defaultChatId: string;
+  private readonly defaultRateLimit: number;
+  /** keyId → 현재 1분 창의 요청 수 (인스턴스별로 집계) */
+  private readonly rateWindows = new Map<string, RateWindow>();
+
+  private static readonly KEY_PREFIX = 'tnb_';
+  private static readonly RATE_WINDOW_MS = 60_000;
+
+  constructor(
+    @InjectRepository(ApiKeyEntity)
+    private readonly repo: Repository<ApiKeyEntity>,
+    private readonly configService: ConfigService,
+  ) {
+    const adminKey = this.configService.get<string>('ADMIN_API_KEY');
+    this.adminKeyHash = adminKey ? this.digest(adminKey) : null;
+    this.defaultChatId = this.configService.getOrThrow<string>(
+      'TELEGRAM_DEFAULT_CHAT_ID',
+    );
+    this.defaultRateLimit = Number(
+      this.configService.get<string>('API_KEY_RATE_LIMIT', '60'),
+    );
+    if (!this.adminKeyHash) {
+      this.logger.warn(
+        'ADMIN_API_KEY is not set: API keys can only be managed directly in the DB',
+      );
+    }
+  }
+
+  /** 새 키를 발급한다. 원문(key)은 이 응답에서만 확인할 수 있다. */
+  async issue(
+    dto: CreateApiKeyDto,
+  ): Promise<{ key: string } & Omit<ApiKeyEntity, 'keyHash'>> {
+    const key =
+      ApiKeyService.KEY_PREFIX + randomBytes(24).toString('base64url');
+    const saved = await this.repo.save(
+      this.repo.create({
+        name: dto.name,
+        prefix: key.slice(0, 12),
+        keyHash: this.digest(key).toString('hex'),
+        scopes: dto.scopes,
+        allowedChatIds: dto.allowedChatIds?.length ? dto.allowedChatIds : null,
+        rateLimitPerMinute: dto.rateLimitPerMinute ?? this.defaultRateLimit,
+      }),
+    );
+    this.logger.log(
+      `[API KEY ISSUE] "${saved.name}" (${saved.id}) scopes: ${saved.scopes.join(',')}`,
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { keyHash, ...rest } = saved;
+    return { key, ...rest };
+  }
+
+  async findAll(): Promise<ApiKeyEntity[]> {
+    return this.repo.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async revoke(id: string): Promise<ApiKeyEntity> {
+    const found = await this.repo.findOneBy({ id });
+    if (!found) {
+      throw new NotFoundException(`API 키 ${id}을(를) 찾을 수 없습니다.`);
+    }
+    if (!found.revokedAt) {
+      found.revokedAt = new Date();
+      await this.repo.update(id, { revokedAt: found.revokedAt });
+      this.rateWindows.delete(id);
+      this.logger.log(`[API KEY REVOKE] "${found.name}" (${id})`);
+    }
+    return found;
+  }
+
+  /** Bearer 토큰을 확인한다. 없거나 폐기된 키면 null. */
+  async authenticate(token: string): Promise<AuthenticatedApiKey | null> {
+    const hash = this.digest(token);
+
+    if (this.adminKeyHash && timingSafeEqual(hash, this.adminKeyHash)) {
+      return {
+        id: null,
+        name: 'ADMIN_API_KEY',
+        scopes: [...API_KEY_SCOPES],
+        allowedChatIds: null,
+        rateLimitPerMinute: 0,
+      };
+    }
+
+    const found = await this.repo.findOneBy({
+      keyHash: hash.toString('hex'),
+      revokedAt: IsNull(),
+    });
+    return found
+      ? {
+          id: found.id,
+          name: found.name,
+          scopes: found.scopes,
+          allowedChatIds: found.allowedChatIds,
+          rateLimitPerMinute: found.rateLimitPerMinute,
+        }
+      : null;
+  }
+
+  /**
+   * 1분 고정 창으로 요청 수를 센다. 한도를 넘으면 다음 창까지 남은 초를 반환한다.
+   * 한도가 0이면 제한하지 않는다.
+   */
+  consumeRateLimit(key: AuthenticatedApiKey): number | null {
+    if (!key.id || key.rateLimitPerMinute <= 0) return null;
+
+    const now = Date.now();
+    let window = this.rateWindows.get(key.id);
+    if (!window || now - window.startedAt >= ApiKeyService.RATE_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.rateWindows.set(key.id, window);
+      // 창이 바뀔 때만 기록해 요청마다 쓰기가 발생하지 않게 한다
+      void this.repo
+        .update(key.id, { lastUsedAt: new Date(now) })
+        .catch((error: Error) =>
+          this.logger.warn(
+            `[API KEY] Failed to update lastUsedAt: ${error.message}`,
+          ),
+        );
+    }
+
+    window.count++;
+    if (window.count <= key.rateLimitPerMinute) return null;
+    return Math.ceil(
+      (window.startedAt + ApiKeyService.RATE_WINDOW_MS - now) / 1000,
+    );
+  }
+
+  /**
+   * 키의 허용 채팅 목록에 chatId가 있는지 확인한다.
+   * chatId가 비어 있으면 기본 Chat ID로 보낸다는 뜻이므로 그것으로 검사한다.
+   */
+  assertChatAllowed(
+    key: AuthenticatedApiKey | undefined,
+    chatId?: string | null,
+  ): void {
+    if (!key?.allowedChatIds) return;
+    const target = chatId || this.defaultChatId;
+    if (!key.allowedChatIds.includes(target)) {
+      this.logger.warn(
+        `[API KEY DENY] "${key.name}" is not allowed to access chatId: ${target}`,
+      );
+      throw new ForbiddenException(
+        `이 API 키로는 Chat ID ${target}에 접근할 수 없습니다.`,
+      );
+    }
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
@@ -0,0 +1,20 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiKeyEntity } from './entities/api-key.entity.js';
+import { ApiKeyService } from './api-key.service.js';
+import { ApiKeyGuard } from './api-key.guard.js';
+import { ApiKeyController } from './api-key.controller.js';
+
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiKeyEntity])],
+  controllers: [ApiKeyController],
+  providers: [
+    ApiKeyService,
+    ApiKeyGuard,
+    { provide: APP_GUARD, useExisting: ApiKeyGuard },
+  ],
+  exports: [ApiKeyService, ApiKeyGuard],
+})
+export class AuthModule {}
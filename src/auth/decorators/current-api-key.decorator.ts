@@ -0,0 +1,9 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+import type { AuthenticatedApiKey } from '../api-key.service.js';
+
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuthenticatedApiKey | undefined =>
+    ctx.switchToHttp().getRequest<Request & { apiKey?: AuthenticatedApiKey }>()
+      .apiKey,
+);
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import type { ApiKeyScope } from '../entities/api-key.entity.js';
+
+export const SCOPES_KEY = 'apiKeyScopes';
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/** 핸들러(또는 컨트롤러)에 필요한 API 키 스코프. 나열된 스코프를 모두 가져야 한다. */
+export const Scopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
+
+/** API 키 없이 접근 가능한 엔드포인트 */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
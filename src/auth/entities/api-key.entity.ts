@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export const API_KEY_SCOPES = [
+  'notification:send',
+  'schedule:read',
+  'schedule:write',
+  'admin',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+@Entity('api_keys')
+export class ApiKeyEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /** 키 식별용 앞부분 (목록 표시용, 인증에는 사용하지 않음) */
+  @Column({ type: 'varchar', length: 16 })
+  prefix: string;
+
+  /** 키 원문의 SHA-256 해시. 원문은 발급 시 한 번만 반환하고 저장하지 않는다. */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64, select: false })
+  keyHash: string;
+
+  @Column({ type: 'text', array: true })
+  scopes: ApiKeyScope[];
+
+  /** 접근 가능한 Chat ID 목록. null이면 모든 채팅 허용. */
+  @Column({ type: 'text', array: true, nullable: true })
+  allowedChatIds: string[] | null;
+
+  @Column({ type: 'integer', default: 60 })
+  rateLimitPerMinute: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -1,23 +1,45 @@
 import { Module } from '@nestjs/common';
 import { TelegrafModule } from 'nestjs-telegraf';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { BotUpdate } from './bot.update.js';
 import { BotService } from './bot.service.js';
+import { BotPermissionService } from './permissions/bot-permission.service.js';
+import { PermissionUpdate } from './permissions/permission.update.js';
+import { ChatManagerEntity } from './entities/chat-manager.entity.js';
+import { SendQueueModule } from './send-queue/send-queue.module.js';
+import { SendQueueService } from './send-queue/send-queue.service.js';
+import { BotWebhookController } from './webhook/bot-webhook.controller.js';
+import { BotWebhookService } from './webhook/bot-webhook.service.js';
 
 @Module({
   imports: [
+    DiscoveryModule,
+    TypeOrmModule.forFeature([ChatManagerEntity]),
+    SendQueueModule,
     TelegrafModule.forRootAsync({
-      imports: [ConfigModule],
-      inject: [ConfigService],
-      useFactory: (configService: ConfigService) => ({
+      imports: [ConfigModule, SendQueueModule],
+      inject: [ConfigService, SendQueueService],
+      useFactory: (
+        configService: ConfigService,
+        sendQueue: SendQueueService,
+      ) => ({
         token: configService.getOrThrow<string>('TELEGRAM_BOT_TOKEN'),
-        launchOptions: {
-          dropPendingUpdates: true,
-        },
+        middlewares: [sendQueue.middleware()],
+        // 폴링은 실패를 처리할 수 있도록 BotWebhookService가 직접 시작한다
+        launchOptions: false,
       }),
     }),
   ],
-  providers: [BotUpdate, BotService],
-  exports: [BotService],
+  controllers: [BotWebhookController],
+  providers: [
+    BotUpdate,
+    BotService,
+    BotPermissionService,
+    PermissionUpdate,
+    BotWebhookService,
+  ],
+  exports: [BotService, BotPermissionService],
 })
 export class BotModule {}
@@ -1,24 +1,137 @@
 import { Injectable } from '@nestjs/common';
 import { InjectBot } from 'nestjs-telegraf';
 import { Telegraf, Context } from 'telegraf';
+import type { ChatMember, InlineKeyboardMarkup, Message } from 'telegraf/types';
+import {
+  SendPriority,
+  SendQueueService,
+  SendQueueStatus,
+} from './send-queue/send-queue.service.js';
 
+/** 업로드할 파일(InputFile) 또는 Telegram file_id / URL */
+export type TelegramFile = Parameters<Telegraf['telegram']['sendPhoto']>[1];
+export type TelegramMediaGroup = Parameters<
+  Telegraf['telegram']['sendMediaGroup']
+>[1];
+
+/** 보내는 메서드는 모두 SendQueueService를 거쳐 텔레그램 전송 한도에 맞춰 나간다. */
 @Injectable()
 export class BotService {
-  constructor(@InjectBot() private readonly bot: Telegraf<Context>) {}
+  constructor(
+    @InjectBot() private readonly bot: Telegraf<Context>,
+    private readonly sendQueue: SendQueueService,
+  ) {}
 
-  async sendMessage(chatId: string, message: string): Promise<void> {
-    await this.bot.telegram.sendMessage(chatId, message, {
-      parse_mode: 'HTML',
-    });
+  /** 요약·다이제스트처럼 늦어도 되는 대량 발송은 priority를 bulk로 보낸다. */
+  async sendMessage(
+    chatId: string,
+    message: string,
+    replyMarkup?: InlineKeyboardMarkup,
+    priority: SendPriority = 'normal',
+  ): Promise<Message.TextMessage> {
+    return this.sendQueue.enqueue(
+      chatId,
+      () =>
+        this.bot.telegram.sendMessage(chatId, message, {
+          parse_mode: 'HTML',
+          reply_markup: replyMarkup,
+        }),
+      priority,
+    );
   }
 
   async sendMarkdownMessage(chatId: string, message: string): Promise<void> {
-    await this.bot.telegram.sendMessage(chatId, message, {
-      parse_mode: 'MarkdownV2',
-    });
+    await this.sendQueue.enqueue(chatId, () =>
+      this.bot.telegram.sendMessage(chatId, message, {
+        parse_mode: 'MarkdownV2',
+      }),
+    );
+  }
+
+  async sendPhoto(
+    chatId: string,
+    photo: TelegramFile,
+    caption?: string,
+    replyMarkup?: InlineKeyboardMarkup,
+  ): Promise<Message.PhotoMessage> {
+    return this.sendQueue.enqueue(chatId, () =>
+      this.bot.telegram.sendPhoto(chatId, photo, {
+        caption,
+        parse_mode: 'HTML',
+        reply_markup: replyMarkup,
+      }),
+    );
+  }
+
+  async sendDocument(
+    chatId: string,
+    document: TelegramFile,
+    caption?: string,
+    replyMarkup?: InlineKeyboardMarkup,
+  ): Promise<Message.DocumentMessage> {
+    return this.sendQueue.enqueue(chatId, () =>
+      this.bot.telegram.sendDocument(chatId, document, {
+        caption,
+        parse_mode: 'HTML',
+        reply_markup: replyMarkup,
+      }),
+    );
+  }
+
+  async sendLocation(
+    chatId: string,
+    latitude: number,
+    longitude: number,
+  ): Promise<Message.LocationMessage> {
+    return this.sendQueue.enqueue(chatId, () =>
+      this.bot.telegram.sendLocation(chatId, latitude, longitude),
+    );
+  }
+
+  async sendVenue(
+    chatId: string,
+    latitude: number,
+    longitude: number,
+    title: string,
+    address: string,
+  ): Promise<Message.VenueMessage> {
+    return this.sendQueue.enqueue(chatId, () =>
+      this.bot.telegram.sendVenue(chatId, latitude, longitude, title, address),
+    );
+  }
+
+  async sendMediaGroup(
+    chatId: string,
+    media: TelegramMediaGroup,
+  ): Promise<Message[]> {
+    // 앨범은 사진 수만큼 메시지로 센다
+    return this.sendQueue.enqueue(
+      chatId,
+      () => this.bot.telegram.sendMediaGroup(chatId, media),
+      'normal',
+      media.length,
+    );
+  }
+
+  /** 그룹은 제목, 개인 채팅은 사용자 이름. 조회에 실패하면 null. */
+  async getChatTitle(chatId: string): Promise<string | null> {
+    try {
+      const chat = await this.bot.telegram.getChat(chatId);
+      return 'title' in chat ? chat.title : chat.first_name;
+    } catch {
+      return null;
+    }
+  }
+
+  async getChatMember(chatId: string, userId: string): Promise<ChatMember> {
+    return this.bot.telegram.getChatMember(chatId, Number(userId));
   }
 
   getBotInfo() {
     return this.bot.botInfo;
   }
+
+  getQueueStatus(): SendQueueStatus {
+    return this.sendQueue.getStatus();
+  }
 }
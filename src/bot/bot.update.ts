@@ -1,25 +1,38 @@
 import { Update, Start, Help, Command, Ctx, Use, Next } from 'nestjs-telegraf';
 import { Context } from 'telegraf';
+import { BotPermissionService } from './permissions/bot-permission.service.js';
 
 @Update()
 export class BotUpdate {
+  constructor(private readonly permissions: BotPermissionService) {}
+
   @Use()
   async onUse(
     @Ctx() ctx: Context,
     @Next() next: () => Promise<void>,
   ): Promise<void> {
+    if (!this.normalizeGroupCommand(ctx)) return;
+    if (!(await this.permissions.authorize(ctx))) return;
+    return next();
+  }
+
+  /**
+   * 그룹에서 `@봇 명령어` 형식을 일반 명령어로 바꾼다.
+   * 이 봇을 호출하지 않은 명령어면 false를 반환해 무시한다.
+   */
+  private normalizeGroupCommand(ctx: Context): boolean {
     if (ctx.chat?.type === 'private') {
-      return next();
+      return true;
     }
 
     const message = ctx.message;
     if (!message || !('text' in message) || !message.text) {
-      return next();
+      return true;
     }
 
     const botUsername = ctx.botInfo?.username;
     if (!botUsername) {
-      return next();
+      return true;
     }
 
     const text = message.text.trim();
@@ -27,27 +40,39 @@ export class BotUpdate {
 
     if (text.startsWith(mentionTag)) {
       const afterMention = text.slice(mentionTag.length).trim();
-      if (!afterMention) return;
+      if (!afterMention) return false;
+
+      // 봇의 입력 요청 메시지에 대한 답장이면 멘션은 호출용일 뿐이므로 일반 텍스트로 전달
+      if (message.reply_to_message?.from?.id === ctx.botInfo.id) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        (message as any).text = afterMention;
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        (message as any).entities = [];
+        return true;
+      }
 
-      const commandName = afterMention.startsWith('/')
+      const commandText = afterMention.startsWith('/')
         ? afterMention.slice(1)
         : afterMention;
+      const [commandName] = commandText.split(/\s/, 1);
+      const args = commandText.slice(commandName.length).trim();
 
-      const rewritten = `/${commandName}@${botUsername}`;
+      const command = `/${commandName}@${botUsername}`;
+      const rewritten = args ? `${command} ${args}` : command;
       // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
       (message as any).text = rewritten;
       // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
       (message as any).entities = [
-        { type: 'bot_command', offset: 0, length: rewritten.length },
+        { type: 'bot_command', offset: 0, length: command.length },
       ];
-      return next();
+      return true;
     }
 
     if (text.startsWith('/') && !text.includes(mentionTag)) {
-      return;
+      return false;
     }
 
-    return next();
+    return true;
   }
 
   @Start()
@@ -80,7 +105,18 @@ export class BotUpdate {
         `${prefix}schedules - 전체 알림 스케줄 목록\n` +
         `${prefix}fixed - 고정 반복 알림 목록\n` +
         `${prefix}manual - 일회성 알림 목록\n` +
-        `${prefix}events - 이벤트 목록`,
+        `${prefix}events - 이벤트 목록\n` +
+        `${prefix}add - 새 알림 등록 (대화형)\n` +
+        `${prefix}remind - 자연어로 알림 등록 (예: 내일 오후 3시 회의)\n` +
+        `${prefix}cancel - 진행 중인 알림 등록 취소\n` +
+        `${prefix}timezone - 채팅 기본 타임존 확인/변경\n` +
+        `${prefix}summary - 일일·주간 요약 설정\n` +
+        `${prefix}stats - 알림 발송 통계\n` +
+        `<b>🔐 권한</b>\n` +
+        `${prefix}role - 내 권한 확인\n` +
+        `${prefix}managers - 알림 담당자 목록\n` +
+        `${prefix}grant - 알림 담당자 지정 (답장 또는 사용자 ID)\n` +
+        `${prefix}revoke - 알림 담당자 해제`,
       { parse_mode: 'HTML' },
     );
   }
@@ -0,0 +1,21 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+/** 채팅 관리자가 아니어도 알림을 관리할 수 있도록 채팅별로 지정된 사용자 */
+@Entity('chat_managers')
+export class ChatManagerEntity {
+  @PrimaryColumn({ type: 'varchar', length: 50 })
+  chatId: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 50 })
+  userId: string;
+
+  /** 표시용 이름 (지정 당시 기준) */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  displayName: string | null;
+
+  @Column({ type: 'varchar', length: 50 })
+  grantedBy: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
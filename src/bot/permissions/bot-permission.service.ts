@@ -0,0 +1,256 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LISTENERS_METADATA } from 'nestjs-telegraf';
+import { Repository } from 'typeorm';
+import { Context } from 'telegraf';
+import { BotService } from '../bot.service.js';
+import { ChatManagerEntity } from '../entities/chat-manager.entity.js';
+import {
+  MIN_ROLE_KEY,
+  ROLE_LABELS,
+  ROLE_RANK,
+  type BotRole,
+} from './bot-role.js';
+
+interface ListenerMetadata {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * 봇 명령어/버튼을 누른 사용자의 역할을 판별하고 @MinRole 요구사항을 검사한다.
+ * BotUpdate.onUse에서 모든 업데이트에 대해 호출된다.
+ */
+@Injectable()
+export class BotPermissionService implements OnModuleInit {
+  private readonly logger = new Logger(BotPermissionService.name);
+  private readonly ownerIds: Set<string>;
+  private readonly managerIds: Set<string>;
+
+  /** 명령어 이름 → 최소 역할 */
+  private readonly commandRoles = new Map<string, BotRole>();
+  /** 콜백 데이터 패턴 → 최소 역할 */
+  private readonly actionRoles: { trigger: string | RegExp; role: BotRole }[] =
+    [];
+  /** `${chatId}:${userId}` → getChatMember 결과 (관리자 여부) */
+  private readonly adminCache = new Map<
+    string,
+    { isAdmin: boolean; expiresAt: number }
+  >();
+
+  private static readonly ADMIN_CACHE_TTL_MS = 5 * 60 * 1000;
+
+  constructor(
+    @InjectRepository(ChatManagerEntity)
+    private readonly managerRepo: Repository<ChatManagerEntity>,
+    private readonly botService: BotService,
+    private readonly configService: ConfigService,
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {
+    this.ownerIds = this.parseIds('BOT_OWNER_IDS');
+    this.managerIds = this.parseIds('BOT_MANAGER_IDS');
+  }
+
+  onModuleInit() {
+    for (const wrapper of this.discovery.getProviders()) {
+      const instance = wrapper.instance as object | undefined;
+      if (!instance || typeof instance !== 'object') continue;
+      const prototype = Object.getPrototypeOf(instance) as object;
+
+      for (const name of this.metadataScanner.getAllMethodNames(prototype)) {
+        const handler = (prototype as Record<string, unknown>)[name];
+        if (typeof handler !== 'function') continue;
+
+        const role = this.reflector.get<BotRole | undefined>(
+          MIN_ROLE_KEY,
+          handler,
+        );
+        if (!role) continue;
+
+        const listeners =
+          this.reflector.get<ListenerMetadata[] | undefined>(
+            LISTENERS_METADATA,
+            handler,
+          ) ?? [];
+        for (const { method, args } of listeners) {
+          if (method === 'command') {
+            for (const command of args.flat() as string[]) {
+              this.commandRoles.set(command, role);
+            }
+          } else if (method === 'action') {
+            for (const trigger of args.flat() as (string | RegExp)[]) {
+              this.actionRoles.push({ trigger, role });
+            }
+          }
+        }
+      }
+    }
+
+    this.logger.log(
+      `[PERMISSION] ${this.commandRoles.size} command(s), ${this.actionRoles.length} action(s) with role requirements`,
+    );
+  }
+
+  /** 업데이트가 요구하는 역할을 만족하는지 확인한다. 거부 시 안내와 감사 로그를 남긴다. */
+  async authorize(ctx: Context): Promise<boolean> {
+    const required = this.requiredRole(ctx);
+    if (!required) return true;
+    return this.ensureRole(ctx, required.role, required.target);
+  }
+
+  /** 핸들러 안에서 세부 동작별로 역할을 검사할 때 사용한다. */
+  async ensureRole(
+    ctx: Context,
+    role: BotRole,
+    target: string,
+  ): Promise<boolean> {
+    const actual = await this.resolveRole(ctx);
+    if (ROLE_RANK[actual] >= ROLE_RANK[role]) return true;
+
+    const user = ctx.from;
+    this.logger.warn(
+      `[AUDIT DENY] user: ${user?.id} (@${user?.username ?? '-'}) chatId: ${ctx.chat?.id} target: ${target} required: ${role} actual: ${actual}`,
+    );
+
+    const notice = `🙏 죄송합니다. 이 기능은 ${ROLE_LABELS[role]} 이상만 사용할 수 있습니다.`;
+    try {
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery(notice, { show_alert: true });
+      } else {
+        await ctx.reply(notice, {
+          reply_parameters: ctx.message
+            ? { message_id: ctx.message.message_id }
+            : undefined,
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        `[PERMISSION] Failed to send deny notice`,
+        (error as Error).stack,
+      );
+    }
+    return false;
+  }
+
+  async resolveRole(ctx: Context): Promise<BotRole> {
+    const userId = ctx.from ? String(ctx.from.id) : null;
+    const chat = ctx.chat;
+    if (!userId || !chat) return 'member';
+
+    if (this.ownerIds.has(userId)) return 'owner';
+    // 개인 채팅은 본인의 채팅이므로 관리자로 본다
+    if (chat.type === 'private') return 'admin';
+    // 익명 관리자는 그룹 이름으로 메시지를 보낸다
+    if (ctx.message && 'sender_chat' in ctx.message) {
+      if (ctx.message.sender_chat?.id === chat.id) return 'admin';
+    }
+    if (await this.isChatAdmin(String(chat.id), userId)) return 'admin';
+    if (this.managerIds.has(userId)) return 'manager';
+    if (await this.managerRepo.existsBy({ chatId: String(chat.id), userId })) {
+      return 'manager';
+    }
+    return 'member';
+  }
+
+  async findManagers(chatId: string): Promise<ChatManagerEntity[]> {
+    return this.managerRepo.find({
+      where: { chatId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async grantManager(
+    chatId: string,
+    userId: string,
+    grantedBy: string,
+    displayName: string | null = null,
+  ): Promise<ChatManagerEntity> {
+    const saved = await this.managerRepo.save(
+      this.managerRepo.create({ chatId, userId, grantedBy, displayName }),
+    );
+    this.logger.log(
+      `[AUDIT GRANT] chatId: ${chatId} userId: ${userId} by: ${grantedBy}`,
+    );
+    return saved;
+  }
+
+  async revokeManager(
+    chatId: string,
+    userId: string,
+    revokedBy: string,
+  ): Promise<boolean> {
+    const result = await this.managerRepo.delete({ chatId, userId });
+    const revoked = (result.affected ?? 0) > 0;
+    if (revoked) {
+      this.logger.log(
+        `[AUDIT REVOKE] chatId: ${chatId} userId: ${userId} by: ${revokedBy}`,
+      );
+    }
+    return revoked;
+  }
+
+  private requiredRole(ctx: Context): { role: BotRole; target: string } | null {
+    const message = ctx.message;
+    if (message && 'text' in message) {
+      const entity = message.entities?.[0];
+      if (entity?.type === 'bot_command' && entity.offset === 0) {
+        const command = message.text
+          .slice(1, entity.length)
+          .split('@')[0]
+          .toLowerCase();
+        const role = this.commandRoles.get(command);
+        return role ? { role, target: `/${command}` } : null;
+      }
+    }
+
+    const query = ctx.callbackQuery;
+    if (query && 'data' in query) {
+      const match = this.actionRoles.find(({ trigger }) =>
+        typeof trigger === 'string'
+          ? trigger === query.data
+          : trigger.test(query.data),
+      );
+      return match ? { role: match.role, target: query.data } : null;
+    }
+    return null;
+  }
+
+  private async isChatAdmin(chatId: string, userId: string): Promise<boolean> {
+    const key = `${chatId}:${userId}`;
+    const cached = this.adminCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.isAdmin;
+
+    let isAdmin: boolean;
+    try {
+      const member = await this.botService.getChatMember(chatId, userId);
+      isAdmin =
+        member.status === 'creator' || member.status === 'administrator';
+    } catch (error) {
+      // 일시적인 오류로 관리자가 TTL 동안 막히지 않도록 실패는 캐시하지 않는다
+      this.logger.warn(
+        `[PERMISSION] getChatMember failed for ${key}: ${(error as Error).message}`,
+      );
+      return false;
+    }
+
+    this.adminCache.set(key, {
+      isAdmin,
+      expiresAt: Date.now() + BotPermissionService.ADMIN_CACHE_TTL_MS,
+    });
+    return isAdmin;
+  }
+
+  private parseIds(key: string): Set<string> {
+    return new Set(
+      this.configService
+        .get<string>(key, '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+    );
+  }
+}
@@ -0,0 +1,17 @@
+export type BotRole = 'member' | 'manager' | 'admin' | 'owner';
+
+export const ROLE_RANK: Record<BotRole, number> = {
+  member: 0,
+  manager: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export const ROLE_LABELS: Record<BotRole, string> = {
+  member: '일반 멤버',
+  manager: '알림 담당자',
+  admin: '채팅 관리자',
+  owner: '봇 소유자',
+};
+
+export const MIN_ROLE_KEY = 'botMinRole';
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { MIN_ROLE_KEY, type BotRole } from './bot-role.js';
+
+/**
+ * 봇 핸들러(@Command, @Action 등)를 실행하는 데 필요한 최소 역할.
+ * 표시가 없는 핸들러는 누구나 사용할 수 있다.
+ */
+export const MinRole = (role: BotRole) => SetMetadata(MIN_ROLE_KEY, role);
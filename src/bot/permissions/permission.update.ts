@@ -0,0 +1,109 @@
+import { Update, Command, Ctx } from 'nestjs-telegraf';
+import { Context } from 'telegraf';
+import type { User } from 'telegraf/types';
+import { BotPermissionService } from './bot-permission.service.js';
+import { MinRole } from './min-role.decorator.js';
+import { ROLE_LABELS } from './bot-role.js';
+import { getCommandArgs } from '../utils/command.util.js';
+import { escapeHtml } from '../../common/utils/html.util.js';
+
+@Update()
+export class PermissionUpdate {
+  constructor(private readonly permissions: BotPermissionService) {}
+
+  @Command('role')
+  async onRole(@Ctx() ctx: Context): Promise<void> {
+    const role = await this.permissions.resolveRole(ctx);
+    await ctx.reply(`🔐 내 권한: <b>${ROLE_LABELS[role]}</b>`, {
+      parse_mode: 'HTML',
+    });
+  }
+
+  @Command('managers')
+  async onManagers(@Ctx() ctx: Context): Promise<void> {
+    const managers = await this.permissions.findManagers(String(ctx.chat!.id));
+    if (managers.length === 0) {
+      await ctx.reply(
+        '📭 지정된 알림 담당자가 없습니다.\n채팅 관리자는 /grant 로 담당자를 지정할 수 있습니다.',
+      );
+      return;
+    }
+
+    const lines = managers.map(
+      (m, i) =>
+        `${i + 1}. ${escapeHtml(m.displayName ?? '-')} (<code>${m.userId}</code>)`,
+    );
+    await ctx.reply(`👥 <b>알림 담당자</b>\n\n${lines.join('\n')}`, {
+      parse_mode: 'HTML',
+    });
+  }
+
+  @Command('grant')
+  @MinRole('admin')
+  async onGrant(@Ctx() ctx: Context): Promise<void> {
+    const target = this.resolveTarget(ctx);
+    if (!target) {
+      await ctx.reply(
+        '담당자로 지정할 사용자의 메시지에 답장하거나 <code>/grant 사용자ID</code> 형식으로 입력하세요.',
+        { parse_mode: 'HTML' },
+      );
+      return;
+    }
+
+    await this.permissions.grantManager(
+      String(ctx.chat!.id),
+      target.id,
+      String(ctx.from!.id),
+      target.name,
+    );
+    await ctx.reply(
+      `✅ ${escapeHtml(target.name ?? target.id)} 님을 알림 담당자로 지정했습니다.`,
+      { parse_mode: 'HTML' },
+    );
+  }
+
+  @Command('revoke')
+  @MinRole('admin')
+  async onRevoke(@Ctx() ctx: Context): Promise<void> {
+    const target = this.resolveTarget(ctx);
+    if (!target) {
+      await ctx.reply(
+        '해제할 사용자의 메시지에 답장하거나 <code>/revoke 사용자ID</code> 형식으로 입력하세요.',
+        { parse_mode: 'HTML' },
+      );
+      return;
+    }
+
+    const revoked = await this.permissions.revokeManager(
+      String(ctx.chat!.id),
+      target.id,
+      String(ctx.from!.id),
+    );
+    await ctx.reply(
+      revoked
+        ? `✅ ${escapeHtml(target.name ?? target.id)} 님의 알림 담당자 지정을 해제했습니다.`
+        : '⚠️ 알림 담당자로 지정된 사용자가 아닙니다.',
+      { parse_mode: 'HTML' },
+    );
+  }
+
+  /** 답장한 메시지의 작성자, 또는 인자로 받은 사용자 ID */
+  private resolveTarget(
+    ctx: Context,
+  ): { id: string; name: string | null } | null {
+    const message = ctx.message;
+    const repliedFrom: User | undefined =
+      message && 'reply_to_message' in message
+        ? message.reply_to_message?.from
+        : undefined;
+    if (repliedFrom && !repliedFrom.is_bot) {
+      const name = [repliedFrom.first_name, repliedFrom.last_name]
+        .filter(Boolean)
+        .join(' ');
+      return { id: String(repliedFrom.id), name };
+    }
+
+    const arg = getCommandArgs(ctx);
+    return /^\d+$/.test(arg) ? { id: arg, name: null } : null;
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { SendQueueService } from './send-queue.service.js';
+
+/** TelegrafModule 설정에서 미들웨어를 주입하기 위해 BotModule과 분리한다. */
+@Module({
+  providers: [SendQueueService],
+  exports: [SendQueueService],
+})
+export class SendQueueModule {}
@@ -0,0 +1,345 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Context, MiddlewareFn } from 'telegraf';
+import { getRateLimitDelay } from '../utils/telegram-error.util.js';
+
+/** 먼저 보내는 순서. 봇 명령어 응답 > 알림 발송 > 요약·다이제스트 */
+export const SEND_PRIORITIES = ['interactive', 'normal', 'bulk'] as const;
+export type SendPriority = (typeof SEND_PRIORITIES)[number];
+
+export interface SendQueueStatus {
+  pending: number;
+  inFlight: number;
+  byPriority: Record<SendPriority, number>;
+  /** 가장 오래 기다린 항목의 대기 시간 */
+  oldestWaitMs: number | null;
+  /** 대기 중인 항목이 많은 채팅 순 */
+  chats: { chatId: string; pending: number; blockedUntil: Date | null }[];
+  limits: {
+    globalPerSecond: number;
+    groupPerMinute: number;
+    privatePerSecond: number;
+  };
+}
+
+interface Job {
+  chatId: string;
+  priority: SendPriority;
+  /** 차지하는 메시지 수 (앨범은 사진 수만큼) */
+  cost: number;
+  send: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  enqueuedAt: number;
+  rateLimited: number;
+}
+
+interface ChatState {
+  /** 최근 보낸 시각 (메시지 수만큼) */
+  sentAt: number[];
+  /** 429를 받은 채팅은 retry_after까지 보내지 않는다 */
+  blockedUntil: number;
+  /** 같은 채팅의 메시지는 순서대로 하나씩 보낸다 */
+  busy: boolean;
+}
+
+type CallApi = (
+  method: string,
+  payload: object,
+  options?: object,
+) => Promise<unknown>;
+
+/** ctx.reply 등에서 대기열을 거치는 메서드 */
+const SEND_METHODS = new Set([
+  'sendMessage',
+  'sendPhoto',
+  'sendDocument',
+  'sendVideo',
+  'sendAnimation',
+  'sendAudio',
+  'sendVoice',
+  'sendVideoNote',
+  'sendSticker',
+  'sendMediaGroup',
+  'sendLocation',
+  'sendVenue',
+  'sendContact',
+  'sendPoll',
+  'sendDice',
+  'copyMessage',
+  'forwardMessage',
+]);
+
+/**
+ * 텔레그램 발송 대기열. 전체 초당 한도와 채팅별 한도(그룹은 분당, 개인 채팅은 초당)를 넘지 않도록
+ * 우선순위 순으로 꺼내 보낸다. 한도는 프로세스마다 따로 센다.
+ * 그래도 429를 받으면 그 채팅을 retry_after만큼 멈추고 같은 항목을 다시 보낸다.
+ */
+@Injectable()
+export class SendQueueService implements OnModuleDestroy {
+  private readonly logger = new Logger(SendQueueService.name);
+
+  private static readonly PRIVATE_PER_SECOND = 1;
+  /** 429를 받은 항목을 다시 넣는 최대 횟수. 넘으면 호출한 쪽에 에러를 돌려주고, 호출한 쪽은 429를 재시도하지 않는다 */
+  private static readonly MAX_RATE_LIMITED = 3;
+  private static readonly STATUS_CHATS = 20;
+
+  private readonly globalPerSecond: number;
+  private readonly groupPerMinute: number;
+
+  private readonly queues: Record<SendPriority, Job[]> = {
+    interactive: [],
+    normal: [],
+    bulk: [],
+  };
+  private readonly chats = new Map<string, ChatState>();
+  private globalSentAt: number[] = [];
+  private inFlight = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastSweep = 0;
+  private stopped = false;
+
+  constructor(private readonly configService: ConfigService) {
+    this.globalPerSecond = Number(
+      this.configService.get<string>('TELEGRAM_GLOBAL_RATE_LIMIT', '30'),
+    );
+    this.groupPerMinute = Number(
+      this.configService.get<string>('TELEGRAM_GROUP_RATE_LIMIT', '20'),
+    );
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    const pending = SEND_PRIORITIES.flatMap((p) => this.queues[p].splice(0));
+    for (const job of pending) {
+      job.reject(new Error('종료 중이라 발송하지 못했습니다.'));
+    }
+    if (pending.length > 0) {
+      this.logger.warn(
+        `[SEND QUEUE] Dropped ${pending.length} pending send(s) on shutdown`,
+      );
+    }
+  }
+
+  /** 차례가 되면 send를 호출하고 그 결과를 돌려준다. */
+  enqueue<T>(
+    chatId: string | number,
+    send: () => Promise<T>,
+    priority: SendPriority = 'normal',
+    cost = 1,
+  ): Promise<T> {
+    if (this.stopped) {
+      return Promise.reject(new Error('종료 중이라 발송하지 못했습니다.'));
+    }
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        chatId: String(chatId),
+        priority,
+        cost: Math.max(cost, 1),
+        send,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        enqueuedAt: Date.now(),
+        rateLimited: 0,
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * 봇 명령어 응답(ctx.reply 등)도 interactive 우선순위로 대기열을 거치게 한다.
+   * ctx.telegram은 업데이트마다 새로 만들어지므로 그 인스턴스의 callApi만 감싼다.
+   */
+  middleware(): MiddlewareFn<Context> {
+    return (ctx, next) => {
+      const telegram = ctx.telegram;
+      const callApi = telegram.callApi.bind(telegram) as CallApi;
+      const queued: CallApi = (method, payload, options) => {
+        const chatId = (payload as { chat_id?: string | number }).chat_id;
+        if (!SEND_METHODS.has(method) || chatId === undefined) {
+          return callApi(method, payload, options);
+        }
+        const media = (payload as { media?: unknown }).media;
+        return this.enqueue(
+          chatId,
+          () => callApi(method, payload, options),
+          'interactive',
+          Array.isArray(media) ? media.length : 1,
+        );
+      };
+      telegram.callApi = queued as typeof telegram.callApi;
+      return next();
+    };
+  }
+
+  getStatus(): SendQueueStatus {
+    const now = Date.now();
+    const jobs = SEND_PRIORITIES.flatMap((p) => this.queues[p]);
+    const byChat = new Map<string, number>();
+    for (const job of jobs) {
+      byChat.set(job.chatId, (byChat.get(job.chatId) ?? 0) + 1);
+    }
+
+    return {
+      pending: jobs.length,
+      inFlight: this.inFlight,
+      byPriority: {
+        interactive: this.queues.interactive.length,
+        normal: this.queues.normal.length,
+        bulk: this.queues.bulk.length,
+      },
+      oldestWaitMs:
+        jobs.length > 0
+          ? now - Math.min(...jobs.map((job) => job.enqueuedAt))
+          : null,
+      chats: [...byChat]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, SendQueueService.STATUS_CHATS)
+        .map(([chatId, pending]) => {
+          const blockedUntil = this.chats.get(chatId)?.blockedUntil ?? 0;
+          return {
+            chatId,
+            pending,
+            blockedUntil: blockedUntil > now ? new Date(blockedUntil) : null,
+          };
+        }),
+      limits: {
+        globalPerSecond: this.globalPerSecond,
+        groupPerMinute: this.groupPerMinute,
+        privatePerSecond: SendQueueService.PRIVATE_PER_SECOND,
+      },
+    };
+  }
+
+  /**
+   * 보낼 수 있는 항목을 우선순위 순으로 모두 보내고, 남은 항목이 보낼 수 있게 되는 시각에 다시 깨어난다.
+   * 한도에 걸린 채팅의 항목은 건너뛰므로 다른 채팅의 발송을 막지 않는다.
+   */
+  private pump(): void {
+    if (this.stopped) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const now = Date.now();
+    let wakeAt = Infinity;
+
+    scan: for (const priority of SEND_PRIORITIES) {
+      const queue = this.queues[priority];
+      for (let i = 0; i < queue.length; ) {
+        const job = queue[i];
+        const globalAt = readyAt(
+          this.globalSentAt,
+          this.globalPerSecond,
+          1000,
+          job.cost,
+          now,
+        );
+        if (globalAt > now) {
+          wakeAt = Math.min(wakeAt, globalAt);
+          break scan;
+        }
+        const chatAt = this.chatReadyAt(job, now);
+        if (chatAt === null || chatAt > now) {
+          // 보내는 중인 채팅은 끝났을 때 다시 확인한다
+          if (chatAt !== null) wakeAt = Math.min(wakeAt, chatAt);
+          i++;
+          continue;
+        }
+        queue.splice(i, 1);
+        this.dispatch(job, now);
+      }
+    }
+
+    if (now - this.lastSweep > 60_000) this.sweep(now);
+    if (wakeAt !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), wakeAt - now);
+    }
+  }
+
+  /** 채팅 한도 안에서 보낼 수 있는 시각. 같은 채팅의 다른 메시지를 보내는 중이면 null. */
+  private chatReadyAt(job: Job, now: number): number | null {
+    const state = this.chats.get(job.chatId);
+    if (!state) return now;
+    if (state.busy) return null;
+    const [limit, periodMs] = job.chatId.startsWith('-')
+      ? [this.groupPerMinute, 60_000]
+      : [SendQueueService.PRIVATE_PER_SECOND, 1000];
+    return Math.max(
+      state.blockedUntil,
+      readyAt(state.sentAt, limit, periodMs, job.cost, now),
+    );
+  }
+
+  private dispatch(job: Job, now: number): void {
+    let state = this.chats.get(job.chatId);
+    if (!state) {
+      state = { sentAt: [], blockedUntil: 0, busy: false };
+      this.chats.set(job.chatId, state);
+    }
+    for (let i = 0; i < job.cost; i++) {
+      state.sentAt.push(now);
+      this.globalSentAt.push(now);
+    }
+    state.busy = true;
+    this.inFlight++;
+
+    const chat = state;
+    Promise.resolve()
+      .then(() => job.send())
+      .then(job.resolve, (error: unknown) => {
+        const delay = getRateLimitDelay(error);
+        if (
+          delay === null ||
+          job.rateLimited >= SendQueueService.MAX_RATE_LIMITED
+        ) {
+          job.reject(error);
+          return;
+        }
+        job.rateLimited++;
+        chat.blockedUntil = Date.now() + delay;
+        this.queues[job.priority].unshift(job);
+        this.logger.warn(
+          `[SEND QUEUE] Rate limited on chatId: ${job.chatId}, retry in ${delay}ms (${job.rateLimited}/${SendQueueService.MAX_RATE_LIMITED})`,
+        );
+      })
+      .finally(() => {
+        chat.busy = false;
+        this.inFlight--;
+        this.pump();
+      });
+  }
+
+  /** 한도 기간이 지난 기록과 더 이상 보낼 것이 없는 채팅 상태를 지운다. */
+  private sweep(now: number): void {
+    this.lastSweep = now;
+    this.globalSentAt = this.globalSentAt.filter((t) => t > now - 1000);
+    for (const [chatId, state] of this.chats) {
+      state.sentAt = state.sentAt.filter((t) => t > now - 60_000);
+      if (
+        !state.busy &&
+        state.sentAt.length === 0 &&
+        state.blockedUntil <= now
+      ) {
+        this.chats.delete(chatId);
+      }
+    }
+  }
+}
+
+/**
+ * 기간(periodMs) 동안 limit개까지 보낼 수 있을 때, cost개를 더 보낼 수 있는 시각.
+ * 기간이 지난 기록은 sentAt에서 지운다.
+ */
+function readyAt(
+  sentAt: number[],
+  limit: number,
+  periodMs: number,
+  cost: number,
+  now: number,
+): number {
+  while (sentAt.length > 0 && sentAt[0] <= now - periodMs) sentAt.shift();
+  const excess = sentAt.length + Math.min(cost, limit) - limit;
+  return excess <= 0 ? now : sentAt[excess - 1] + periodMs;
+}
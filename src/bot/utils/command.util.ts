@@ -0,0 +1,10 @@
+import { Context } from 'telegraf';
+
+/** `/command@bot 인자...` 형태의 메시지에서 명령어 뒤의 인자 문자열을 반환한다. */
+export function getCommandArgs(ctx: Context): string {
+  const message = ctx.message;
+  if (!message || !('text' in message)) return '';
+  const text = message.text.trim();
+  const [command] = text.split(/\s/, 1);
+  return text.slice(command.length).trim();
+}
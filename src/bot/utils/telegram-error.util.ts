@@ -0,0 +1,23 @@
+import { TelegramError } from 'telegraf';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+
+/** 429(Too Many Requests)면 Telegram이 알려준 retry_after(ms), 아니면 null. */
+export function getRateLimitDelay(error: unknown): number | null {
+  if (error instanceof TelegramError && error.code === 429) {
+    return (error.parameters?.retry_after ?? 1) * 1000;
+  }
+  return null;
+}
+
+/**
+ * 재시도할 대기 시간(ms)을 반환한다. 재시도해도 소용없는 영구 실패면 null.
+ * - 5xx, 네트워크 오류: 지수 백오프.
+ * - 429: 발송 대기열이 retry_after만큼 기다려 이미 다시 보낸 뒤 돌려준 에러이므로 영구 실패.
+ * - 그 외 4xx (chat not found, 차단, 잘못된 HTML 등): 영구 실패.
+ */
+export function getRetryDelay(error: unknown, attempt: number): number | null {
+  if (error instanceof TelegramError && error.code < 500) return null;
+  return Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+}
@@ -0,0 +1,36 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  NotFoundException,
+  Post,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import type { Update } from 'telegraf/types';
+import { BotWebhookService, WEBHOOK_PATH } from './bot-webhook.service.js';
+import { Public } from '../../auth/decorators/scopes.decorator.js';
+
+/** 텔레그램 웹훅 수신. API 키 대신 secret_token 헤더로 보호한다. */
+@ApiExcludeController()
+@Controller(WEBHOOK_PATH)
+export class BotWebhookController {
+  constructor(private readonly webhook: BotWebhookService) {}
+
+  @Post()
+  @Public()
+  @HttpCode(200)
+  async onUpdate(
+    @Headers('x-telegram-bot-api-secret-token') secret: string | undefined,
+    @Body() update: Update,
+  ): Promise<void> {
+    if (!this.webhook.enabled) {
+      throw new NotFoundException();
+    }
+    if (!this.webhook.verifySecret(secret)) {
+      throw new UnauthorizedException('secret token이 올바르지 않습니다.');
+    }
+    await this.webhook.handleUpdate(update);
+  }
+}
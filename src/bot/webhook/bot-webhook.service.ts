@@ -0,0 +1,159 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectBot } from 'nestjs-telegraf';
+import { Telegraf, Context, TelegramError } from 'telegraf';
+import type { Update } from 'telegraf/types';
+import { createHash, timingSafeEqual } from 'crypto';
+
+/** 웹훅을 받는 경로 (BotWebhookController) */
+export const WEBHOOK_PATH = 'telegram/webhook';
+
+export type TelegramUpdateMode = 'polling' | 'webhook';
+
+/** 설정값으로 업데이트 수신 방식을 정한다. 기본은 롱 폴링. */
+function getUpdateMode(configService: ConfigService): TelegramUpdateMode {
+  return configService.get<string>('TELEGRAM_UPDATE_MODE') === 'webhook'
+    ? 'webhook'
+    : 'polling';
+}
+
+/** 재시작 전 쌓인 업데이트를 버릴지 여부 (기본 true) */
+function shouldDropPendingUpdates(configService: ConfigService): boolean {
+  return (
+    configService.get<string>('TELEGRAM_DROP_PENDING_UPDATES', 'true') !==
+    'false'
+  );
+}
+
+/**
+ * 폴링 모드에서는 시작 시 롱 폴링을 시작한다.
+ * 웹훅 모드에서 시작 시 setWebhook, 종료 시 deleteWebhook을 호출한다.
+ * TELEGRAM_WEBHOOK_URL이 없으면 등록을 건너뛰어 로컬에서 업데이트 JSON을 직접 POST해 볼 수 있다.
+ */
+@Injectable()
+export class BotWebhookService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(BotWebhookService.name);
+  readonly enabled: boolean;
+  private readonly publicUrl: string | undefined;
+  private readonly secretHash: Buffer | null;
+  private readonly dropPendingUpdates: boolean;
+  private readonly deleteOnShutdown: boolean;
+  private registered = false;
+
+  constructor(
+    @InjectBot() private readonly bot: Telegraf<Context>,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled = getUpdateMode(configService) === 'webhook';
+    this.publicUrl = configService
+      .get<string>('TELEGRAM_WEBHOOK_URL')
+      ?.replace(/\/+$/, '');
+    this.dropPendingUpdates = shouldDropPendingUpdates(configService);
+    this.deleteOnShutdown =
+      configService.get<string>(
+        'TELEGRAM_WEBHOOK_DELETE_ON_SHUTDOWN',
+        'true',
+      ) !== 'false';
+
+    const secret = this.enabled
+      ? configService.getOrThrow<string>('TELEGRAM_WEBHOOK_SECRET')
+      : null;
+    this.secretHash = secret ? this.hash(secret) : null;
+  }
+
+  get webhookUrl(): string | null {
+    return this.publicUrl ? `${this.publicUrl}/${WEBHOOK_PATH}` : null;
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.enabled) {
+      this.startPolling();
+      return;
+    }
+
+    // 폴링을 시작하지 않으면 botInfo가 채워지지 않는다 (그룹 명령어 판별, 상태 확인에 필요)
+    this.bot.botInfo ??= await this.bot.telegram.getMe();
+
+    const url = this.webhookUrl;
+    if (!url) {
+      this.logger.warn(
+        `[WEBHOOK] TELEGRAM_WEBHOOK_URL이 없어 웹훅 등록을 건너뜁니다. POST /${WEBHOOK_PATH}로 업데이트를 직접 보낼 수 있습니다.`,
+      );
+      return;
+    }
+
+    await this.bot.telegram.setWebhook(url, {
+      secret_token: this.configService.getOrThrow<string>(
+        'TELEGRAM_WEBHOOK_SECRET',
+      ),
+      drop_pending_updates: this.dropPendingUpdates,
+    });
+    this.registered = true;
+    this.logger.log(
+      `[WEBHOOK] 등록 url: ${url}, dropPendingUpdates: ${this.dropPendingUpdates}`,
+    );
+  }
+
+  /**
+   * 롱 폴링을 시작한다. 같은 토큰으로 폴링 중인 다른 인스턴스가 있으면 Telegram이 409 Conflict로
+   * 끊으므로, 이 인스턴스는 업데이트 없이(발송과 API만) 계속 동작하도록 에러를 기록만 한다.
+   */
+  private startPolling(): void {
+    this.bot
+      .launch({ dropPendingUpdates: this.dropPendingUpdates })
+      .catch((error: unknown) => {
+        const conflict =
+          error instanceof TelegramError && error.code === 409
+            ? ' 다른 인스턴스가 폴링 중입니다. 여러 인스턴스로 운영하려면 TELEGRAM_UPDATE_MODE=webhook을 사용하세요.'
+            : '';
+        this.logger.error(
+          `[POLLING] 업데이트 수신이 중단되어 이 인스턴스는 봇 명령어를 처리하지 않습니다: ${(error as Error).message}.${conflict}`,
+        );
+      });
+    this.logger.log(
+      `[POLLING] 시작 dropPendingUpdates: ${this.dropPendingUpdates}`,
+    );
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    if (!this.registered || !this.deleteOnShutdown) return;
+    try {
+      await this.bot.telegram.deleteWebhook();
+      this.registered = false;
+      this.logger.log('[WEBHOOK] 등록 해제');
+    } catch (error) {
+      this.logger.error(
+        `[WEBHOOK] 등록 해제 실패: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** X-Telegram-Bot-Api-Secret-Token 헤더 확인 */
+  verifySecret(token: string | undefined): boolean {
+    if (!this.secretHash || !token) return false;
+    return timingSafeEqual(this.hash(token), this.secretHash);
+  }
+
+  async handleUpdate(update: Update): Promise<void> {
+    try {
+      await this.bot.handleUpdate(update);
+    } catch (error) {
+      // 에러로 응답하면 텔레그램이 같은 업데이트를 계속 재전송하므로 기록만 한다
+      this.logger.error(
+        `[WEBHOOK] 업데이트 처리 실패 updateId: ${update.update_id}, error: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** 길이가 달라도 timingSafeEqual로 비교할 수 있게 해시한다 */
+  private hash(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
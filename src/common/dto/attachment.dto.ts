@@ -0,0 +1,117 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { IsMessageTemplate } from '../validators/is-message-template.validator.js';
+
+export class MediaItemDto {
+  @ApiProperty({ description: '미디어 종류', enum: ['photo', 'document'] })
+  @IsIn(['photo', 'document'])
+  type: 'photo' | 'document';
+
+  @ApiProperty({
+    description: 'Telegram file_id, http(s) URL 또는 업로드 참조(upload:<id>)',
+    example: 'upload:7b0c3a1e-3f0e-4c1a-9a57-1d2f3c4b5a6e',
+  })
+  @IsString()
+  @IsNotEmpty()
+  file: string;
+
+  @ApiPropertyOptional({ description: '캡션 (HTML, 최대 1024자)' })
+  @IsString()
+  @MaxLength(1024)
+  @IsMessageTemplate()
+  @IsOptional()
+  caption?: string;
+}
+
+export class AttachmentDto {
+  @ApiProperty({
+    description: '첨부 종류',
+    enum: ['photo', 'document', 'location', 'mediaGroup'],
+    example: 'photo',
+  })
+  @IsIn(['photo', 'document', 'location', 'mediaGroup'])
+  type: 'photo' | 'document' | 'location' | 'mediaGroup';
+
+  @ApiPropertyOptional({
+    description:
+      '(photo/document 필수) Telegram file_id, http(s) URL 또는 업로드 참조(upload:<id>)',
+    example: 'https://example.com/menu.png',
+  })
+  @ValidateIf((o: AttachmentDto) => o.type === 'photo' || o.type === 'document')
+  @IsString()
+  @IsNotEmpty()
+  file?: string;
+
+  @ApiPropertyOptional({
+    description: '(photo/document) 캡션 (HTML, 최대 1024자)',
+  })
+  @IsString()
+  @MaxLength(1024)
+  @IsMessageTemplate()
+  @IsOptional()
+  caption?: string;
+
+  @ApiPropertyOptional({
+    description: '(location 필수) 위도',
+    example: 37.5665,
+  })
+  @ValidateIf((o: AttachmentDto) => o.type === 'location')
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({
+    description: '(location 필수) 경도',
+    example: 126.978,
+  })
+  @ValidateIf((o: AttachmentDto) => o.type === 'location')
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({
+    description: '(location) 장소 이름. address와 함께 주면 장소로 표시',
+    example: '본사 3층 대회의실',
+  })
+  @IsString()
+  @IsOptional()
+  title?: string;
+
+  @ApiPropertyOptional({
+    description: '(location) 주소',
+    example: '서울특별시 중구 세종대로 110',
+  })
+  @IsString()
+  @IsOptional()
+  address?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '(mediaGroup 필수) 앨범 항목 2~10개. 사진끼리 또는 문서끼리만 묶을 수 있음',
+    type: [MediaItemDto],
+  })
+  @ValidateIf((o: AttachmentDto) => o.type === 'mediaGroup')
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => MediaItemDto)
+  items?: MediaItemDto[];
+}
@@ -0,0 +1,67 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import {
+  ALERT_SOURCES,
+  type AlertSource,
+} from '../../notification/entities/alert-route.entity.js';
+import { IsStringRecord } from '../validators/is-string-record.validator.js';
+
+export class CreateAlertRouteDto {
+  @ApiProperty({ description: '규칙 이름', example: '결제팀 critical' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: '적용할 소스 (미입력 시 모든 소스)',
+    enum: ALERT_SOURCES,
+  })
+  @IsIn(ALERT_SOURCES)
+  @IsOptional()
+  source?: AlertSource;
+
+  @ApiPropertyOptional({
+    description:
+      '모두 맞아야 하는 조건. Alertmanager·Grafana는 공통 라벨과 status·receiver, GitHub은 repository·owner·event·action·branch·sender. 값에 * 사용 가능 (미입력 시 모든 알림)',
+    example: { team: 'payments', severity: 'critical' },
+  })
+  @IsObject()
+  @IsStringRecord()
+  @IsOptional()
+  match?: Record<string, string>;
+
+  @ApiProperty({ description: '보낼 Chat ID', example: '-1001234567890' })
+  @IsString()
+  @IsNotEmpty()
+  chatId: string;
+
+  @ApiPropertyOptional({
+    description: '확인 순서 (작을수록 먼저, 기본 0)',
+    example: 10,
+  })
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @ApiPropertyOptional({
+    description: '맞아도 다음 규칙을 계속 확인 (기본 false)',
+  })
+  @IsBoolean()
+  @IsOptional()
+  continue?: boolean;
+
+  @ApiPropertyOptional({ description: '활성화 여부 (기본 true)' })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
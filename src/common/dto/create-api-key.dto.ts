@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import {
+  API_KEY_SCOPES,
+  type ApiKeyScope,
+} from '../../auth/entities/api-key.entity.js';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: '키 이름 (용도 구분용)',
+    example: 'CI 배포 알림',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: '부여할 권한',
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ['notification:send'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: '접근을 허용할 Chat ID 목록 (미입력 시 모든 채팅 허용)',
+    example: ['-1001234567890'],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  allowedChatIds?: string[];
+
+  @ApiPropertyOptional({
+    description: '분당 최대 요청 수 (미입력 시 API_KEY_RATE_LIMIT, 기본 60)',
+    example: 60,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  rateLimitPerMinute?: number;
+}
@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateHolidayDto {
+  @ApiProperty({ description: '휴일 날짜 (YYYY-MM-DD)', example: '2026-12-31' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'date는 YYYY-MM-DD 형식이어야 합니다.',
+  })
+  @IsISO8601({ strict: true })
+  date: string;
+
+  @ApiProperty({ description: '휴일 이름', example: '창립기념일' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: '적용할 Chat ID (미입력 시 모든 채팅에 적용)',
+    example: '-1001234567890',
+  })
+  @IsString()
+  @IsOptional()
+  chatId?: string;
+}
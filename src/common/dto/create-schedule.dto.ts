@@ -1,13 +1,36 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
+  IsBoolean,
   IsEnum,
+  IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
+  IsTimeZone,
+  Min,
   ValidateIf,
+  IsArray,
+  ValidateNested,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import type {
+  HolidayPolicy,
+  MisfirePolicy,
+} from '../../schedule/entities/scheduled-notification.entity.js';
+import { IsMessageTemplate } from '../validators/is-message-template.validator.js';
+import { IsCron } from '../validators/is-cron.validator.js';
+import { IsRecurrence } from '../validators/is-recurrence.validator.js';
+import { AttachmentDto } from './attachment.dto.js';
+import { ReminderOffsetDto } from './reminder-offset.dto.js';
+import { EscalationStepDto } from './escalation-step.dto.js';
 type ScheduleType = 'fixed' | 'manual' | 'event';
 
+/** 스케줄 slug·태그: 영문 소문자, 숫자, -, _ */
+export const SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
 export class CreateScheduleDto {
   @ApiProperty({
     description: '알림 타입',
@@ -26,11 +49,13 @@ export class CreateScheduleDto {
   name: string;
 
   @ApiProperty({
-    description: '알림 메시지 (HTML 태그 지원)',
-    example: '🔔 <b>출근 시간</b>입니다!',
+    description:
+      '알림 메시지 (HTML 태그 지원). {{date}}, {{time}}, {{weekday}}, {{week}}, {{dday:YYYY-MM-DD}}, {{occurrence}}, {{chatTitle}} 변수는 발송 시점에 치환됩니다.',
+    example: '🔔 <b>{{week}}주차 출근 시간</b>입니다!',
   })
   @IsString()
   @IsNotEmpty()
+  @IsMessageTemplate()
   message: string;
 
   @ApiPropertyOptional({
@@ -43,17 +68,54 @@ export class CreateScheduleDto {
 
   @ApiPropertyOptional({
     description:
-      'Cron 표현식 (fixed 타입 필수). 예: "0 9 * * *" = 매일 09:00, "0 9 * * 1-5" = 평일 09:00',
+      '선언형 동기화(PUT /schedule/sync)에서 스케줄을 가리키는 키. 채팅 안에서 유일하며 영문 소문자, 숫자, -, _만 쓸 수 있습니다.',
+    example: 'morning-standup',
+  })
+  @Matches(SLUG_PATTERN, {
+    message: 'slug는 영문 소문자, 숫자, -, _만 쓸 수 있습니다.',
+  })
+  @MaxLength(100)
+  @IsOptional()
+  slug?: string;
+
+  @ApiPropertyOptional({
+    description: '태그 (동기화 범위 지정에 사용)',
+    example: ['team-backend'],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @Matches(SLUG_PATTERN, {
+    each: true,
+    message: '태그는 영문 소문자, 숫자, -, _만 쓸 수 있습니다.',
+  })
+  @MaxLength(50, { each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Cron 표현식 (fixed 타입 필수, 분 시 일 월 요일). 예: "0 9 * * *" = 매일 09:00, "0 9 * * 1-5" = 평일 09:00, "*/15 9-18 * * MON-FRI". @daily 등 프리셋 사용 가능. 일·요일을 함께 지정하면 둘 중 하나만 맞아도 발송',
     example: '0 9 * * 1-5',
   })
-  @ValidateIf((o) => o.type === 'fixed')
+  @ValidateIf((o: CreateScheduleDto) => o.type === 'fixed' && !o.recurrence)
   @IsString()
   @IsNotEmpty()
+  @IsCron()
   cron?: string;
 
   @ApiPropertyOptional({
     description:
-      '알림 예정 시각 (manual 타입 필수). ISO 8601 형식. 예: "2026-03-01T09:00:00+09:00"',
+      'cron 대신 쓰는 iCalendar 반복 규칙 (fixed 타입). DTSTART와 RRULE 필수, EXDATE로 제외 날짜 지정. DTSTART의 TZID는 timezone 미입력 시 기본값이 됩니다.',
+    example:
+      'DTSTART;TZID=Asia/Seoul:20260303T090000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU',
+  })
+  @IsRecurrence()
+  @IsOptional()
+  recurrence?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '알림 예정 시각 (manual 타입 필수). ISO 8601 형식. 오프셋이 없으면 timezone 기준으로 해석. 예: "2026-03-01T09:00:00+09:00"',
     example: '2026-03-01T09:00:00+09:00',
   })
   @ValidateIf((o) => o.type === 'manual' || o.type === 'event')
@@ -69,4 +131,86 @@ export class CreateScheduleDto {
   @IsString()
   @IsOptional()
   eventTime?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA 타임존. cron 및 날짜 계산 기준 (미입력 시 채팅 기본 타임존 사용)',
+    example: 'Europe/Berlin',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '서버 중단 등으로 놓친 발송 처리 방식. skip: 건너뜀, grace: 유예 시간 안이면 가장 최근 1회만 늦게 발송, all: 놓친 발송 모두 발송 (최대 20회)',
+    enum: ['skip', 'grace', 'all'],
+    example: 'grace',
+  })
+  @IsEnum(['skip', 'grace', 'all'])
+  @IsOptional()
+  misfirePolicy?: MisfirePolicy;
+
+  @ApiPropertyOptional({
+    description: 'grace 정책의 유예 시간(분) (기본 60)',
+    example: 30,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  misfireGraceMinutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      '공휴일(회사 휴일 포함) 처리 방식 (fixed 타입). fire: 그대로 발송, skip: 건너뜀, shift: 다음 영업일 같은 시각으로 이동',
+    enum: ['fire', 'skip', 'shift'],
+    example: 'skip',
+  })
+  @IsEnum(['fire', 'skip', 'shift'])
+  @IsOptional()
+  holidayPolicy?: HolidayPolicy;
+
+  @ApiPropertyOptional({
+    description:
+      '첨부 (사진/문서/위치/앨범). 파일은 POST /files로 업로드한 참조(upload:<id>), Telegram file_id 또는 URL',
+    type: [AttachmentDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AttachmentDto)
+  @IsOptional()
+  attachments?: AttachmentDto[];
+
+  @ApiPropertyOptional({
+    description:
+      '(event 타입) 사전 알림 목록. 예: [{"days":3,"at":"09:00"},{"days":1},{"hours":1}] = D-3 09:00, 하루 전, 1시간 전',
+    type: [ReminderOffsetDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => ReminderOffsetDto)
+  @IsOptional()
+  reminderOffsets?: ReminderOffsetDto[];
+
+  @ApiPropertyOptional({
+    description:
+      '발송 메시지에 "확인", "10분 후", "1시간 후" 버튼을 붙입니다. 확인한 사람은 발송 이력에 기록되고, 다시 알림은 일회성 알림으로 예약됩니다.',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  ackButtons?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      '확인이 없을 때의 에스컬레이션 단계 (afterMinutes 오름차순). 지정하면 확인 버튼이 자동으로 붙고, 누군가 확인하거나 다시 알림을 누르면 멈춥니다. 예: [{"afterMinutes":10,"mentions":["@oncall_kim"]},{"afterMinutes":30,"chatId":"-100987654321"}]',
+    type: [EscalationStepDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => EscalationStepDto)
+  @IsOptional()
+  escalation?: EscalationStepDto[];
 }
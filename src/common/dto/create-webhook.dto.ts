@@ -0,0 +1,68 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import {
+  WEBHOOK_EVENTS,
+  type WebhookEvent,
+} from '../../webhook/entities/webhook-subscription.entity.js';
+
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: '구독 이름 (용도 구분용)',
+    example: '스탠드업 회의실',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: '이벤트를 POST할 URL',
+    example: 'https://standup.example.com/hooks/telegram',
+  })
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false,
+  })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    description: '구독할 이벤트',
+    enum: WEBHOOK_EVENTS,
+    isArray: true,
+    example: ['delivery.succeeded'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description: '이 채팅들의 이벤트만 받습니다 (미입력 시 모든 채팅)',
+    example: ['-1001234567890'],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  chatIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'HMAC 서명 키 (미입력 시 생성해 응답으로 한 번만 반환)',
+  })
+  @IsString()
+  @MinLength(16)
+  @MaxLength(128)
+  @IsOptional()
+  secret?: string;
+}
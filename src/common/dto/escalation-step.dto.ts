@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class EscalationStepDto {
+  @ApiProperty({
+    description: '최초 발송 후 이 시간(분)이 지나도록 확인이 없으면 보냅니다',
+    example: 15,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(7 * 24 * 60)
+  afterMinutes: number;
+
+  @ApiPropertyOptional({
+    description:
+      '보낼 Chat ID (미입력 시 원래 채팅). 사용자 id를 쓰면 그 사용자에게 DM으로 보냅니다 (봇과 대화를 시작한 사용자만)',
+    example: '-100987654321',
+  })
+  @IsString()
+  @IsOptional()
+  chatId?: string;
+
+  @ApiPropertyOptional({
+    description: '함께 호출할 사용자 (@username 또는 숫자 사용자 id)',
+    example: ['@oncall_kim', '123456789'],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @Matches(/^(@[A-Za-z0-9_]{5,32}|\d+)$/, {
+    each: true,
+    message: 'mentions는 @username 또는 숫자 사용자 id여야 합니다.',
+  })
+  @IsOptional()
+  mentions?: string[];
+}
@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional, IsString } from 'class-validator';
+
+export class ImportIcsDto {
+  @ApiPropertyOptional({
+    description: '일정을 등록할 Chat ID (미입력 시 기본 Chat ID 사용)',
+    example: '123456789',
+  })
+  @IsString()
+  @IsOptional()
+  chatId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '등록할 스케줄 타입. event는 이벤트(사전 알림용), manual은 일정 시각에 발송되는 일회성 알림',
+    enum: ['event', 'manual'],
+    default: 'event',
+  })
+  @IsIn(['event', 'manual'])
+  @IsOptional()
+  type?: 'event' | 'manual';
+
+  @ApiPropertyOptional({
+    description:
+      'true(기본)면 등록하지 않고 결과만 보고합니다. 확인 후 false로 다시 보내면 등록합니다.',
+    default: true,
+  })
+  // multipart 필드는 문자열로 온다
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
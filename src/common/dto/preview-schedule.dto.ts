@@ -0,0 +1,64 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { IsMessageTemplate } from '../validators/is-message-template.validator.js';
+
+export class PreviewScheduleDto {
+  @ApiPropertyOptional({
+    description: '렌더링할 메시지 템플릿 (미입력 시 scheduleId의 메시지 사용)',
+    example:
+      '📊 {{week}}주차 주간 보고 ({{date}} {{weekday}}) - 릴리스 {{dday:2026-12-01}}',
+  })
+  @IsString()
+  @IsMessageTemplate()
+  @IsOptional()
+  message?: string;
+
+  @ApiPropertyOptional({
+    description: '기존 스케줄 ID (타임존, 채팅, 발송 회차를 가져옴)',
+  })
+  @IsUUID()
+  @IsOptional()
+  scheduleId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '렌더링 기준 시각 (ISO 8601, 오프셋이 없으면 타임존 현지 시각). 미입력 시 현재 시각',
+    example: '2026-10-19T09:00:00',
+  })
+  @IsDateString()
+  @IsOptional()
+  at?: string;
+
+  @ApiPropertyOptional({
+    description: '타임존 (미입력 시 스케줄 또는 채팅 기본 타임존)',
+    example: 'Asia/Seoul',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: '{{chatTitle}}을 가져올 Chat ID',
+    example: '123456789',
+  })
+  @IsString()
+  @IsOptional()
+  chatId?: string;
+
+  @ApiPropertyOptional({
+    description: '{{occurrence}}에 사용할 회차',
+    example: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  occurrence?: number;
+}
@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Matches, Max, Min } from 'class-validator';
+
+export class ReminderOffsetDto {
+  @ApiPropertyOptional({ description: '며칠 전', example: 3 })
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  days?: number;
+
+  @ApiPropertyOptional({ description: '몇 시간 전', example: 1 })
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  @IsOptional()
+  hours?: number;
+
+  @ApiPropertyOptional({ description: '몇 분 전', example: 30 })
+  @IsInt()
+  @Min(0)
+  @Max(59)
+  @IsOptional()
+  minutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      '발송 시각 (HH:mm). 지정하면 days만큼 앞선 날의 이 시각에 발송',
+    example: '09:00',
+  })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'at은 HH:mm 형식이어야 합니다.',
+  })
+  @IsOptional()
+  at?: string;
+}
@@ -1,5 +1,13 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { plainToInstance, Transform } from 'class-transformer';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { AttachmentDto } from './attachment.dto.js';
 
 export class SendMessageDto {
   @ApiProperty({
@@ -17,4 +25,33 @@ export class SendMessageDto {
   @IsString()
   @IsOptional()
   chatId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '첨부 (사진/문서/위치/앨범). multipart 요청에서는 JSON 문자열로 보냅니다. 첫 첨부가 캡션 없는 사진/문서이면 message가 캡션으로 붙습니다.',
+    type: [AttachmentDto],
+  })
+  @Transform(({ value }: { value: unknown }) => toAttachments(value))
+  @IsArray()
+  @ValidateNested({ each: true })
+  @IsOptional()
+  attachments?: AttachmentDto[];
+}
+
+/**
+ * multipart/form-data에서는 중첩 필드가 문자열로 오므로 JSON으로 해석한 뒤
+ * 중첩 검증을 위해 AttachmentDto 인스턴스로 변환한다.
+ */
+function toAttachments(value: unknown): unknown {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  }
+  return Array.isArray(parsed)
+    ? plainToInstance(AttachmentDto, parsed as object[])
+    : parsed;
 }
@@ -0,0 +1,69 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CreateScheduleDto, SLUG_PATTERN } from './create-schedule.dto.js';
+
+/** 동기화 파일의 스케줄 하나. slug가 필수이고 enabled를 지정할 수 있다. */
+export class ScheduleSpecDto extends CreateScheduleDto {
+  @ApiPropertyOptional({
+    description: '활성화 여부 (기본 true)',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
+
+export class SyncSchedulesDto {
+  @ApiPropertyOptional({ description: '파일 형식 버전', enum: [1] })
+  @IsIn([1])
+  @IsOptional()
+  version?: number;
+
+  @ApiPropertyOptional({
+    description:
+      '동기화 범위 Chat ID. 이 채팅의 slug가 있는 스케줄이 대상입니다. chatId와 tag가 모두 없으면 기본 Chat ID',
+    example: '123456789',
+  })
+  @IsString()
+  @IsOptional()
+  chatId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '동기화 범위 태그. 이 태그가 붙은 slug가 있는 스케줄이 대상이며, 원하는 스케줄에는 이 태그가 자동으로 붙습니다.',
+    example: 'team-backend',
+  })
+  @Matches(SLUG_PATTERN, {
+    message: 'tag는 영문 소문자, 숫자, -, _만 쓸 수 있습니다.',
+  })
+  @IsOptional()
+  tag?: string;
+
+  @ApiProperty({
+    description: '원하는 스케줄 목록 (각 항목에 slug 필수)',
+    type: [ScheduleSpecDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => ScheduleSpecDto)
+  schedules: ScheduleSpecDto[];
+
+  @ApiPropertyOptional({
+    description:
+      '내보내기 결과의 slug 없는 스케줄 목록. 동기화에서는 무시합니다.',
+  })
+  @IsArray()
+  @IsOptional()
+  unmanaged?: unknown[];
+}
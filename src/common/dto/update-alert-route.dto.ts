@@ -0,0 +1,64 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import {
+  ALERT_SOURCES,
+  type AlertSource,
+} from '../../notification/entities/alert-route.entity.js';
+import { IsStringRecord } from '../validators/is-string-record.validator.js';
+
+export class UpdateAlertRouteDto {
+  @ApiPropertyOptional({ description: '규칙 이름' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: '적용할 소스 (null이면 모든 소스)',
+    enum: ALERT_SOURCES,
+    nullable: true,
+  })
+  @IsIn(ALERT_SOURCES)
+  @IsOptional()
+  source?: AlertSource | null;
+
+  @ApiPropertyOptional({
+    description: '모두 맞아야 하는 조건 (값에 * 사용 가능)',
+    example: { team: 'payments' },
+  })
+  @IsObject()
+  @IsStringRecord()
+  @IsOptional()
+  match?: Record<string, string>;
+
+  @ApiPropertyOptional({ description: '보낼 Chat ID' })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  chatId?: string;
+
+  @ApiPropertyOptional({ description: '확인 순서 (작을수록 먼저)' })
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @ApiPropertyOptional({ description: '맞아도 다음 규칙을 계속 확인' })
+  @IsBoolean()
+  @IsOptional()
+  continue?: boolean;
+
+  @ApiPropertyOptional({ description: '활성화 여부' })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
@@ -0,0 +1,74 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsTimeZone,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class UpdateChatSettingsDto {
+  @ApiPropertyOptional({
+    description: '채팅 기본 IANA 타임존 (스케줄에 타임존이 없을 때 사용)',
+    example: 'Asia/Seoul',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: '일일 요약 발송 여부', example: true })
+  @IsBoolean()
+  @IsOptional()
+  summaryEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: '일일 요약 발송 시각 (채팅 타임존 HH:mm)',
+    example: '08:00',
+  })
+  @Matches(HH_MM, { message: 'summaryTime은 HH:mm 형식이어야 합니다.' })
+  @IsOptional()
+  summaryTime?: string;
+
+  @ApiPropertyOptional({
+    description: '일일 요약에 내일 일정도 포함',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  summaryIncludeTomorrow?: boolean;
+
+  @ApiPropertyOptional({
+    description: '일정이 없는 날에도 "오늘은 알림이 없습니다" 발송',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  summarySendEmpty?: boolean;
+
+  @ApiPropertyOptional({ description: '주간 요약 발송 여부', example: false })
+  @IsBoolean()
+  @IsOptional()
+  digestEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: '주간 요약 요일 (0=일요일 ~ 6=토요일)',
+    example: 1,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  @IsOptional()
+  digestDay?: number;
+
+  @ApiPropertyOptional({
+    description: '주간 요약 발송 시각 (채팅 타임존 HH:mm)',
+    example: '08:30',
+  })
+  @Matches(HH_MM, { message: 'digestTime은 HH:mm 형식이어야 합니다.' })
+  @IsOptional()
+  digestTime?: string;
+}
@@ -1,5 +1,30 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsBoolean, IsOptional, IsString } from 'class-validator';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Min,
+  IsArray,
+  ValidateNested,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type {
+  HolidayPolicy,
+  MisfirePolicy,
+} from '../../schedule/entities/scheduled-notification.entity.js';
+import { IsMessageTemplate } from '../validators/is-message-template.validator.js';
+import { IsCron } from '../validators/is-cron.validator.js';
+import { IsRecurrence } from '../validators/is-recurrence.validator.js';
+import { AttachmentDto } from './attachment.dto.js';
+import { ReminderOffsetDto } from './reminder-offset.dto.js';
+import { EscalationStepDto } from './escalation-step.dto.js';
+import { SLUG_PATTERN } from './create-schedule.dto.js';
 
 export class UpdateScheduleDto {
   @ApiPropertyOptional({ description: '알림 이름', example: '퇴근 알림' })
@@ -8,10 +33,11 @@ export class UpdateScheduleDto {
   name?: string;
 
   @ApiPropertyOptional({
-    description: '알림 메시지',
+    description: '알림 메시지 ({{date}}, {{week}} 등 템플릿 변수 지원)',
     example: '🔔 퇴근 시간입니다!',
   })
   @IsString()
+  @IsMessageTemplate()
   @IsOptional()
   message?: string;
 
@@ -20,14 +46,49 @@ export class UpdateScheduleDto {
   @IsOptional()
   chatId?: string;
 
+  @ApiPropertyOptional({
+    description: '선언형 동기화용 키 (채팅 안에서 유일)',
+    example: 'evening-wrapup',
+  })
+  @Matches(SLUG_PATTERN, {
+    message: 'slug는 영문 소문자, 숫자, -, _만 쓸 수 있습니다.',
+  })
+  @MaxLength(100)
+  @IsOptional()
+  slug?: string;
+
+  @ApiPropertyOptional({
+    description: '태그 (전체를 이 값으로 바꿉니다)',
+    example: ['team-backend'],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @Matches(SLUG_PATTERN, {
+    each: true,
+    message: '태그는 영문 소문자, 숫자, -, _만 쓸 수 있습니다.',
+  })
+  @MaxLength(50, { each: true })
+  @IsOptional()
+  tags?: string[];
+
   @ApiPropertyOptional({
     description: 'Cron 표현식 (fixed 타입만)',
     example: '0 18 * * 1-5',
   })
   @IsString()
+  @IsCron()
   @IsOptional()
   cron?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'iCalendar 반복 규칙 (fixed 타입만). 지정하면 cron 대신 사용되고, cron을 지정하면 해제됩니다.',
+    example: 'DTSTART:20260306T180000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR',
+  })
+  @IsRecurrence()
+  @IsOptional()
+  recurrence?: string;
+
   @ApiPropertyOptional({
     description: '알림 예정 시각 (manual 타입만)',
     example: '2026-04-01T12:00:00+09:00',
@@ -48,4 +109,85 @@ export class UpdateScheduleDto {
   @IsString()
   @IsOptional()
   eventTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA 타임존 (미입력 시 채팅 기본 타임존 사용)',
+    example: 'America/New_York',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '서버 중단 등으로 놓친 발송 처리 방식. skip: 건너뜀, grace: 유예 시간 안이면 가장 최근 1회만 늦게 발송, all: 놓친 발송 모두 발송 (최대 20회)',
+    enum: ['skip', 'grace', 'all'],
+    example: 'grace',
+  })
+  @IsEnum(['skip', 'grace', 'all'])
+  @IsOptional()
+  misfirePolicy?: MisfirePolicy;
+
+  @ApiPropertyOptional({
+    description: 'grace 정책의 유예 시간(분)',
+    example: 30,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  misfireGraceMinutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      '공휴일(회사 휴일 포함) 처리 방식 (fixed 타입). fire: 그대로 발송, skip: 건너뜀, shift: 다음 영업일 같은 시각으로 이동',
+    enum: ['fire', 'skip', 'shift'],
+    example: 'skip',
+  })
+  @IsEnum(['fire', 'skip', 'shift'])
+  @IsOptional()
+  holidayPolicy?: HolidayPolicy;
+
+  @ApiPropertyOptional({
+    description:
+      '첨부 (사진/문서/위치/앨범). 파일은 POST /files로 업로드한 참조(upload:<id>), Telegram file_id 또는 URL',
+    type: [AttachmentDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AttachmentDto)
+  @IsOptional()
+  attachments?: AttachmentDto[];
+
+  @ApiPropertyOptional({
+    description:
+      '(event 타입) 사전 알림 목록. 예: [{"days":3,"at":"09:00"},{"days":1},{"hours":1}] = D-3 09:00, 하루 전, 1시간 전',
+    type: [ReminderOffsetDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => ReminderOffsetDto)
+  @IsOptional()
+  reminderOffsets?: ReminderOffsetDto[];
+
+  @ApiPropertyOptional({
+    description:
+      '발송 메시지에 "확인", "10분 후", "1시간 후" 버튼을 붙입니다. 확인한 사람은 발송 이력에 기록되고, 다시 알림은 일회성 알림으로 예약됩니다.',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  ackButtons?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      '확인이 없을 때의 에스컬레이션 단계 (afterMinutes 오름차순). 지정하면 확인 버튼이 자동으로 붙고, 누군가 확인하거나 다시 알림을 누르면 멈춥니다. 예: [{"afterMinutes":10,"mentions":["@oncall_kim"]},{"afterMinutes":30,"chatId":"-100987654321"}]',
+    type: [EscalationStepDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => EscalationStepDto)
+  @IsOptional()
+  escalation?: EscalationStepDto[];
 }
@@ -0,0 +1,67 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import {
+  WEBHOOK_EVENTS,
+  type WebhookEvent,
+} from '../../webhook/entities/webhook-subscription.entity.js';
+
+export class UpdateWebhookDto {
+  @ApiPropertyOptional({ description: '구독 이름' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({ description: '이벤트를 POST할 URL' })
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false,
+  })
+  @MaxLength(2048)
+  @IsOptional()
+  url?: string;
+
+  @ApiPropertyOptional({
+    description: '구독할 이벤트',
+    enum: WEBHOOK_EVENTS,
+    isArray: true,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  @IsOptional()
+  events?: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description: '이 채팅들의 이벤트만 받습니다 (빈 배열이면 모든 채팅)',
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  chatIds?: string[];
+
+  @ApiPropertyOptional({ description: '새 HMAC 서명 키' })
+  @IsString()
+  @MinLength(16)
+  @MaxLength(128)
+  @IsOptional()
+  secret?: string;
+
+  @ApiPropertyOptional({ description: '활성화 여부' })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
@@ -0,0 +1,46 @@
+import { DateTime } from 'luxon';
+
+export const DEFAULT_TIMEZONE = 'Asia/Seoul';
+
+export const DAY_NAMES = ['일', '월', '화', '수', '목', '금', '토'];
+
+export function isValidTimezone(timezone: string): boolean {
+  return DateTime.local().setZone(timezone).isValid;
+}
+
+export function toZoned(date: Date, timezone: string): DateTime {
+  return DateTime.fromJSDate(date, { zone: timezone });
+}
+
+export function isSameLocalDate(a: Date, b: Date, timezone: string): boolean {
+  return toZoned(a, timezone).hasSame(toZoned(b, timezone), 'day');
+}
+
+/**
+ * 오프셋이 없는 ISO 문자열은 지정한 타임존의 현지 시각으로 해석한다.
+ * 오프셋이 포함된 경우 해당 오프셋을 그대로 따른다.
+ */
+export function parseLocalDateTime(value: string, timezone: string): Date {
+  return DateTime.fromISO(value, { zone: timezone }).toJSDate();
+}
+
+export function formatClock(hour: number, minute: number): string {
+  const ampm = hour < 12 ? '오전' : '오후';
+  const h12 = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${ampm} ${h12}:${String(minute).padStart(2, '0')}`;
+}
+
+export function formatHHmm(time: string): string {
+  const [hourStr, minuteStr] = time.split(':');
+  return formatClock(Number(hourStr), Number(minuteStr));
+}
+
+export function formatDateOnly(date: Date, timezone: string): string {
+  const zoned = toZoned(date, timezone);
+  return `${zoned.toFormat('yyyy-MM-dd')} (${DAY_NAMES[zoned.weekday % 7]})`;
+}
+
+export function formatDateTime(date: Date, timezone: string): string {
+  const zoned = toZoned(date, timezone);
+  return `${formatDateOnly(date, timezone)} ${formatClock(zoned.hour, zoned.minute)}`;
+}
@@ -0,0 +1,14 @@
+export function escapeHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** 태그를 지우고 엔티티를 되돌린 평문 (캘린더 설명 등 HTML을 쓰지 않는 곳용) */
+export function htmlToText(str: string): string {
+  return str
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
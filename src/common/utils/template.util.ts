@@ -0,0 +1,97 @@
+import { DateTime } from 'luxon';
+import { DAY_NAMES, toZoned } from './date.util.js';
+import { escapeHtml } from './html.util.js';
+
+export interface TemplateContext {
+  /** 발송 예정 시각 */
+  at: Date;
+  timezone: string;
+  /** 이 스케줄의 몇 번째 발송인지 (1부터) */
+  occurrence: number;
+  chatTitle: string | null;
+}
+
+/** 사용 가능한 변수와 설명 (Swagger/README 안내용) */
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  date: '발송 날짜 (yyyy-MM-dd)',
+  time: '발송 시각 (HH:mm)',
+  weekday: '요일 (예: 월요일)',
+  week: 'ISO 주차 (1~53)',
+  'dday:YYYY-MM-DD': '지정 날짜까지 남은 일수 (D-3, D-Day, D+2)',
+  occurrence: '이 알림의 몇 번째 발송인지',
+  chatTitle: '채팅방 이름',
+};
+
+const TOKEN_PATTERN = /\{\{\s*([a-zA-Z]+)(?::([^}]*))?\s*\}\}/g;
+
+/** 템플릿 오류 목록을 반환한다. 비어 있으면 유효하다. */
+export function validateTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const [token, name, arg] = match;
+    if (name === 'dday') {
+      if (!arg || !DateTime.fromISO(arg.trim()).isValid) {
+        errors.push(`${token}: dday에는 YYYY-MM-DD 형식의 날짜가 필요합니다.`);
+      }
+    } else if (!(name in TEMPLATE_VARIABLES) || arg !== undefined) {
+      errors.push(`${token}: 알 수 없는 변수입니다.`);
+    }
+  }
+
+  const rest = template.replace(TOKEN_PATTERN, '');
+  if (rest.includes('{{') || rest.includes('}}')) {
+    errors.push('닫히지 않았거나 잘못된 {{ }} 표현이 있습니다.');
+  }
+  return errors;
+}
+
+export function hasTemplateVariable(template: string, name: string): boolean {
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    if (match[1] === name) return true;
+  }
+  return false;
+}
+
+/** 변수를 발송 시점 값으로 치환한다. 검증을 통과한 템플릿을 전제로 한다. */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+): string {
+  const zoned = toZoned(context.at, context.timezone);
+
+  return template.replace(
+    TOKEN_PATTERN,
+    (token, name: string, arg?: string) => {
+      switch (name) {
+        case 'date':
+          return zoned.toFormat('yyyy-MM-dd');
+        case 'time':
+          return zoned.toFormat('HH:mm');
+        case 'weekday':
+          return `${DAY_NAMES[zoned.weekday % 7]}요일`;
+        case 'week':
+          return String(zoned.weekNumber);
+        case 'dday':
+          return formatDday(zoned, arg?.trim() ?? '');
+        case 'occurrence':
+          return String(context.occurrence);
+        case 'chatTitle':
+          return escapeHtml(context.chatTitle ?? '');
+        default:
+          return token;
+      }
+    },
+  );
+}
+
+function formatDday(from: DateTime, target: string): string {
+  const targetDay = DateTime.fromISO(target, { zone: from.zone });
+  if (!targetDay.isValid) return `{{dday:${target}}}`;
+
+  const days = Math.round(
+    targetDay.startOf('day').diff(from.startOf('day'), 'days').days,
+  );
+  if (days === 0) return 'D-Day';
+  return days > 0 ? `D-${days}` : `D+${-days}`;
+}
@@ -0,0 +1,28 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+import { validateCron } from '../../schedule/utils/cron.util.js';
+
+/** 5필드 cron 표현식(또는 @daily 등 프리셋)을 검사한다. */
+export function IsCron(options?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isCron',
+      target: object.constructor,
+      propertyName,
+      options,
+      validator: {
+        validate: (value: unknown) =>
+          typeof value === 'string' && validateCron(value) === null,
+        defaultMessage: (args: ValidationArguments) =>
+          `${args.property}: ${
+            typeof args.value === 'string'
+              ? validateCron(args.value)
+              : '문자열이어야 합니다.'
+          }`,
+      },
+    });
+  };
+}
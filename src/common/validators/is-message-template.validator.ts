@@ -0,0 +1,24 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+import { validateTemplate } from '../utils/template.util.js';
+
+/** 메시지의 {{변수}} 템플릿 문법을 검사한다. */
+export function IsMessageTemplate(options?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isMessageTemplate',
+      target: object.constructor,
+      propertyName,
+      options,
+      validator: {
+        validate: (value: unknown) =>
+          typeof value !== 'string' || validateTemplate(value).length === 0,
+        defaultMessage: (args: ValidationArguments) =>
+          `${args.property}: ${validateTemplate(String(args.value)).join(' ')}`,
+      },
+    });
+  };
+}
@@ -0,0 +1,28 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+import { validateRecurrence } from '../../schedule/utils/recurrence.util.js';
+
+/** DTSTART/RRULE/EXDATE로 구성된 iCalendar 반복 규칙을 검사한다. */
+export function IsRecurrence(options?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isRecurrence',
+      target: object.constructor,
+      propertyName,
+      options,
+      validator: {
+        validate: (value: unknown) =>
+          typeof value === 'string' && validateRecurrence(value) === null,
+        defaultMessage: (args: ValidationArguments) =>
+          `${args.property}: ${
+            typeof args.value === 'string'
+              ? validateRecurrence(args.value)
+              : '문자열이어야 합니다.'
+          }`,
+      },
+    });
+  };
+}
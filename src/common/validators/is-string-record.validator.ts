@@ -0,0 +1,26 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+
+/** 값이 모두 문자열인 객체 (`{ "team": "payments" }`)인지 검사한다. */
+export function IsStringRecord(options?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isStringRecord',
+      target: object.constructor,
+      propertyName,
+      options,
+      validator: {
+        validate: (value: unknown) =>
+          typeof value === 'object' &&
+          value !== null &&
+          !Array.isArray(value) &&
+          Object.values(value).every((v) => typeof v === 'string'),
+        defaultMessage: (args: ValidationArguments) =>
+          `${args.property}의 값은 모두 문자열이어야 합니다.`,
+      },
+    });
+  };
+}
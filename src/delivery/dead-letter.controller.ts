@@ -0,0 +1,51 @@
+import { Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DeliveryService } from './delivery.service.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+import type { DeadLetterStatus } from './entities/dead-letter.entity.js';
+
+@ApiTags('schedule')
+@Scopes('admin')
+@Controller('dead-letters')
+export class DeadLetterController {
+  constructor(private readonly deliveryService: DeliveryService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: '발송 실패(dead-letter) 목록 조회',
+    description:
+      '재시도 후에도 발송하지 못한 스케줄 알림 목록을 최신순으로 조회합니다.',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['pending', 'redriven'],
+    description: '상태 필터 (미입력 시 전체)',
+  })
+  @ApiResponse({ status: 200, description: '실패 항목 목록' })
+  async findAll(@Query('status') status?: DeadLetterStatus) {
+    return this.deliveryService.findDeadLetters(status);
+  }
+
+  @Post(':id/redrive')
+  @ApiOperation({
+    summary: '발송 실패 항목 재전송',
+    description:
+      '보관된 메시지를 다시 발송합니다. 성공 시 redriven 상태가 됩니다.',
+  })
+  @ApiResponse({ status: 201, description: '재전송 성공' })
+  @ApiResponse({ status: 400, description: '재전송 실패 또는 이미 재전송됨' })
+  @ApiResponse({ status: 404, description: '항목을 찾을 수 없음' })
+  async redrive(@Param('id') id: string) {
+    return this.deliveryService.redrive(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '발송 실패 항목 삭제' })
+  @ApiResponse({ status: 200, description: '삭제 성공' })
+  @ApiResponse({ status: 404, description: '항목을 찾을 수 없음' })
+  async remove(@Param('id') id: string) {
+    await this.deliveryService.deleteDeadLetter(id);
+    return { success: true, message: `실패 항목 ${id} 삭제 완료` };
+  }
+}
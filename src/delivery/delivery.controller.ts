@@ -0,0 +1,78 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DeliveryService } from './delivery.service.js';
+import { ApiKeyService } from '../auth/api-key.service.js';
+import type { AuthenticatedApiKey } from '../auth/api-key.service.js';
+import { CurrentApiKey } from '../auth/decorators/current-api-key.decorator.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+
+@ApiTags('schedule')
+@Controller('deliveries')
+export class DeliveryController {
+  constructor(
+    private readonly deliveryService: DeliveryService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  @Get()
+  @Scopes('schedule:read')
+  @ApiOperation({
+    summary: '발송 이력 조회',
+    description: '스케줄 알림 발송 시도 이력을 최신순으로 조회합니다.',
+  })
+  @ApiQuery({ name: 'chatId', required: false, description: 'Chat ID 필터' })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: '조회 시작 시각 (ISO 8601, 이상)',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    description: '조회 종료 시각 (ISO 8601, 미만)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: '최대 개수 (기본 100, 최대 1000)',
+  })
+  @ApiResponse({ status: 200, description: '발송 이력 목록' })
+  @ApiResponse({ status: 400, description: '잘못된 요청' })
+  async search(
+    @Query('chatId') chatId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    if (apiKey?.allowedChatIds && !chatId) {
+      throw new ForbiddenException(
+        '채팅이 제한된 API 키는 chatId를 지정해야 합니다.',
+      );
+    }
+    if (chatId) this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    return this.deliveryService.search({
+      chatId,
+      from: this.parseDate('from', from),
+      to: this.parseDate('to', to),
+      limit: limit ? Math.min(Math.max(Number(limit) || 100, 1), 1000) : 100,
+    });
+  }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(
+        `${name}은(는) ISO 8601 시각이어야 합니다.`,
+      );
+    }
+    return date;
+  }
+}
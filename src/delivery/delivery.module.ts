@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DeliveryController } from './delivery.controller.js';
+import { DeadLetterController } from './dead-letter.controller.js';
+import { DeliveryService } from './delivery.service.js';
+import { DeliveryEntity } from './entities/delivery.entity.js';
+import { DeadLetterEntity } from './entities/dead-letter.entity.js';
+import { BotModule } from '../bot/bot.module.js';
+import { AttachmentModule } from '../attachment/attachment.module.js';
+import { WebhookModule } from '../webhook/webhook.module.js';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([DeliveryEntity, DeadLetterEntity]),
+    BotModule,
+    AttachmentModule,
+    WebhookModule,
+  ],
+  controllers: [DeliveryController, DeadLetterController],
+  providers: [DeliveryService],
+  exports: [DeliveryService],
+})
+export class DeliveryModule {}
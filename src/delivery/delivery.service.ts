@@ -0,0 +1,463 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BotService } from '../bot/bot.service.js';
+import { AttachmentService } from '../attachment/attachment.service.js';
+import { WebhookService } from '../webhook/webhook.service.js';
+import type {
+  Attachment,
+  SendRetry,
+} from '../attachment/attachment.service.js';
+import { getRetryDelay } from '../bot/utils/telegram-error.util.js';
+import { escapeHtml } from '../common/utils/html.util.js';
+import { ackKeyboard } from './utils/ack.util.js';
+import { DeliveryEntity } from './entities/delivery.entity.js';
+import {
+  DeadLetterEntity,
+  DeadLetterStatus,
+} from './entities/dead-letter.entity.js';
+
+export interface DeliveryTarget {
+  scheduleId: string | null;
+  scheduleName: string | null;
+  chatId: string;
+  message: string;
+  attachments?: Attachment[] | null;
+  plannedAt: Date;
+  /** 확인·다시 알림 버튼을 붙인다 */
+  ackButtons?: boolean;
+  /** 확인이 없으면 이 시간(분) 뒤 첫 에스컬레이션 */
+  escalateAfterMinutes?: number;
+  /** 에스컬레이션 발송이면 단계와 최초 발송 기록 id */
+  escalation?: { level: number; rootId: string };
+}
+
+/** 발송 후 버튼으로 채워지는 필드 */
+type AckFields =
+  | 'ackedAt'
+  | 'ackedBy'
+  | 'ackedByName'
+  | 'snoozedUntil'
+  | 'snoozedBy'
+  | 'snoozeScheduleId';
+
+export interface DeliveryStats {
+  scheduleId: string | null;
+  scheduleName: string | null;
+  success: number;
+  failed: number;
+  lastFiredAt: Date | null;
+  lastSuccessAt: Date | null;
+}
+
+@Injectable()
+export class DeliveryService {
+  private readonly logger = new Logger(DeliveryService.name);
+  private readonly opsChatId: string | undefined;
+
+  private static readonly MAX_ATTEMPTS = 5;
+
+  constructor(
+    @InjectRepository(DeliveryEntity)
+    private readonly repo: Repository<DeliveryEntity>,
+    @InjectRepository(DeadLetterEntity)
+    private readonly deadLetterRepo: Repository<DeadLetterEntity>,
+    private readonly botService: BotService,
+    private readonly attachmentService: AttachmentService,
+    private readonly webhookService: WebhookService,
+    private readonly configService: ConfigService,
+  ) {
+    this.opsChatId = this.configService.get<string>('OPS_CHAT_ID');
+  }
+
+  /**
+   * 일시적 오류는 백오프로 재시도하고, 최종 결과를 발송 이력에 기록한다.
+   * 끝내 실패하면 dead-letter에 보관하고 운영 채팅에 알린다.
+   */
+  async send(target: DeliveryTarget): Promise<DeliveryEntity | null> {
+    const result = await this.sendWithRetry(target);
+    const delivery = await this.recordResult(target, result);
+
+    if (result.error) {
+      await this.deadLetter(target, result.attempts, result.error, delivery);
+    }
+    return delivery;
+  }
+
+  async findDeadLetters(
+    status?: DeadLetterStatus,
+  ): Promise<DeadLetterEntity[]> {
+    return this.deadLetterRepo.find({
+      where: status ? { status } : {},
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async redrive(id: string): Promise<DeadLetterEntity> {
+    const entry = await this.findDeadLetter(id);
+    if (entry.status !== 'pending') {
+      throw new BadRequestException('이미 재전송된 항목입니다.');
+    }
+
+    this.logger.log(`[DLQ REDRIVE] "${entry.scheduleName}" (${id})`);
+    const target = this.redriveTarget(entry);
+    const result = await this.sendWithRetry(target);
+    await this.recordResult(target, result);
+
+    entry.attempts += result.attempts;
+    if (result.error) {
+      entry.lastError = result.error.message;
+      await this.deadLetterRepo.save(entry);
+      throw new BadRequestException(
+        `재전송에 실패했습니다: ${result.error.message}`,
+      );
+    }
+
+    entry.status = 'redriven';
+    entry.redrivenAt = new Date();
+    return this.deadLetterRepo.save(entry);
+  }
+
+  async deleteDeadLetter(id: string): Promise<void> {
+    await this.findDeadLetter(id);
+    await this.deadLetterRepo.delete(id);
+    this.logger.log(`[DLQ DELETE] ${id}`);
+  }
+
+  async record(
+    data: Omit<DeliveryEntity, 'id' | 'createdAt' | AckFields>,
+  ): Promise<DeliveryEntity | null> {
+    try {
+      const saved = await this.repo.save(this.repo.create(data));
+      this.logger.debug(
+        `[DELIVERY] ${saved.status} "${saved.scheduleName}" → chatId: ${saved.chatId}`,
+      );
+      return saved;
+    } catch (error) {
+      this.logger.error(
+        `[DELIVERY] Failed to record delivery for "${data.scheduleName}"`,
+        (error as Error).stack,
+      );
+      return null;
+    }
+  }
+
+  async findBySchedule(
+    scheduleId: string,
+    limit = 50,
+    plannedAt?: Date,
+  ): Promise<DeliveryEntity[]> {
+    return this.repo.find({
+      where: plannedAt ? { scheduleId, plannedAt } : { scheduleId },
+      order: { sentAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  async findById(id: string): Promise<DeliveryEntity | null> {
+    return this.repo.findOneBy({ id });
+  }
+
+  /** 버튼이 눌린 메시지의 발송 기록 */
+  async findByMessage(
+    chatId: string,
+    messageId: number,
+  ): Promise<DeliveryEntity | null> {
+    return this.repo.findOneBy({ chatId, messageId });
+  }
+
+  /** 아직 확인되지 않은 발송이면 확인자를 기록한다. 이미 확인됐으면 false. */
+  async acknowledge(
+    id: string,
+    user: { id: string; name: string },
+  ): Promise<boolean> {
+    const result = await this.repo
+      .createQueryBuilder()
+      .update()
+      .set({
+        ackedAt: new Date(),
+        ackedBy: user.id,
+        ackedByName: user.name,
+        nextEscalationAt: null,
+      })
+      .where('id = :id AND "ackedAt" IS NULL', { id })
+      .execute();
+    if (!result.affected) return false;
+    this.logger.log(`[ACK] delivery ${id} by ${user.name} (${user.id})`);
+    return true;
+  }
+
+  /**
+   * 다시 알림을 선점하고 에스컬레이션을 멈춘다. 이미 미룬 발송이면 false.
+   * 두 번 눌러도 다시 알림 스케줄이 하나만 만들어지도록 스케줄보다 먼저 호출한다.
+   */
+  async claimSnooze(
+    id: string,
+    snooze: { until: Date; userId: string },
+  ): Promise<boolean> {
+    const result = await this.repo
+      .createQueryBuilder()
+      .update()
+      .set({
+        snoozedUntil: snooze.until,
+        snoozedBy: snooze.userId,
+        nextEscalationAt: null,
+      })
+      .where('id = :id AND "snoozedUntil" IS NULL', { id })
+      .execute();
+    if (!result.affected) return false;
+    this.logger.log(
+      `[SNOOZE] delivery ${id} until ${snooze.until.toISOString()} by ${snooze.userId}`,
+    );
+    return true;
+  }
+
+  async setSnoozeSchedule(id: string, scheduleId: string): Promise<void> {
+    await this.repo.update(id, { snoozeScheduleId: scheduleId });
+  }
+
+  /** 다시 알림 스케줄을 만들지 못했을 때 선점을 되돌린다. */
+  async releaseSnooze(
+    id: string,
+    nextEscalationAt: Date | null,
+  ): Promise<void> {
+    await this.repo.update(id, {
+      snoozedUntil: null,
+      snoozedBy: null,
+      nextEscalationAt,
+    });
+    this.logger.warn(`[SNOOZE RELEASE] delivery ${id}`);
+  }
+
+  async search(filter: {
+    chatId?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }): Promise<DeliveryEntity[]> {
+    const qb = this.repo.createQueryBuilder('d').orderBy('d.sentAt', 'DESC');
+    if (filter.chatId) qb.andWhere('d.chatId = :chatId', filter);
+    if (filter.from) qb.andWhere('d.sentAt >= :from', filter);
+    if (filter.to) qb.andWhere('d.sentAt < :to', filter);
+    return qb.take(filter.limit ?? 100).getMany();
+  }
+
+  async statsByChat(chatId: string): Promise<DeliveryStats[]> {
+    const rows = await this.repo
+      .createQueryBuilder('d')
+      .select('d.scheduleId', 'scheduleId')
+      .addSelect('MAX(d.scheduleName)', 'scheduleName')
+      .addSelect(`COUNT(*) FILTER (WHERE d.status = 'success')::int`, 'success')
+      .addSelect(`COUNT(*) FILTER (WHERE d.status = 'failed')::int`, 'failed')
+      .addSelect('MAX(d.sentAt)', 'lastFiredAt')
+      .addSelect(
+        `MAX(d.sentAt) FILTER (WHERE d.status = 'success')`,
+        'lastSuccessAt',
+      )
+      .where('d.chatId = :chatId', { chatId })
+      .groupBy('d.scheduleId')
+      .orderBy('MAX(d.sentAt)', 'DESC')
+      .getRawMany<DeliveryStats>();
+
+    return rows.map((row) => ({
+      ...row,
+      lastFiredAt: row.lastFiredAt ? new Date(row.lastFiredAt) : null,
+      lastSuccessAt: row.lastSuccessAt ? new Date(row.lastSuccessAt) : null,
+    }));
+  }
+
+  /**
+   * 에스컬레이션 시각이 지난 미확인 발송을 행 잠금(SKIP LOCKED)으로 가져와 plan이
+   * 돌려준 변경(다음 단계 등)을 같은 트랜잭션에서 커밋한다. ScheduleStorageService.claimDue와 같은 방식.
+   */
+  async claimEscalations<T>(
+    now: Date,
+    limit: number,
+    plan: (
+      delivery: DeliveryEntity,
+    ) => Promise<{ update: Partial<DeliveryEntity>; result: T }>,
+  ): Promise<T[]> {
+    return this.repo.manager.transaction(async (manager) => {
+      const due = await manager
+        .createQueryBuilder(DeliveryEntity, 'd')
+        .where('d.nextEscalationAt <= :now', { now })
+        .andWhere('d.ackedAt IS NULL')
+        .andWhere('d.snoozedUntil IS NULL')
+        .orderBy('d.nextEscalationAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      const results: T[] = [];
+      for (const delivery of due) {
+        const { update, result } = await plan(delivery);
+        await manager.update(DeliveryEntity, delivery.id, update);
+        results.push(result);
+      }
+      return results;
+    });
+  }
+
+  private async findDeadLetter(id: string): Promise<DeadLetterEntity> {
+    const entry = await this.deadLetterRepo.findOneBy({ id });
+    if (!entry) {
+      throw new NotFoundException(`실패 항목 ${id}을(를) 찾을 수 없습니다.`);
+    }
+    return entry;
+  }
+
+  /** 에스컬레이션 단계 시각은 최초 발송 기록이 이어 가므로 escalateAfterMinutes는 넘기지 않는다. */
+  private redriveTarget(entry: DeadLetterEntity): DeliveryTarget {
+    return {
+      scheduleId: entry.scheduleId,
+      scheduleName: entry.scheduleName,
+      chatId: entry.chatId,
+      message: entry.message,
+      attachments: entry.attachments,
+      plannedAt: entry.plannedAt,
+      ackButtons: entry.ackButtons,
+      escalation: entry.escalationOf
+        ? { level: entry.escalationLevel, rootId: entry.escalationOf }
+        : undefined,
+    };
+  }
+
+  /**
+   * 메시지와 첨부를 보낸다. 재시도는 실패한 텔레그램 호출에만 적용해
+   * 이미 나간 앞부분(본문, 앞선 첨부)을 다시 보내지 않는다.
+   * attempts는 가장 많이 시도한 호출의 시도 횟수다.
+   */
+  private async sendWithRetry(target: DeliveryTarget): Promise<{
+    attempts: number;
+    messageId?: number;
+    error?: Error;
+  }> {
+    let attempts = 1;
+    const retry: SendRetry = async (send) => {
+      for (let attempt = 1; ; attempt++) {
+        attempts = Math.max(attempts, attempt);
+        try {
+          return await send();
+        } catch (error) {
+          const delay = getRetryDelay(error, attempt);
+          if (delay === null || attempt >= DeliveryService.MAX_ATTEMPTS) {
+            this.logger.error(
+              `[SEND FAIL] "${target.scheduleName}" → chatId: ${target.chatId} (attempt ${attempt}, ${delay === null ? 'permanent' : 'retries exhausted'})`,
+              (error as Error).stack,
+            );
+            throw error;
+          }
+          this.logger.warn(
+            `[SEND RETRY] "${target.scheduleName}" → chatId: ${target.chatId} attempt ${attempt} failed (${(error as Error).message}), retry in ${delay}ms`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    };
+
+    try {
+      const [sent] = await this.attachmentService.send(
+        target.chatId,
+        target.message,
+        target.attachments ?? [],
+        target.ackButtons ? ackKeyboard() : undefined,
+        retry,
+      );
+      this.logger.log(
+        `[SEND OK] "${target.scheduleName}" → chatId: ${target.chatId} (attempt ${attempts})`,
+      );
+      return { attempts, messageId: sent.message_id };
+    } catch (error) {
+      return { attempts, error: error as Error };
+    }
+  }
+
+  private async recordResult(
+    target: DeliveryTarget,
+    result: { attempts: number; messageId?: number; error?: Error },
+  ): Promise<DeliveryEntity | null> {
+    const sentAt = new Date();
+    const delivery = await this.record({
+      scheduleId: target.scheduleId,
+      scheduleName: target.scheduleName,
+      chatId: target.chatId,
+      plannedAt: target.plannedAt,
+      sentAt,
+      messageId: result.messageId ?? null,
+      status: result.error ? 'failed' : 'success',
+      attempts: result.attempts,
+      error: result.error?.message ?? null,
+      ackRequired: !!target.ackButtons && !result.error,
+      escalationLevel: target.escalation?.level ?? 0,
+      escalationOf: target.escalation?.rootId ?? null,
+      escalationStep: 0,
+      // 발송에 실패해도 아무도 보지 못했으므로 에스컬레이션한다
+      nextEscalationAt: target.escalateAfterMinutes
+        ? new Date(sentAt.getTime() + target.escalateAfterMinutes * 60_000)
+        : null,
+    });
+    if (delivery) {
+      await this.webhookService.emit(
+        result.error ? 'delivery.failed' : 'delivery.succeeded',
+        delivery.chatId,
+        { delivery },
+      );
+    }
+    return delivery;
+  }
+
+  /**
+   * 실패한 발송 기록(delivery)이 에스컬레이션을 이어 가므로, 버튼을 붙인 발송이면
+   * 재전송 메시지의 확인·다시 알림이 그 기록에 남도록 escalationOf로 가리킨다.
+   */
+  private async deadLetter(
+    target: DeliveryTarget,
+    attempts: number,
+    error: Error,
+    delivery: DeliveryEntity | null,
+  ): Promise<void> {
+    const entry = await this.deadLetterRepo.save(
+      this.deadLetterRepo.create({
+        scheduleId: target.scheduleId,
+        scheduleName: target.scheduleName,
+        chatId: target.chatId,
+        message: target.message,
+        attachments: target.attachments ?? null,
+        plannedAt: target.plannedAt,
+        ackButtons: !!target.ackButtons,
+        escalationLevel: target.escalation?.level ?? 0,
+        escalationOf:
+          target.escalation?.rootId ??
+          (target.ackButtons ? (delivery?.id ?? null) : null),
+        attempts,
+        lastError: error.message,
+      }),
+    );
+    this.logger.warn(`[DLQ] "${target.scheduleName}" stored as ${entry.id}`);
+
+    if (!this.opsChatId) return;
+    try {
+      await this.botService.sendMessage(
+        this.opsChatId,
+        `🚨 <b>알림 발송 실패</b>\n\n` +
+          `스케줄: <b>${escapeHtml(target.scheduleName ?? '-')}</b>\n` +
+          `Chat ID: <code>${target.chatId}</code>\n` +
+          `시도: ${attempts}회\n` +
+          `오류: ${escapeHtml(error.message)}\n\n` +
+          `재전송: <code>POST /dead-letters/${entry.id}/redrive</code>`,
+      );
+    } catch (notifyError) {
+      this.logger.error(
+        `[DLQ] Failed to notify ops chat: ${this.opsChatId}`,
+        (notifyError as Error).stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+import type { Attachment } from '../../attachment/attachment.service.js';
+
+export type DeadLetterStatus = 'pending' | 'redriven';
+
+@Entity('dead_letters')
+export class DeadLetterEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  scheduleId: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  scheduleName: string | null;
+
+  @Column({ type: 'varchar', length: 50 })
+  chatId: string;
+
+  @Column({ type: 'text' })
+  message: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  attachments: Attachment[] | null;
+
+  @Column({ type: 'timestamptz' })
+  plannedAt: Date;
+
+  /** 재전송할 때도 확인·다시 알림 버튼을 붙인다 */
+  @Column({ type: 'boolean', default: false })
+  ackButtons: boolean;
+
+  @Column({ type: 'integer', default: 0 })
+  escalationLevel: number;
+
+  /** 재전송 메시지의 확인·다시 알림이 기록될 최초 발송 기록의 id */
+  @Column({ type: 'uuid', nullable: true })
+  escalationOf: string | null;
+
+  @Column({ type: 'integer' })
+  attempts: number;
+
+  @Column({ type: 'text' })
+  lastError: string;
+
+  @Column({ type: 'varchar', length: 10, default: 'pending' })
+  status: DeadLetterStatus;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  redrivenAt: Date | null;
+}
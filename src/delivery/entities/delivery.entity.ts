@@ -0,0 +1,89 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type DeliveryStatus = 'success' | 'failed';
+
+@Entity('deliveries')
+@Index(['chatId', 'sentAt'])
+@Index(['chatId', 'messageId'])
+export class DeliveryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  scheduleId: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  scheduleName: string | null;
+
+  @Column({ type: 'varchar', length: 50 })
+  chatId: string;
+
+  @Column({ type: 'timestamptz' })
+  plannedAt: Date;
+
+  @Column({ type: 'timestamptz' })
+  sentAt: Date;
+
+  @Column({ type: 'integer', nullable: true })
+  messageId: number | null;
+
+  @Column({ type: 'varchar', length: 10 })
+  status: DeliveryStatus;
+
+  @Column({ type: 'integer', default: 1 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  /** 확인·다시 알림 버튼을 붙여 보낸 발송 */
+  @Column({ type: 'boolean', default: false })
+  ackRequired: boolean;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  ackedAt: Date | null;
+
+  /** 확인 버튼을 누른 텔레그램 사용자 id */
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  ackedBy: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  ackedByName: string | null;
+
+  /** 다시 알림을 예약한 시각. 다시 보낸 알림은 snoozeScheduleId의 발송 이력에 남는다. */
+  @Column({ type: 'timestamptz', nullable: true })
+  snoozedUntil: Date | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  snoozedBy: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  snoozeScheduleId: string | null;
+
+  /** 0이면 최초 발송, n이면 n단계 에스컬레이션 발송 */
+  @Column({ type: 'integer', default: 0 })
+  escalationLevel: number;
+
+  /** 에스컬레이션 발송이면 최초 발송 기록의 id. 확인·다시 알림은 최초 발송에 기록된다. */
+  @Column({ type: 'uuid', nullable: true })
+  escalationOf: string | null;
+
+  /** (최초 발송) 지금까지 보낸 에스컬레이션 단계 수 */
+  @Column({ type: 'integer', default: 0 })
+  escalationStep: number;
+
+  /** (최초 발송) 다음 에스컬레이션 예정 시각. 확인·다시 알림·마지막 단계 후에는 null. */
+  @Index()
+  @Column({ type: 'timestamptz', nullable: true })
+  nextEscalationAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,22 @@
+import { Markup } from 'telegraf';
+import type { InlineKeyboardMarkup } from 'telegraf/types';
+
+/** 발송 메시지의 확인·다시 알림 버튼 콜백 데이터 (`ak:ack`, `ak:snz:<분>`) */
+export const ACK_CALLBACK_PREFIX = 'ak:';
+export const ACK_CALLBACK = `${ACK_CALLBACK_PREFIX}ack`;
+export const SNOOZE_CALLBACK = `${ACK_CALLBACK_PREFIX}snz:`;
+
+/** 다시 알림 버튼 (분 → 라벨) */
+export const SNOOZE_OPTIONS: Record<number, string> = {
+  10: '10분 후',
+  60: '1시간 후',
+};
+
+export function ackKeyboard(): InlineKeyboardMarkup {
+  return Markup.inlineKeyboard([
+    Markup.button.callback('✅ 확인', ACK_CALLBACK),
+    ...Object.entries(SNOOZE_OPTIONS).map(([minutes, label]) =>
+      Markup.button.callback(`⏰ ${label}`, `${SNOOZE_CALLBACK}${minutes}`),
+    ),
+  ]).reply_markup;
+}
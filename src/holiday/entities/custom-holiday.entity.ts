@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/** API로 추가한 회사 휴일. chatId가 없으면 모든 채팅에 적용된다. */
+@Entity('custom_holidays')
+export class CustomHolidayEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** 현지 날짜 (yyyy-MM-dd) */
+  @Index()
+  @Column({ type: 'varchar', length: 10 })
+  date: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  chatId: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
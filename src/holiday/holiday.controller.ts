@@ -0,0 +1,99 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { HolidayService } from './holiday.service.js';
+import { CreateHolidayDto } from '../common/dto/create-holiday.dto.js';
+import { ApiKeyService } from '../auth/api-key.service.js';
+import type { AuthenticatedApiKey } from '../auth/api-key.service.js';
+import { CurrentApiKey } from '../auth/decorators/current-api-key.decorator.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+
+@ApiTags('schedule')
+@Controller('holidays')
+export class HolidayController {
+  constructor(
+    private readonly holidayService: HolidayService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  @Get()
+  @Scopes('schedule:read')
+  @ApiOperation({
+    summary: '공휴일 조회',
+    description:
+      '내장된 대한민국 공휴일과 API로 추가한 휴일을 날짜순으로 조회합니다. chatId를 주면 해당 채팅 전용 휴일도 포함합니다.',
+  })
+  @ApiQuery({ name: 'year', required: false, description: '연도 (기본 올해)' })
+  @ApiQuery({ name: 'chatId', required: false, description: 'Chat ID' })
+  @ApiResponse({
+    status: 200,
+    description: '휴일 목록 (id가 null이면 내장 공휴일)',
+  })
+  async findAll(
+    @Query('year') year?: string,
+    @Query('chatId') chatId?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    if (chatId) this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    const parsedYear = year ? Number(year) : new Date().getFullYear();
+    if (!Number.isInteger(parsedYear)) {
+      throw new BadRequestException('year는 연도(숫자)여야 합니다.');
+    }
+    return this.holidayService.findByYear(parsedYear, chatId);
+  }
+
+  @Post()
+  @Scopes('schedule:write')
+  @ApiOperation({
+    summary: '회사 휴일 추가',
+    description:
+      '창립기념일 등 회사 휴일을 추가합니다. 휴일 정책이 skip/shift인 고정 알림에 바로 반영됩니다.',
+  })
+  @ApiResponse({ status: 201, description: '추가 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청 또는 중복' })
+  async create(
+    @Body() dto: CreateHolidayDto,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.assertScopeAllowed(apiKey, dto.chatId ?? null);
+    return this.holidayService.addCustom(dto);
+  }
+
+  @Delete(':id')
+  @Scopes('schedule:write')
+  @ApiOperation({ summary: '회사 휴일 삭제' })
+  @ApiResponse({ status: 200, description: '삭제 성공' })
+  @ApiResponse({ status: 404, description: '휴일을 찾을 수 없음' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    const holiday = await this.holidayService.findCustom(id);
+    this.assertScopeAllowed(apiKey, holiday.chatId);
+    await this.holidayService.removeCustom(id);
+    return { success: true };
+  }
+
+  /** 전체 채팅 휴일은 채팅 제한이 없는 키만 관리할 수 있다. */
+  private assertScopeAllowed(
+    apiKey: AuthenticatedApiKey | undefined,
+    chatId: string | null,
+  ): void {
+    if (chatId) {
+      this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    } else if (apiKey?.allowedChatIds) {
+      throw new ForbiddenException(
+        '채팅이 제한된 API 키는 chatId를 지정해야 합니다.',
+      );
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CustomHolidayEntity } from './entities/custom-holiday.entity.js';
+import { HolidayService } from './holiday.service.js';
+import { HolidayController } from './holiday.controller.js';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CustomHolidayEntity])],
+  controllers: [HolidayController],
+  providers: [HolidayService],
+  exports: [HolidayService],
+})
+export class HolidayModule {}
@@ -0,0 +1,174 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { DateTime } from 'luxon';
+import { toZoned } from '../common/utils/date.util.js';
+import { KR_HOLIDAYS, KR_HOLIDAY_YEARS } from './data/kr-holidays.js';
+import { CustomHolidayEntity } from './entities/custom-holiday.entity.js';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  /** 내장 공휴일이면 null */
+  id: string | null;
+  chatId: string | null;
+}
+
+/** 한 채팅에 적용되는 공휴일 달력. 주말(토·일)과 공휴일이 아닌 날이 영업일이다. */
+export class HolidayCalendar {
+  constructor(private readonly holidays: Map<string, string>) {}
+
+  /** 해당 시각의 현지 날짜가 공휴일이면 이름, 아니면 null */
+  holidayOn(at: Date, timezone: string): string | null {
+    return this.holidays.get(toZoned(at, timezone).toISODate()!) ?? null;
+  }
+
+  isBusinessDay(day: DateTime): boolean {
+    return day.weekday <= 5 && !this.holidays.has(day.toISODate()!);
+  }
+
+  /** 다음 영업일의 같은 현지 시각 */
+  nextBusinessDay(at: Date, timezone: string): Date {
+    let day = toZoned(at, timezone);
+    for (let i = 0; i < 366; i++) {
+      day = day.plus({ days: 1 });
+      if (this.isBusinessDay(day)) break;
+    }
+    return day.toJSDate();
+  }
+}
+
+@Injectable()
+export class HolidayService implements OnModuleInit {
+  private readonly logger = new Logger(HolidayService.name);
+
+  /** 엔진이 발생 시각마다 조회하므로 사용자 휴일 목록을 잠시 메모리에 둔다. */
+  private customCache: {
+    rows: CustomHolidayEntity[];
+    expiresAt: number;
+  } | null = null;
+  private static readonly CACHE_TTL_MS = 60_000;
+
+  /** 사용자 휴일이 바뀌면 호출된다 (chatId가 null이면 전체 채팅). ScheduleService가 nextRunAt을 다시 계산한다. */
+  private readonly changeListeners: ((
+    chatId: string | null,
+  ) => Promise<void>)[] = [];
+
+  constructor(
+    @InjectRepository(CustomHolidayEntity)
+    private readonly repo: Repository<CustomHolidayEntity>,
+  ) {}
+
+  onModuleInit() {
+    const year = DateTime.now().setZone('Asia/Seoul').year;
+    if (!KR_HOLIDAY_YEARS.includes(year + 1)) {
+      this.logger.warn(
+        `[HOLIDAY] Bundled holiday data covers ${KR_HOLIDAY_YEARS.join(', ')} only — add ${year + 1} to kr-holidays.ts`,
+      );
+    }
+  }
+
+  onChange(listener: (chatId: string | null) => Promise<void>): void {
+    this.changeListeners.push(listener);
+  }
+
+  async getCalendar(chatId: string): Promise<HolidayCalendar> {
+    const holidays = new Map(Object.entries(KR_HOLIDAYS));
+    for (const row of await this.loadCustom()) {
+      if (row.chatId === null || row.chatId === chatId) {
+        holidays.set(row.date, row.name);
+      }
+    }
+    return new HolidayCalendar(holidays);
+  }
+
+  /** 해당 연도의 공휴일(내장 + 사용자 추가)을 날짜순으로 반환한다. */
+  async findByYear(year: number, chatId?: string): Promise<Holiday[]> {
+    const prefix = `${year}-`;
+    const builtIn: Holiday[] = Object.entries(KR_HOLIDAYS)
+      .filter(([date]) => date.startsWith(prefix))
+      .map(([date, name]) => ({ date, name, id: null, chatId: null }));
+    const custom: Holiday[] = (await this.loadCustom())
+      .filter(
+        (row) =>
+          row.date.startsWith(prefix) &&
+          (row.chatId === null || row.chatId === chatId),
+      )
+      .map(({ date, name, id, chatId }) => ({ date, name, id, chatId }));
+    return [...builtIn, ...custom].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async addCustom(data: {
+    date: string;
+    name: string;
+    chatId?: string;
+  }): Promise<CustomHolidayEntity> {
+    const chatId = data.chatId ?? null;
+    const existing = await this.repo.findOneBy({
+      date: data.date,
+      chatId: chatId ?? IsNull(),
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `${data.date}에는 이미 휴일 "${existing.name}"이(가) 등록되어 있습니다.`,
+      );
+    }
+
+    const saved = await this.repo.save(
+      this.repo.create({ date: data.date, name: data.name, chatId }),
+    );
+    this.customCache = null;
+    this.logger.log(
+      `[HOLIDAY ADD] ${saved.date} "${saved.name}" (chatId: ${chatId ?? 'all'})`,
+    );
+    await this.notifyChange(chatId);
+    return saved;
+  }
+
+  async findCustom(id: string): Promise<CustomHolidayEntity> {
+    const row = await this.repo.findOneBy({ id });
+    if (!row) {
+      throw new NotFoundException(`휴일 ${id}을(를) 찾을 수 없습니다.`);
+    }
+    return row;
+  }
+
+  async removeCustom(id: string): Promise<void> {
+    const row = await this.findCustom(id);
+    await this.repo.delete(id);
+    this.customCache = null;
+    this.logger.log(`[HOLIDAY DELETE] ${row.date} "${row.name}"`);
+    await this.notifyChange(row.chatId);
+  }
+
+  private async notifyChange(chatId: string | null): Promise<void> {
+    for (const listener of this.changeListeners) {
+      try {
+        await listener(chatId);
+      } catch (error) {
+        this.logger.error(
+          `[HOLIDAY] Failed to apply change (chatId: ${chatId ?? 'all'})`,
+          (error as Error).stack,
+        );
+      }
+    }
+  }
+
+  private async loadCustom(): Promise<CustomHolidayEntity[]> {
+    if (this.customCache && this.customCache.expiresAt > Date.now()) {
+      return this.customCache.rows;
+    }
+    const rows = await this.repo.find();
+    this.customCache = {
+      rows,
+      expiresAt: Date.now() + HolidayService.CACHE_TTL_MS,
+    };
+    return rows;
+  }
+}
@@ -2,9 +2,21 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module.js';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ValidationPipe } from '@nestjs/common';
+import type { NestExpressApplication } from '@nestjs/platform-express';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // POST /notification/hooks/:source의 서명 검증에 원본 본문이 필요하다
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+  });
+  // PUT /schedule/sync는 YAML 본문도 받는다
+  app.useBodyParser('text', {
+    type: ['application/yaml', 'application/x-yaml', 'text/yaml'],
+    limit: '1mb',
+  });
+
+  // 웹훅 모드에서 종료 시 deleteWebhook을 호출하기 위해 필요
+  app.enableShutdownHooks();
 
   app.useGlobalPipes(
     new ValidationPipe({
@@ -21,6 +33,14 @@ async function bootstrap() {
     .addTag('notification', '알림 메시지 즉시 전송')
     .addTag('schedule', '알림 스케줄 관리 (고정 반복 / 수동 일회성)')
     .addTag('bot', '봇 상태 및 정보')
+    .addTag('auth', 'API 키 관리 (admin 권한 필요)')
+    .addTag('webhook', '외부 시스템 이벤트 구독 (admin 권한 필요)')
+    .addBearerAuth({
+      type: 'http',
+      scheme: 'bearer',
+      description: 'API 키 (Authorization: Bearer <key>)',
+    })
+    .addSecurityRequirements('bearer')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
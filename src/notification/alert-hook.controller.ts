@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { IncomingHttpHeaders } from 'http';
+import { AlertHookService } from './alert-hook.service.js';
+import type { AlertHookResult } from './alert-hook.service.js';
+import { AlertHookGuard } from './alert-hook.guard.js';
+import { ALERT_SOURCES } from './entities/alert-route.entity.js';
+import type { AlertSource } from './entities/alert-route.entity.js';
+import { ApiKeyService } from '../auth/api-key.service.js';
+import type { AuthenticatedApiKey } from '../auth/api-key.service.js';
+import { CurrentApiKey } from '../auth/decorators/current-api-key.decorator.js';
+import { Public } from '../auth/decorators/scopes.decorator.js';
+
+@ApiTags('notification')
+@Controller('notification/hooks')
+export class AlertHookController {
+  constructor(
+    private readonly alertHookService: AlertHookService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  @Post(':source')
+  // 전역 API 키 가드 대신 AlertHookGuard가 서명 또는 API 키를 확인한다
+  @Public()
+  @UseGuards(AlertHookGuard)
+  @HttpCode(200)
+  @ApiOperation({
+    summary: '모니터링 도구 알림 수신',
+    description:
+      'Alertmanager, Grafana 알림, GitHub webhook 본문을 그대로 받아 메시지로 만들고 라우팅 규칙(/alert-routes)에 따라 전송합니다. 서명 키(GITHUB_WEBHOOK_SECRET, GRAFANA_WEBHOOK_SECRET)가 설정된 소스는 서명으로, 나머지는 notification:send 권한의 API 키로 인증합니다.',
+  })
+  @ApiParam({ name: 'source', enum: ALERT_SOURCES })
+  @ApiQuery({
+    name: 'chatId',
+    required: false,
+    description: '라우팅 규칙 대신 이 채팅으로 전송',
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    description: 'true면 전송하지 않고 메시지와 대상 채팅만 반환',
+  })
+  @ApiBody({ description: '각 도구의 원본 webhook 본문' })
+  @ApiResponse({ status: 200, description: '전송 결과' })
+  @ApiResponse({ status: 400, description: '해석할 수 없는 본문' })
+  @ApiResponse({ status: 401, description: '서명 또는 API 키 오류' })
+  @ApiResponse({ status: 502, description: '모든 채팅에 전송 실패' })
+  async receive(
+    @Param('source') source: AlertSource,
+    @Body() body: unknown,
+    @Headers() headers: IncomingHttpHeaders,
+    @Query('chatId') chatId?: string,
+    @Query('dryRun') dryRun?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ): Promise<AlertHookResult> {
+    const preview = dryRun === 'true';
+    const rendered = this.alertHookService.render(source, body, headers);
+    if (!rendered) {
+      return {
+        source,
+        dryRun: preview,
+        skipped: '알림으로 보내지 않는 이벤트입니다.',
+        sent: [],
+      };
+    }
+
+    const targets = chatId
+      ? [{ chatId, route: null }]
+      : await this.alertHookService.resolveTargets(source, rendered.context);
+    for (const target of targets) {
+      this.apiKeyService.assertChatAllowed(apiKey, target.chatId);
+    }
+
+    return {
+      source,
+      dryRun: preview,
+      message: rendered.message,
+      context: rendered.context,
+      sent: preview
+        ? targets
+        : await this.alertHookService.deliver(source, rendered, targets),
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NotFoundException,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { AlertHookService, isAlertSource } from './alert-hook.service.js';
+import { ApiKeyGuard } from '../auth/api-key.guard.js';
+
+/**
+ * 서명 키가 설정된 소스(GitHub, Grafana)는 본문 서명으로, 나머지는 notification:send
+ * 권한의 API 키로 인증한다. GitHub은 Authorization 헤더를 보낼 수 없어 서명이 필요하다.
+ */
+@Injectable()
+export class AlertHookGuard implements CanActivate {
+  private readonly logger = new Logger(AlertHookGuard.name);
+
+  constructor(
+    private readonly apiKeyGuard: ApiKeyGuard,
+    private readonly alertHookService: AlertHookService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<RawBodyRequest<Request>>();
+    const source = String(request.params.source);
+    if (!isAlertSource(source)) {
+      throw new NotFoundException(`지원하지 않는 소스입니다: ${source}`);
+    }
+
+    if (!this.alertHookService.hasSecret(source)) {
+      return this.apiKeyGuard.authorize(context, ['notification:send']);
+    }
+    if (
+      !this.alertHookService.verifySignature(
+        source,
+        request.headers,
+        request.rawBody,
+      )
+    ) {
+      this.logger.warn(`[ALERT HOOK] ${source} invalid signature`);
+      throw new UnauthorizedException('서명이 올바르지 않습니다.');
+    }
+    return true;
+  }
+}
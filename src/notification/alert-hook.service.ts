@@ -0,0 +1,251 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { NotificationService } from './notification.service.js';
+import {
+  ALERT_SOURCES,
+  AlertRouteEntity,
+  AlertSource,
+} from './entities/alert-route.entity.js';
+import {
+  AlertPayloadError,
+  matchesRoute,
+  RenderedAlert,
+} from './utils/alert-message.util.js';
+import { renderAlertmanager } from './utils/alertmanager.util.js';
+import { renderGithub } from './utils/github.util.js';
+import { CreateAlertRouteDto } from '../common/dto/create-alert-route.dto.js';
+import { UpdateAlertRouteDto } from '../common/dto/update-alert-route.dto.js';
+import { DEFAULT_TIMEZONE } from '../common/utils/date.util.js';
+
+export interface AlertTarget {
+  chatId: string;
+  /** 맞은 규칙 이름. 규칙 없이 기본·지정 채팅으로 보내면 null */
+  route: string | null;
+}
+
+export interface AlertHookResult {
+  source: AlertSource;
+  dryRun: boolean;
+  /** 보내지 않는 이벤트면 이유 */
+  skipped?: string;
+  message?: string;
+  context?: Record<string, string>;
+  sent: (AlertTarget & { messageIds?: number[]; error?: string })[];
+}
+
+/** 서명을 지원하는 소스의 헤더 */
+const SIGNATURE_HEADERS: Partial<Record<AlertSource, string>> = {
+  github: 'x-hub-signature-256',
+  grafana: 'x-grafana-alerting-signature',
+};
+/** Grafana HMAC 설정의 timestampHeader로 이 이름을 쓰면 서명에 포함한다 */
+const GRAFANA_TIMESTAMP_HEADER = 'x-grafana-alerting-timestamp';
+
+export function isAlertSource(value: string): value is AlertSource {
+  return (ALERT_SOURCES as readonly string[]).includes(value);
+}
+
+/**
+ * 모니터링 도구의 원본 webhook 본문(Alertmanager, Grafana, GitHub)을 메시지로 만들어
+ * 라우팅 규칙에 따라 채팅으로 보낸다.
+ */
+@Injectable()
+export class AlertHookService {
+  private readonly logger = new Logger(AlertHookService.name);
+  private readonly defaultChatId: string;
+  private readonly timezone: string;
+  private readonly secrets: Partial<Record<AlertSource, string>>;
+
+  constructor(
+    @InjectRepository(AlertRouteEntity)
+    private readonly routeRepo: Repository<AlertRouteEntity>,
+    private readonly notificationService: NotificationService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultChatId = this.configService.getOrThrow<string>(
+      'TELEGRAM_DEFAULT_CHAT_ID',
+    );
+    this.timezone = this.configService.get<string>(
+      'DEFAULT_TIMEZONE',
+      DEFAULT_TIMEZONE,
+    );
+    this.secrets = {
+      github: this.configService.get<string>('GITHUB_WEBHOOK_SECRET'),
+      grafana: this.configService.get<string>('GRAFANA_WEBHOOK_SECRET'),
+    };
+  }
+
+  /** 서명 키가 설정된 소스는 API 키 대신 서명으로 인증한다. */
+  hasSecret(source: AlertSource): boolean {
+    return !!this.secrets[source];
+  }
+
+  verifySignature(
+    source: AlertSource,
+    headers: IncomingHttpHeaders,
+    rawBody: Buffer | undefined,
+  ): boolean {
+    const secret = this.secrets[source];
+    const header = SIGNATURE_HEADERS[source];
+    const signature = header ? headers[header] : undefined;
+    if (!secret || !rawBody || typeof signature !== 'string') return false;
+
+    const hmac = createHmac('sha256', secret);
+    let received = signature;
+    if (source === 'github') {
+      // sha256=<hex>
+      received = signature.replace(/^sha256=/, '');
+    } else {
+      const timestamp = headers[GRAFANA_TIMESTAMP_HEADER];
+      if (typeof timestamp === 'string') hmac.update(`${timestamp}:`);
+    }
+    const expected = hmac.update(rawBody).digest();
+    const actual = Buffer.from(received, 'hex');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  /** 본문을 메시지로 만든다. 보내지 않는 이벤트(GitHub의 일부 이벤트·액션)면 null. */
+  render(
+    source: AlertSource,
+    body: unknown,
+    headers: IncomingHttpHeaders,
+  ): RenderedAlert | null {
+    try {
+      if (source === 'github') {
+        const event = headers['x-github-event'];
+        if (typeof event !== 'string') {
+          throw new AlertPayloadError('X-GitHub-Event 헤더가 없습니다.');
+        }
+        return renderGithub(event, this.githubPayload(body));
+      }
+      return renderAlertmanager(body, { source, timezone: this.timezone });
+    } catch (error) {
+      if (error instanceof AlertPayloadError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 라우팅 규칙을 priority 순으로 확인해 보낼 채팅을 정한다.
+   * 맞는 규칙이 없으면 기본 Chat ID로 보낸다.
+   */
+  async resolveTargets(
+    source: AlertSource,
+    context: Record<string, string>,
+  ): Promise<AlertTarget[]> {
+    const routes = await this.routeRepo.find({
+      where: { enabled: true },
+      order: { priority: 'ASC', createdAt: 'ASC' },
+    });
+
+    const targets: AlertTarget[] = [];
+    for (const route of routes) {
+      if (route.source && route.source !== source) continue;
+      if (!matchesRoute(route.match, context)) continue;
+      if (!targets.some((t) => t.chatId === route.chatId)) {
+        targets.push({ chatId: route.chatId, route: route.name });
+      }
+      if (!route.continue) break;
+    }
+    return targets.length > 0
+      ? targets
+      : [{ chatId: this.defaultChatId, route: null }];
+  }
+
+  /** 채팅별로 보낸다. 모두 실패하면 502로 응답해 보낸 쪽이 재시도하게 한다. */
+  async deliver(
+    source: AlertSource,
+    rendered: RenderedAlert,
+    targets: AlertTarget[],
+  ): Promise<AlertHookResult['sent']> {
+    const results: AlertHookResult['sent'] = [];
+    for (const target of targets) {
+      try {
+        const { messageIds } = await this.notificationService.sendNotification({
+          chatId: target.chatId,
+          message: rendered.message,
+        });
+        results.push({ ...target, messageIds });
+      } catch (error) {
+        results.push({ ...target, error: (error as Error).message });
+      }
+    }
+
+    this.logger.log(
+      `[ALERT HOOK] ${source} → ${results
+        .map((r) => `${r.chatId}${r.error ? ' (failed)' : ''}`)
+        .join(', ')}`,
+    );
+    if (results.every((r) => r.error)) {
+      throw new BadGatewayException(
+        `텔레그램 전송에 실패했습니다: ${results[0].error}`,
+      );
+    }
+    return results;
+  }
+
+  async findRoutes(): Promise<AlertRouteEntity[]> {
+    return this.routeRepo.find({
+      order: { priority: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async createRoute(dto: CreateAlertRouteDto): Promise<AlertRouteEntity> {
+    const saved = await this.routeRepo.save(
+      this.routeRepo.create({ ...dto, source: dto.source ?? null }),
+    );
+    this.logger.log(
+      `[ALERT ROUTE CREATE] "${saved.name}" (${saved.id}) → chatId: ${saved.chatId}`,
+    );
+    return saved;
+  }
+
+  async updateRoute(
+    id: string,
+    dto: UpdateAlertRouteDto,
+  ): Promise<AlertRouteEntity> {
+    await this.findRoute(id);
+    await this.routeRepo.update(id, dto);
+    this.logger.log(`[ALERT ROUTE UPDATE] ${id} → ${JSON.stringify(dto)}`);
+    return this.findRoute(id);
+  }
+
+  async deleteRoute(id: string): Promise<void> {
+    const route = await this.findRoute(id);
+    await this.routeRepo.delete(id);
+    this.logger.log(`[ALERT ROUTE DELETE] "${route.name}" (${id})`);
+  }
+
+  private async findRoute(id: string): Promise<AlertRouteEntity> {
+    const route = await this.routeRepo.findOneBy({ id });
+    if (!route) {
+      throw new NotFoundException(`라우팅 규칙 ${id}을(를) 찾을 수 없습니다.`);
+    }
+    return route;
+  }
+
+  /** Content type을 application/x-www-form-urlencoded로 설정하면 payload 필드에 JSON이 온다 */
+  private githubPayload(body: unknown): unknown {
+    const payload = (body as { payload?: unknown } | null)?.payload;
+    if (typeof payload !== 'string') return body;
+    try {
+      return JSON.parse(payload) as unknown;
+    } catch {
+      throw new AlertPayloadError('payload 필드가 JSON이 아닙니다.');
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AlertHookService } from './alert-hook.service.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+import { CreateAlertRouteDto } from '../common/dto/create-alert-route.dto.js';
+import { UpdateAlertRouteDto } from '../common/dto/update-alert-route.dto.js';
+
+@ApiTags('notification')
+@Scopes('admin')
+@Controller('alert-routes')
+export class AlertRouteController {
+  constructor(private readonly alertHookService: AlertHookService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: '외부 알림 라우팅 규칙 목록',
+    description: '확인 순서(priority)대로 반환합니다.',
+  })
+  @ApiResponse({ status: 200, description: '규칙 목록' })
+  async findAll() {
+    return this.alertHookService.findRoutes();
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: '외부 알림 라우팅 규칙 등록',
+    description:
+      'POST /notification/hooks/:source로 받은 알림을 보낼 채팅을 라벨·repository 등으로 정합니다. 처음 맞는 규칙의 채팅으로 보내며, continue가 true면 다음 규칙도 확인합니다. 맞는 규칙이 없으면 기본 Chat ID로 보냅니다.',
+  })
+  @ApiResponse({ status: 201, description: '등록 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청' })
+  async create(@Body() dto: CreateAlertRouteDto) {
+    return this.alertHookService.createRoute(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '외부 알림 라우팅 규칙 수정' })
+  @ApiResponse({ status: 200, description: '수정 성공' })
+  @ApiResponse({ status: 404, description: '규칙을 찾을 수 없음' })
+  async update(@Param('id') id: string, @Body() dto: UpdateAlertRouteDto) {
+    return this.alertHookService.updateRoute(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '외부 알림 라우팅 규칙 삭제' })
+  @ApiResponse({ status: 200, description: '삭제 성공' })
+  @ApiResponse({ status: 404, description: '규칙을 찾을 수 없음' })
+  async remove(@Param('id') id: string) {
+    await this.alertHookService.deleteRoute(id);
+    return { success: true, message: `라우팅 규칙 ${id} 삭제 완료` };
+  }
+}
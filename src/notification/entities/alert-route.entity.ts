@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+export const ALERT_SOURCES = ['alertmanager', 'grafana', 'github'] as const;
+
+export type AlertSource = (typeof ALERT_SOURCES)[number];
+
+/**
+ * 외부 알림(POST /notification/hooks/:source)을 보낼 채팅을 정하는 규칙.
+ * priority 순으로 확인해 처음 맞는 규칙의 채팅으로 보내고, continue면 다음 규칙도 확인한다.
+ */
+@Entity('alert_routes')
+export class AlertRouteEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /** null이면 모든 소스 */
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  source: AlertSource | null;
+
+  /**
+   * 모두 맞아야 하는 조건 (라벨, repository 등 → 값). 값에 `*`를 쓸 수 있다.
+   * 비어 있으면 모든 알림에 맞는다.
+   */
+  @Column({ type: 'jsonb', default: {} })
+  match: Record<string, string>;
+
+  @Column({ type: 'varchar', length: 50 })
+  chatId: string;
+
+  /** 작을수록 먼저 확인한다 */
+  @Column({ type: 'integer', default: 0 })
+  priority: number;
+
+  /** 맞아도 다음 규칙을 계속 확인한다 (여러 채팅으로 보내기) */
+  @Column({ type: 'boolean', default: false })
+  continue: boolean;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
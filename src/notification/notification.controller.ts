@@ -1,8 +1,26 @@
-import { Body, Controller, Get, Post } from '@nestjs/common';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import {
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import { NotificationService } from './notification.service.js';
 import { SendMessageDto } from '../common/dto/send-message.dto.js';
 import { BotService } from '../bot/bot.service.js';
+import { ApiKeyService } from '../auth/api-key.service.js';
+import type { AuthenticatedApiKey } from '../auth/api-key.service.js';
+import { CurrentApiKey } from '../auth/decorators/current-api-key.decorator.js';
+import { Public, Scopes } from '../auth/decorators/scopes.decorator.js';
+import { MAX_UPLOAD_BYTES } from '../attachment/attachment.controller.js';
 
 @ApiTags('notification')
 @Controller('notification')
@@ -10,20 +28,37 @@ export class NotificationController {
   constructor(
     private readonly notificationService: NotificationService,
     private readonly botService: BotService,
+    private readonly apiKeyService: ApiKeyService,
   ) {}
 
   @Post('send')
+  @Scopes('notification:send')
+  @UseInterceptors(
+    FilesInterceptor('files', 10, { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  @ApiConsumes('application/json', 'multipart/form-data')
   @ApiOperation({
     summary: '알림 메시지 전송',
-    description: '텔레그램으로 알림 메시지를 전송합니다.',
+    description:
+      '텔레그램으로 알림 메시지를 전송합니다. attachments로 사진/문서/위치/앨범을 함께 보내거나, multipart의 files 필드로 파일을 직접 업로드할 수 있습니다.',
   })
   @ApiResponse({ status: 201, description: '메시지 전송 성공' })
   @ApiResponse({ status: 400, description: '잘못된 요청' })
-  async sendMessage(@Body() dto: SendMessageDto) {
-    return this.notificationService.sendNotification(dto);
+  @ApiResponse({
+    status: 403,
+    description: '권한 없음 또는 허용되지 않은 채팅',
+  })
+  async sendMessage(
+    @Body() dto: SendMessageDto,
+    @UploadedFiles() files?: Express.Multer.File[],
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.apiKeyService.assertChatAllowed(apiKey, dto.chatId);
+    return this.notificationService.sendNotification(dto, files);
   }
 
   @Get('health')
+  @Public()
   @ApiTags('bot')
   @ApiOperation({
     summary: '봇 상태 확인',
@@ -43,4 +78,17 @@ export class NotificationController {
         : null,
     };
   }
+
+  @Get('queue')
+  @Scopes('admin')
+  @ApiTags('bot')
+  @ApiOperation({
+    summary: '발송 대기열 상태',
+    description:
+      '텔레그램 전송 한도 때문에 대기 중인 메시지 수를 우선순위별·채팅별로 확인합니다. 인스턴스마다 따로 집계됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '대기열 상태 반환' })
+  queueStatus() {
+    return this.botService.getQueueStatus();
+  }
 }
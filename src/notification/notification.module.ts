@@ -1,12 +1,27 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { NotificationController } from './notification.controller.js';
 import { NotificationService } from './notification.service.js';
+import { AlertHookController } from './alert-hook.controller.js';
+import { AlertRouteController } from './alert-route.controller.js';
+import { AlertHookService } from './alert-hook.service.js';
+import { AlertHookGuard } from './alert-hook.guard.js';
+import { AlertRouteEntity } from './entities/alert-route.entity.js';
 import { BotModule } from '../bot/bot.module.js';
+import { AttachmentModule } from '../attachment/attachment.module.js';
 
 @Module({
-  imports: [BotModule],
-  controllers: [NotificationController],
-  providers: [NotificationService],
+  imports: [
+    TypeOrmModule.forFeature([AlertRouteEntity]),
+    BotModule,
+    AttachmentModule,
+  ],
+  controllers: [
+    NotificationController,
+    AlertHookController,
+    AlertRouteController,
+  ],
+  providers: [NotificationService, AlertHookService, AlertHookGuard],
   exports: [NotificationService],
 })
 export class NotificationModule {}
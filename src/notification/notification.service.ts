@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { BotService } from '../bot/bot.service.js';
 import { SendMessageDto } from '../common/dto/send-message.dto.js';
+import { AttachmentService } from '../attachment/attachment.service.js';
+import type { Attachment } from '../attachment/attachment.service.js';
 
 @Injectable()
 export class NotificationService {
@@ -11,6 +13,7 @@ export class NotificationService {
   constructor(
     private readonly botService: BotService,
     private readonly configService: ConfigService,
+    private readonly attachmentService: AttachmentService,
   ) {
     this.defaultChatId = this.configService.getOrThrow<string>(
       'TELEGRAM_DEFAULT_CHAT_ID',
@@ -19,16 +22,30 @@ export class NotificationService {
 
   async sendNotification(
     dto: SendMessageDto,
-  ): Promise<{ success: boolean; chatId: string }> {
+    files: Express.Multer.File[] = [],
+  ): Promise<{ success: boolean; chatId: string; messageIds: number[] }> {
     const chatId = dto.chatId || this.defaultChatId;
+    const attachments = [
+      ...((dto.attachments ?? []) as Attachment[]),
+      ...(await this.attachmentService.fromUploads(files)),
+    ];
+    await this.attachmentService.validate(attachments);
     this.logger.log(
-      `[SEND] Sending to chatId: ${chatId}, message: "${dto.message.slice(0, 80)}"`,
+      `[SEND] Sending to chatId: ${chatId}, message: "${dto.message.slice(0, 80)}", attachments: ${attachments.length}`,
     );
 
     try {
-      await this.botService.sendMessage(chatId, dto.message);
+      const sent = await this.attachmentService.send(
+        chatId,
+        dto.message,
+        attachments,
+      );
       this.logger.log(`[SEND OK] chatId: ${chatId}`);
-      return { success: true, chatId };
+      return {
+        success: true,
+        chatId,
+        messageIds: sent.map((m) => m.message_id),
+      };
     } catch (error) {
       this.logger.error(
         `[SEND FAIL] chatId: ${chatId}`,
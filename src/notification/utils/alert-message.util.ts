@@ -0,0 +1,79 @@
+import { escapeHtml } from '../../common/utils/html.util.js';
+
+/** 외부 알림 본문을 해석할 수 없을 때 */
+export class AlertPayloadError extends Error {}
+
+export interface RenderedAlert {
+  /** 텔레그램 HTML 메시지 */
+  message: string;
+  /** 라우팅 규칙(match)과 비교할 값 */
+  context: Record<string, string>;
+}
+
+/** 텔레그램 메시지 한도(4096자)보다 조금 작게 잡아 꼬리말 자리를 남긴다 */
+const MESSAGE_MAX_LENGTH = 3800;
+
+/**
+ * 블록을 한도 안에서 이어 붙이고, 넘치는 블록은 "… 외 N건"으로 줄인다.
+ * 머리말과 꼬리말은 항상 넣는다.
+ */
+export function joinWithinLimit(
+  header: string,
+  blocks: string[],
+  footer = '',
+): string {
+  let body = header;
+  let included = 0;
+  for (const block of blocks) {
+    const next = `${body}\n\n${block}`;
+    if (next.length + footer.length > MESSAGE_MAX_LENGTH && included > 0) {
+      break;
+    }
+    body = next;
+    included++;
+  }
+  if (included < blocks.length) {
+    body += `\n\n… 외 ${blocks.length - included}건`;
+  }
+  return footer ? `${body}\n\n${footer}` : body;
+}
+
+export function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/** http(s) URL일 때만 링크로 만든다 */
+export function link(url: unknown, label: string): string | null {
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) return null;
+  return `<a href="${escapeHtml(url).replace(/"/g, '&quot;')}">${escapeHtml(label)}</a>`;
+}
+
+/** match의 조건이 모두 맞는지. 값의 `*`는 임의의 문자열과 맞는다. */
+export function matchesRoute(
+  match: Record<string, string>,
+  context: Record<string, string>,
+): boolean {
+  return Object.entries(match).every(([key, pattern]) => {
+    const value = context[key];
+    if (value === undefined) return false;
+    const regex = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${regex}$`).test(value);
+  });
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** 문자열 값만 남긴다 (라벨·어노테이션) */
+export function stringRecord(value: unknown): Record<string, string> {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string',
+    ),
+  );
+}
@@ -0,0 +1,168 @@
+import { escapeHtml } from '../../common/utils/html.util.js';
+import { formatDateTime } from '../../common/utils/date.util.js';
+import {
+  AlertPayloadError,
+  isRecord,
+  joinWithinLimit,
+  link,
+  RenderedAlert,
+  stringRecord,
+  truncate,
+} from './alert-message.util.js';
+
+/**
+ * Prometheus Alertmanager webhook(version 4) 본문과, 같은 형식에 링크·값 필드를 더한
+ * Grafana 알림 본문을 메시지로 만든다.
+ * https://prometheus.io/docs/alerting/latest/configuration/#webhook_config
+ */
+
+const DESCRIPTION_MAX_LENGTH = 500;
+
+interface Alert {
+  status: string;
+  labels: Record<string, string>;
+  annotations: Record<string, string>;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  links: (string | null)[];
+  /** Grafana: 조건에 쓰인 값 (`[ var='A' ... value=93 ]`) */
+  valueString: string | null;
+}
+
+export function renderAlertmanager(
+  body: unknown,
+  options: { source: 'alertmanager' | 'grafana'; timezone: string },
+): RenderedAlert {
+  if (!isRecord(body) || !Array.isArray(body.alerts)) {
+    throw new AlertPayloadError('alerts 배열이 있는 알림 본문이 아닙니다.');
+  }
+  const { timezone } = options;
+  const grafana = options.source === 'grafana';
+
+  const alerts = body.alerts.filter(isRecord).map((raw) => toAlert(raw));
+  const commonLabels = visibleLabels(stringRecord(body.commonLabels));
+  const groupLabels = stringRecord(body.groupLabels);
+  const firing = alerts.filter((a) => a.status !== 'resolved');
+  const resolved = alerts.filter((a) => a.status === 'resolved');
+  const status = body.status === 'resolved' ? 'resolved' : 'firing';
+
+  const name =
+    groupLabels.alertname ??
+    commonLabels.alertname ??
+    alerts[0]?.labels.alertname ??
+    (grafana ? 'Grafana 알림' : 'Alertmanager 알림');
+  const count = status === 'firing' ? `:${firing.length}` : '';
+  const headerLabels = Object.entries(commonLabels)
+    .filter(([key]) => key !== 'alertname')
+    .map(([key, value]) => `<code>${escapeHtml(`${key}=${value}`)}</code>`)
+    .join(' ');
+  let header = `${status === 'firing' ? '🔥' : '✅'} <b>[${status.toUpperCase()}${count}] ${escapeHtml(name)}</b>`;
+  if (headerLabels) header += `\n${headerLabels}`;
+
+  const render = (alert: Alert) => renderAlert(alert, commonLabels, timezone);
+  const blocks = [
+    ...(firing.length > 0 && resolved.length > 0
+      ? [`🔥 <b>발생 중 (${firing.length})</b>`]
+      : []),
+    ...firing.map(render),
+    ...(resolved.length > 0 && firing.length > 0
+      ? [`✅ <b>해결됨 (${resolved.length})</b>`]
+      : []),
+    ...resolved.map(render),
+  ];
+
+  const footer: string[] = [];
+  const truncated = Number(body.truncatedAlerts) || 0;
+  if (truncated > 0) {
+    footer.push(`(Alertmanager에서 ${truncated}건 생략)`);
+  }
+  const receiver = typeof body.receiver === 'string' ? body.receiver : '';
+  const source = link(body.externalURL, grafana ? 'Grafana' : 'Alertmanager');
+  const sourceLine = [receiver && `<i>${escapeHtml(receiver)}</i>`, source]
+    .filter(Boolean)
+    .join(' · ');
+  if (sourceLine) footer.push(sourceLine);
+
+  return {
+    message: joinWithinLimit(header, blocks, footer.join('\n')),
+    context: { ...commonLabels, status, receiver },
+  };
+}
+
+function toAlert(raw: Record<string, unknown>): Alert {
+  return {
+    status: raw.status === 'resolved' ? 'resolved' : 'firing',
+    labels: visibleLabels(stringRecord(raw.labels)),
+    annotations: stringRecord(raw.annotations),
+    startsAt: parseTime(raw.startsAt),
+    endsAt: parseTime(raw.endsAt),
+    links: [
+      link(raw.generatorURL, '원본'),
+      link(raw.dashboardURL, '대시보드'),
+      link(raw.panelURL, '패널'),
+      link(raw.silenceURL, '사일런스'),
+    ],
+    valueString:
+      typeof raw.valueString === 'string' && raw.valueString
+        ? raw.valueString
+        : null,
+  };
+}
+
+function renderAlert(
+  alert: Alert,
+  commonLabels: Record<string, string>,
+  timezone: string,
+): string {
+  const title =
+    alert.annotations.summary ?? alert.labels.alertname ?? '(이름 없음)';
+  const lines = [
+    `${alert.status === 'resolved' ? '✅' : '🔥'} <b>${escapeHtml(title)}</b>`,
+  ];
+
+  const description = alert.annotations.description;
+  if (description) {
+    lines.push(escapeHtml(truncate(description, DESCRIPTION_MAX_LENGTH)));
+  }
+  // 머리말에 나온 공통 라벨은 빼고 알림마다 다른 라벨만 보여 준다
+  const labels = Object.entries(alert.labels)
+    .filter(
+      ([key, value]) => key !== 'alertname' && commonLabels[key] !== value,
+    )
+    .map(([key, value]) => `<code>${escapeHtml(`${key}=${value}`)}</code>`);
+  if (labels.length > 0) lines.push(labels.join(' '));
+  if (alert.valueString) {
+    lines.push(
+      `값: <code>${escapeHtml(truncate(alert.valueString, 200))}</code>`,
+    );
+  }
+
+  const times: string[] = [];
+  if (alert.startsAt) {
+    times.push(`시작 ${formatDateTime(alert.startsAt, timezone)}`);
+  }
+  if (alert.status === 'resolved' && alert.endsAt) {
+    times.push(`종료 ${formatDateTime(alert.endsAt, timezone)}`);
+  }
+  if (times.length > 0) lines.push(times.join(' · '));
+
+  const links = alert.links.filter(Boolean);
+  if (links.length > 0) lines.push(`🔗 ${links.join(' · ')}`);
+  return lines.join('\n');
+}
+
+/** Grafana 내부 라벨(`__alert_rule_uid__` 등)은 숨긴다 */
+function visibleLabels(labels: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(labels).filter(([key]) => !key.startsWith('__')),
+  );
+}
+
+/** 값이 없으면 `0001-01-01T00:00:00Z`가 오므로 null로 본다 */
+function parseTime(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) || date.getUTCFullYear() <= 1
+    ? null
+    : date;
+}
@@ -0,0 +1,204 @@
+import { escapeHtml } from '../../common/utils/html.util.js';
+import {
+  AlertPayloadError,
+  isRecord,
+  joinWithinLimit,
+  link,
+  RenderedAlert,
+  truncate,
+} from './alert-message.util.js';
+
+/**
+ * GitHub webhook 이벤트(X-GitHub-Event)를 메시지로 만든다.
+ * 알림으로 보낼 만한 이벤트·액션만 다루고, 나머지는 null을 돌려준다.
+ */
+
+const MAX_COMMITS = 10;
+const RELEASE_NOTES_MAX_LENGTH = 500;
+
+const PULL_REQUEST_ACTIONS: Record<string, string> = {
+  opened: '🟢 열림',
+  reopened: '🟢 다시 열림',
+  ready_for_review: '👀 리뷰 요청',
+  closed: '⚪ 닫힘',
+};
+const ISSUE_ACTIONS: Record<string, string> = {
+  opened: '🟢 열림',
+  reopened: '🟢 다시 열림',
+  closed: '⚪ 닫힘',
+};
+const WORKFLOW_CONCLUSIONS: Record<string, string> = {
+  success: '✅ 성공',
+  failure: '❌ 실패',
+  timed_out: '⏱ 시간 초과',
+  cancelled: '⚪ 취소',
+  action_required: '⚠️ 조치 필요',
+};
+
+type Payload = Record<string, unknown>;
+
+export function renderGithub(
+  event: string,
+  body: unknown,
+): RenderedAlert | null {
+  if (!isRecord(body)) {
+    throw new AlertPayloadError('GitHub webhook 본문이 아닙니다.');
+  }
+  const repo = obj(body.repository);
+  const action = str(body.action);
+  const context: Record<string, string> = {
+    event,
+    action,
+    repository: str(repo.full_name),
+    owner: str(obj(repo.owner).login) || str(obj(body.organization).login),
+    sender: str(obj(body.sender).login),
+    branch: '',
+  };
+  const repoLink =
+    link(repo.html_url, str(repo.full_name)) ??
+    escapeHtml(str(repo.full_name) || 'GitHub');
+
+  let message: string | null;
+  switch (event) {
+    case 'ping':
+      message = `🏓 <b>GitHub 웹훅 연결</b>\n${repoLink}\n<i>${escapeHtml(str(body.zen))}</i>`;
+      break;
+    case 'push':
+      context.branch = str(body.ref).replace(/^refs\/(heads|tags)\//, '');
+      message = renderPush(body, repoLink, context.branch);
+      break;
+    case 'pull_request': {
+      const pr = obj(body.pull_request);
+      context.branch = str(obj(pr.base).ref);
+      message = renderPullRequest(action, pr, repoLink);
+      break;
+    }
+    case 'issues':
+      message = renderIssue(action, obj(body.issue), repoLink);
+      break;
+    case 'release':
+      message =
+        action === 'published'
+          ? renderRelease(obj(body.release), repoLink)
+          : null;
+      break;
+    case 'workflow_run': {
+      const run = obj(body.workflow_run);
+      context.branch = str(run.head_branch);
+      message =
+        action === 'completed' ? renderWorkflowRun(run, repoLink) : null;
+      break;
+    }
+    default:
+      message = null;
+  }
+  return message ? { message, context } : null;
+}
+
+function renderPush(body: Payload, repoLink: string, ref: string): string {
+  const pusher = escapeHtml(
+    str(obj(body.pusher).name) || str(obj(body.sender).login),
+  );
+  const isTag = str(body.ref).startsWith('refs/tags/');
+  const target = `${isTag ? '태그' : '브랜치'} <code>${escapeHtml(ref)}</code>`;
+
+  if (body.deleted === true) {
+    return `🗑 <b>${repoLink}</b> ${target} 삭제 — ${pusher}`;
+  }
+  const commits = Array.isArray(body.commits)
+    ? body.commits.filter(isRecord)
+    : [];
+  if (isTag || commits.length === 0) {
+    return `🏷 <b>${repoLink}</b> ${target} 푸시 — ${pusher}`;
+  }
+
+  const header =
+    `📦 <b>${repoLink}</b> ${target}에 커밋 ${commits.length}개 — ${pusher}` +
+    (body.forced === true ? ' (force push)' : '');
+  const lines = commits.slice(-MAX_COMMITS).map((commit) => {
+    const sha = str(commit.id).slice(0, 7);
+    const title = str(commit.message).split('\n')[0];
+    const author = str(obj(commit.author).name);
+    return (
+      `• ${link(commit.url, sha) ?? `<code>${sha}</code>`} ` +
+      `${escapeHtml(truncate(title, 100))}${author ? ` — ${escapeHtml(author)}` : ''}`
+    );
+  });
+  if (commits.length > MAX_COMMITS) {
+    lines.unshift(`… 이전 커밋 ${commits.length - MAX_COMMITS}개`);
+  }
+  const compare = link(body.compare, '변경 비교');
+  return joinWithinLimit(header, [lines.join('\n')], compare ?? '');
+}
+
+function renderPullRequest(
+  action: string,
+  pr: Payload,
+  repoLink: string,
+): string | null {
+  let label = PULL_REQUEST_ACTIONS[action];
+  if (!label) return null;
+  if (action === 'closed' && pr.merged === true) label = '🟣 병합';
+
+  const title = `#${str(pr.number)} ${str(pr.title)}`;
+  const lines = [
+    `🔀 <b>${repoLink}</b> PR ${link(pr.html_url, title) ?? escapeHtml(title)}`,
+    `${label}${pr.draft === true ? ' (draft)' : ''} — ${escapeHtml(str(obj(pr.user).login))}`,
+    `<code>${escapeHtml(str(obj(pr.head).ref))}</code> → <code>${escapeHtml(str(obj(pr.base).ref))}</code>`,
+  ];
+  return lines.join('\n');
+}
+
+function renderIssue(
+  action: string,
+  issue: Payload,
+  repoLink: string,
+): string | null {
+  const label = ISSUE_ACTIONS[action];
+  if (!label) return null;
+
+  const title = `#${str(issue.number)} ${str(issue.title)}`;
+  const lines = [
+    `🐛 <b>${repoLink}</b> 이슈 ${link(issue.html_url, title) ?? escapeHtml(title)}`,
+    `${label} — ${escapeHtml(str(obj(issue.user).login))}`,
+  ];
+  const labels = Array.isArray(issue.labels)
+    ? issue.labels
+        .filter(isRecord)
+        .map((l) => `<code>${escapeHtml(str(l.name))}</code>`)
+    : [];
+  if (labels.length > 0) lines.push(labels.join(' '));
+  return lines.join('\n');
+}
+
+function renderRelease(release: Payload, repoLink: string): string {
+  const name = str(release.name) || str(release.tag_name);
+  let message =
+    `🚀 <b>${repoLink}</b> 릴리스 ${link(release.html_url, name) ?? escapeHtml(name)}` +
+    `${release.prerelease === true ? ' (pre-release)' : ''} — ${escapeHtml(str(obj(release.author).login))}`;
+  const notes = str(release.body).trim();
+  if (notes) {
+    message += `\n\n${escapeHtml(truncate(notes, RELEASE_NOTES_MAX_LENGTH))}`;
+  }
+  return message;
+}
+
+function renderWorkflowRun(run: Payload, repoLink: string): string {
+  const conclusion = str(run.conclusion);
+  const label = WORKFLOW_CONCLUSIONS[conclusion] ?? `⚠️ ${conclusion}`;
+  const name = str(run.name) || str(run.display_title);
+  return [
+    `${label} <b>${repoLink}</b> 워크플로 ${link(run.html_url, name) ?? escapeHtml(name)}`,
+    `브랜치 <code>${escapeHtml(str(run.head_branch))}</code> · ${escapeHtml(str(run.event))} · ${escapeHtml(str(obj(run.actor).login))}`,
+  ].join('\n');
+}
+
+function obj(value: unknown): Payload {
+  return isRecord(value) ? value : {};
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : '';
+}
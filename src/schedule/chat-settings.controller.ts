@@ -0,0 +1,130 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Patch,
+  Put,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ChatSettingsService } from './chat-settings.service.js';
+import { ScheduleService } from './schedule.service.js';
+import { UpdateChatSettingsDto } from '../common/dto/update-chat-settings.dto.js';
+import { ApiKeyService } from '../auth/api-key.service.js';
+import type { AuthenticatedApiKey } from '../auth/api-key.service.js';
+import { CurrentApiKey } from '../auth/decorators/current-api-key.decorator.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+import { BotPermissionService } from '../bot/permissions/bot-permission.service.js';
+
+@ApiTags('schedule')
+@Controller('chats')
+export class ChatSettingsController {
+  constructor(
+    private readonly chatSettings: ChatSettingsService,
+    private readonly scheduleService: ScheduleService,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly permissions: BotPermissionService,
+  ) {}
+
+  @Get(':chatId/settings')
+  @Scopes('schedule:read')
+  @ApiOperation({
+    summary: '채팅 설정 조회',
+    description:
+      '채팅별 기본 타임존, 일일·주간 요약 설정을 조회합니다. (lastSummaryOn/lastDigestOn은 마지막 발송 날짜)',
+  })
+  @ApiResponse({ status: 200, description: '채팅 설정' })
+  async get(
+    @Param('chatId') chatId: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    const settings = await this.chatSettings.get(chatId);
+    return {
+      ...settings,
+      timezone: settings.timezone ?? this.chatSettings.defaultTimezone,
+    };
+  }
+
+  @Patch(':chatId/settings')
+  @Scopes('schedule:write')
+  @ApiOperation({
+    summary: '채팅 설정 수정',
+    description:
+      '채팅 기본 타임존과 일일·주간 요약 설정을 변경합니다. 타임존이 지정되지 않은 고정 알림은 새 타임존으로 다시 등록됩니다.',
+  })
+  @ApiResponse({ status: 200, description: '수정 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청' })
+  async update(
+    @Param('chatId') chatId: string,
+    @Body() dto: UpdateChatSettingsDto,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    const { timezone, ...summary } = dto;
+    if (timezone) {
+      await this.scheduleService.setChatTimezone(chatId, timezone);
+    }
+    if (Object.keys(summary).length > 0) {
+      await this.chatSettings.update(chatId, summary);
+    }
+    return this.get(chatId, apiKey);
+  }
+
+  @Get(':chatId/managers')
+  @Scopes('schedule:read')
+  @ApiOperation({
+    summary: '알림 담당자 목록 조회',
+    description:
+      '채팅 관리자가 아니어도 봇으로 알림을 관리할 수 있도록 지정된 사용자 목록입니다.',
+  })
+  @ApiResponse({ status: 200, description: '담당자 목록' })
+  async managers(
+    @Param('chatId') chatId: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    return this.permissions.findManagers(chatId);
+  }
+
+  @Put(':chatId/managers/:userId')
+  @Scopes('schedule:write')
+  @ApiOperation({ summary: '알림 담당자 지정' })
+  @ApiResponse({ status: 200, description: '지정 성공' })
+  async grantManager(
+    @Param('chatId') chatId: string,
+    @Param('userId') userId: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    return this.permissions.grantManager(
+      chatId,
+      userId,
+      `api:${apiKey?.name ?? '-'}`,
+    );
+  }
+
+  @Delete(':chatId/managers/:userId')
+  @Scopes('schedule:write')
+  @ApiOperation({ summary: '알림 담당자 해제' })
+  @ApiResponse({ status: 200, description: '해제 성공' })
+  @ApiResponse({ status: 404, description: '지정된 담당자가 아님' })
+  async revokeManager(
+    @Param('chatId') chatId: string,
+    @Param('userId') userId: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    const revoked = await this.permissions.revokeManager(
+      chatId,
+      userId,
+      `api:${apiKey?.name ?? '-'}`,
+    );
+    if (!revoked) {
+      throw new NotFoundException('지정된 알림 담당자가 아닙니다.');
+    }
+    return { success: true };
+  }
+}
@@ -0,0 +1,101 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ChatSettingsEntity,
+  DEFAULT_SUMMARY_SETTINGS,
+} from './entities/chat-settings.entity.js';
+import { DEFAULT_TIMEZONE } from '../common/utils/date.util.js';
+
+@Injectable()
+export class ChatSettingsService {
+  private readonly logger = new Logger(ChatSettingsService.name);
+  readonly defaultTimezone: string;
+
+  constructor(
+    @InjectRepository(ChatSettingsEntity)
+    private readonly repo: Repository<ChatSettingsEntity>,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultTimezone = this.configService.get<string>(
+      'DEFAULT_TIMEZONE',
+      DEFAULT_TIMEZONE,
+    );
+  }
+
+  async get(chatId: string): Promise<ChatSettingsEntity> {
+    const found = await this.repo.findOneBy({ chatId });
+    return (
+      found ??
+      this.repo.create({
+        chatId,
+        timezone: null,
+        ...DEFAULT_SUMMARY_SETTINGS,
+        lastSummaryOn: null,
+        lastDigestOn: null,
+      })
+    );
+  }
+
+  /** 설정 행이 있는 모든 채팅 */
+  async findAll(): Promise<ChatSettingsEntity[]> {
+    return this.repo.find();
+  }
+
+  async getTimezone(chatId: string): Promise<string> {
+    const settings = await this.repo.findOneBy({ chatId });
+    return settings?.timezone ?? this.defaultTimezone;
+  }
+
+  /** chatId → 타임존. 설정이 없는 채팅은 호출 측에서 defaultTimezone을 사용한다. */
+  async getTimezoneMap(): Promise<Map<string, string>> {
+    const all = await this.repo.find();
+    return new Map(
+      all
+        .filter((s) => s.timezone)
+        .map((s) => [s.chatId, s.timezone!] as [string, string]),
+    );
+  }
+
+  /**
+   * 해당 현지 날짜의 일일 요약 발송 권한을 원자적으로 가져온다.
+   * 같은 날짜로 이미 가져간 인스턴스가 있으면 false.
+   */
+  async claimDailySummary(chatId: string, localDate: string): Promise<boolean> {
+    return this.claim(chatId, 'lastSummaryOn', localDate);
+  }
+
+  /** claimDailySummary의 주간 요약판 */
+  async claimWeeklyDigest(chatId: string, localDate: string): Promise<boolean> {
+    return this.claim(chatId, 'lastDigestOn', localDate);
+  }
+
+  private async claim(
+    chatId: string,
+    column: 'lastSummaryOn' | 'lastDigestOn',
+    localDate: string,
+  ): Promise<boolean> {
+    const rows: unknown[] = await this.repo.query(
+      `INSERT INTO chat_settings ("chatId", "${column}", "updatedAt")
+       VALUES ($1, $2, now())
+       ON CONFLICT ("chatId") DO UPDATE SET "${column}" = EXCLUDED."${column}"
+       WHERE chat_settings."${column}" IS DISTINCT FROM EXCLUDED."${column}"
+       RETURNING "chatId"`,
+      [chatId, localDate],
+    );
+    return rows.length > 0;
+  }
+
+  async update(
+    chatId: string,
+    partial: Partial<ChatSettingsEntity>,
+  ): Promise<ChatSettingsEntity> {
+    const current = await this.get(chatId);
+    const saved = await this.repo.save({ ...current, ...partial, chatId });
+    this.logger.log(
+      `[CHAT SETTINGS] chatId: ${chatId} → ${JSON.stringify(partial)}`,
+    );
+    return saved;
+  }
+}
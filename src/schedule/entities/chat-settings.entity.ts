@@ -0,0 +1,74 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/** 설정 행이 없는 채팅에 적용되는 요약 기본값 */
+export const DEFAULT_SUMMARY_SETTINGS = {
+  summaryEnabled: true,
+  summaryTime: '08:00',
+  summaryIncludeTomorrow: false,
+  summarySendEmpty: false,
+  digestEnabled: false,
+  digestDay: 1,
+  digestTime: '08:30',
+} as const;
+
+@Entity('chat_settings')
+export class ChatSettingsEntity {
+  @PrimaryColumn({ type: 'varchar', length: 50 })
+  chatId: string;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timezone: string | null;
+
+  /** 일일 요약 발송 여부 */
+  @Column({ type: 'boolean', default: DEFAULT_SUMMARY_SETTINGS.summaryEnabled })
+  summaryEnabled: boolean;
+
+  /** 일일 요약 발송 시각 (채팅 타임존 HH:mm) */
+  @Column({
+    type: 'varchar',
+    length: 5,
+    default: DEFAULT_SUMMARY_SETTINGS.summaryTime,
+  })
+  summaryTime: string;
+
+  /** 일일 요약에 내일 일정도 함께 보여줄지 */
+  @Column({
+    type: 'boolean',
+    default: DEFAULT_SUMMARY_SETTINGS.summaryIncludeTomorrow,
+  })
+  summaryIncludeTomorrow: boolean;
+
+  /** 일정이 없는 날에도 "오늘은 알림이 없습니다"를 보낼지 */
+  @Column({
+    type: 'boolean',
+    default: DEFAULT_SUMMARY_SETTINGS.summarySendEmpty,
+  })
+  summarySendEmpty: boolean;
+
+  /** 주간 요약 발송 여부 */
+  @Column({ type: 'boolean', default: DEFAULT_SUMMARY_SETTINGS.digestEnabled })
+  digestEnabled: boolean;
+
+  /** 주간 요약 요일 (0=일요일) */
+  @Column({ type: 'smallint', default: DEFAULT_SUMMARY_SETTINGS.digestDay })
+  digestDay: number;
+
+  /** 주간 요약 발송 시각 (채팅 타임존 HH:mm) */
+  @Column({
+    type: 'varchar',
+    length: 5,
+    default: DEFAULT_SUMMARY_SETTINGS.digestTime,
+  })
+  digestTime: string;
+
+  /** 마지막으로 일일 요약을 보낸 현지 날짜 (yyyy-MM-dd). 인스턴스 간 중복 발송 방지용. */
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  lastSummaryOn: string | null;
+
+  /** 마지막으로 주간 요약을 보낸 현지 날짜 (yyyy-MM-dd) */
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  lastDigestOn: string | null;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
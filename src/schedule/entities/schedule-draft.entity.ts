@@ -0,0 +1,46 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+export type ScheduleDraftStep =
+  | 'type'
+  | 'name'
+  | 'message'
+  | 'days'
+  | 'date'
+  | 'time'
+  | 'confirm';
+
+export interface ScheduleDraftData {
+  type?: 'fixed' | 'manual' | 'event';
+  name?: string;
+  message?: string;
+  days?: number[];
+  date?: string;
+  time?: string;
+}
+
+@Entity('schedule_drafts')
+export class ScheduleDraftEntity {
+  @PrimaryColumn({ type: 'varchar', length: 100 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  chatId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  step: ScheduleDraftStep;
+
+  @Column({ type: 'jsonb', default: {} })
+  data: ScheduleDraftData;
+
+  @Column({ type: 'integer', nullable: true })
+  messageId: number | null;
+
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -3,9 +3,37 @@ import {
   PrimaryGeneratedColumn,
   Column,
   CreateDateColumn,
+  Index,
 } from 'typeorm';
 
+import type { Attachment } from '../../attachment/attachment.service.js';
+
+export type MisfirePolicy = 'skip' | 'grace' | 'all';
+
+/** 공휴일에 걸린 고정 알림 처리: 그대로 발송, 건너뜀, 다음 영업일 같은 시각으로 이동 */
+export type HolidayPolicy = 'fire' | 'skip' | 'shift';
+
+/** 이벤트 시각 기준 리마인더 오프셋. at이 있으면 그날의 해당 시각에 보낸다. */
+export interface ReminderOffset {
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  /** HH:mm */
+  at?: string;
+}
+
+/** 확인되지 않은 알림을 단계별로 다시 보내는 규칙 */
+export interface EscalationStep {
+  /** 최초 발송부터 이 시간(분)이 지나도록 확인이 없으면 보낸다 */
+  afterMinutes: number;
+  /** 보낼 채팅. 없으면 원래 채팅, 사용자 id면 그 사용자에게 DM */
+  chatId?: string;
+  /** 함께 호출할 사용자 (@username 또는 숫자 사용자 id) */
+  mentions?: string[];
+}
+
 @Entity('scheduled_notifications')
+@Index(['chatId', 'slug'], { unique: true })
 export class ScheduledNotificationEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -31,9 +59,62 @@ export class ScheduledNotificationEntity {
   @Column({ type: 'varchar', length: 100, nullable: true })
   cron: string | null;
 
+  /** cron 대신 쓰는 iCalendar 반복 규칙 (DTSTART/RRULE/EXDATE 줄) */
+  @Column({ type: 'text', nullable: true })
+  recurrence: string | null;
+
   @Column({ type: 'timestamptz', nullable: true })
   scheduledAt: Date | null;
 
+  /** 선언형 동기화(PUT /schedule/sync)에서 스케줄을 가리키는 키. 채팅 안에서 유일하다. */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  slug: string | null;
+
+  /** 동기화 범위를 나누는 태그 */
+  @Column({ type: 'jsonb', nullable: true })
+  tags: string[] | null;
+
+  /** .ics에서 가져온 일정의 UID. 같은 채팅에 다시 가져올 때 중복 판단에 쓴다. */
+  @Index()
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  icalUid: string | null;
+
   @Column({ type: 'varchar', length: 5, nullable: true })
   eventTime: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timezone: string | null;
+
+  @Column({ type: 'varchar', length: 10, default: 'skip' })
+  misfirePolicy: MisfirePolicy;
+
+  @Column({ type: 'integer', default: 60 })
+  misfireGraceMinutes: number;
+
+  @Column({ type: 'varchar', length: 10, default: 'fire' })
+  holidayPolicy: HolidayPolicy;
+
+  /** event 타입의 사전 알림 (예: D-3 09:00, 1일 전, 1시간 전) */
+  @Column({ type: 'jsonb', nullable: true })
+  reminderOffsets: ReminderOffset[] | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  attachments: Attachment[] | null;
+
+  /** 발송 메시지에 확인·다시 알림(10분/1시간) 버튼을 붙인다 */
+  @Column({ type: 'boolean', default: false })
+  ackButtons: boolean;
+
+  /** 확인이 없을 때의 에스컬레이션 단계 (afterMinutes 오름차순). 있으면 버튼이 항상 붙는다. */
+  @Column({ type: 'jsonb', nullable: true })
+  escalation: EscalationStep[] | null;
+
+  /** 지금까지 발송한 횟수. 메시지의 {{occurrence}} 변수에 사용된다. */
+  @Column({ type: 'integer', default: 0 })
+  occurrenceCount: number;
+
+  /** 다음 발송 예정 시각. 이벤트 스케줄은 다음 사전 알림 시각이고, 비활성이거나 남은 발송이 없으면 null. 인스턴스들은 이 값으로 due 스케줄을 가져간다. */
+  @Index()
+  @Column({ type: 'timestamptz', nullable: true })
+  nextRunAt: Date | null;
 }
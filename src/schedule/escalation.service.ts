@@ -0,0 +1,112 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { CronJob } from 'cron';
+import { ScheduleService } from './schedule.service.js';
+import { ScheduleStorageService } from './schedule-storage.service.js';
+import { DeliveryService } from '../delivery/delivery.service.js';
+import type { DeliveryEntity } from '../delivery/entities/delivery.entity.js';
+import type { ScheduledNotificationEntity } from './entities/scheduled-notification.entity.js';
+
+interface EscalationRun {
+  schedule: ScheduledNotificationEntity;
+  root: DeliveryEntity;
+  level: number;
+}
+
+/**
+ * 확인되지 않은 발송을 스케줄의 escalation 단계에 따라 다시 보낸다.
+ * 다음 단계 시각은 최초 발송 기록(nextEscalationAt)에 있어 재시작·다중 인스턴스에서도 이어진다.
+ */
+@Injectable()
+export class EscalationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EscalationService.name);
+
+  private static readonly CLAIM_BATCH = 50;
+
+  private job: CronJob | null = null;
+  private running = false;
+
+  constructor(
+    private readonly scheduleService: ScheduleService,
+    private readonly storage: ScheduleStorageService,
+    private readonly deliveryService: DeliveryService,
+  ) {}
+
+  onModuleInit() {
+    this.job = new CronJob(
+      '*/30 * * * * *',
+      async () => {
+        await this.tick(new Date());
+      },
+      null,
+      true,
+      'UTC',
+    );
+    this.logger.log('[ESCALATION] Registered check: every 30 seconds');
+  }
+
+  onModuleDestroy() {
+    void this.job?.stop();
+  }
+
+  private async tick(now: Date): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const runs = await this.deliveryService.claimEscalations(
+        now,
+        EscalationService.CLAIM_BATCH,
+        (root) => this.plan(root),
+      );
+      for (const run of runs) {
+        if (!run) continue;
+        try {
+          await this.scheduleService.escalate(
+            run.schedule,
+            run.root,
+            run.level,
+          );
+        } catch (error) {
+          this.logger.error(
+            `[ESCALATION FAIL] "${run.schedule.name}" level ${run.level}`,
+            (error as Error).stack,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error('[ESCALATION TICK FAIL]', (error as Error).stack);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** 이번에 보낼 단계와 그다음 단계 시각. 스케줄이 지워졌거나 단계가 줄었으면 멈춘다. */
+  private async plan(root: DeliveryEntity): Promise<{
+    update: Partial<DeliveryEntity>;
+    result: EscalationRun | null;
+  }> {
+    const schedule = root.scheduleId
+      ? await this.storage.findById(root.scheduleId)
+      : null;
+    const steps = schedule?.escalation ?? [];
+    if (!schedule || root.escalationStep >= steps.length) {
+      return { update: { nextEscalationAt: null }, result: null };
+    }
+
+    const level = root.escalationStep + 1;
+    const next = steps[level];
+    return {
+      update: {
+        escalationStep: level,
+        nextEscalationAt: next
+          ? new Date(root.sentAt.getTime() + next.afterMinutes * 60_000)
+          : null,
+      },
+      result: { schedule, root, level },
+    };
+  }
+}
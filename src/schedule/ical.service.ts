@@ -0,0 +1,274 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DateTime } from 'luxon';
+import { ScheduleService } from './schedule.service.js';
+import { ScheduleStorageService } from './schedule-storage.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
+import type { ScheduledNotificationEntity } from './entities/scheduled-notification.entity.js';
+import type { CreateScheduleDto } from '../common/dto/create-schedule.dto.js';
+import {
+  allDayStart,
+  buildCalendar,
+  cronToRecurringTimings,
+  ICAL_UID_DOMAIN,
+  IcalEvent,
+  IcalExportEvent,
+  IcalParseError,
+  parseIcalEvents,
+  recurrenceToTimings,
+  timedStart,
+} from './utils/ical.util.js';
+import { resolveEventAt } from './utils/event-reminder.util.js';
+import { escapeHtml, htmlToText } from '../common/utils/html.util.js';
+import { validateTemplate } from '../common/utils/template.util.js';
+import { toZoned } from '../common/utils/date.util.js';
+
+export type IcsImportType = 'event' | 'manual';
+
+export interface IcsImportReport {
+  dryRun: boolean;
+  chatId: string;
+  type: IcsImportType;
+  /** 파일의 VEVENT 수 */
+  total: number;
+  /** 등록한 (dryRun이면 등록할) 일정 */
+  created: { uid: string | null; name: string; at: string; id?: string }[];
+  /** 같은 UID로 이미 등록된 일정 */
+  duplicates: { uid: string; name: string; scheduleId: string }[];
+  skipped: { uid: string | null; name: string; reason: string }[];
+}
+
+/** 스케줄을 .ics로 내보내고, .ics 일정을 이벤트·일회성 알림으로 가져온다. */
+@Injectable()
+export class IcalService {
+  private readonly logger = new Logger(IcalService.name);
+  private readonly defaultChatId: string;
+
+  private static readonly NAME_MAX_LENGTH = 255;
+  /** 텔레그램 메시지 한도(4096자) 안에 들어가도록 설명을 자른다 */
+  private static readonly DESCRIPTION_MAX_LENGTH = 3000;
+  /** 종일 일정을 일회성 알림으로 가져올 때의 발송 시각 */
+  private static readonly ALL_DAY_ALARM_HOUR = 9;
+
+  constructor(
+    private readonly scheduleService: ScheduleService,
+    private readonly storage: ScheduleStorageService,
+    private readonly chatSettings: ChatSettingsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultChatId = this.configService.getOrThrow<string>(
+      'TELEGRAM_DEFAULT_CHAT_ID',
+    );
+  }
+
+  /** 활성 스케줄을 VCALENDAR로. 고정 알림은 RRULE 반복 일정이 된다. */
+  async exportCalendar(
+    schedules: ScheduledNotificationEntity[],
+    chatId?: string,
+  ): Promise<string> {
+    const timezone = chatId
+      ? await this.chatSettings.getTimezone(chatId)
+      : this.chatSettings.defaultTimezone;
+    const events = schedules
+      .filter((s) => s.enabled)
+      .flatMap((s) => this.toExportEvents(s, timezone));
+
+    this.logger.log(
+      `[ICS EXPORT] chatId: ${chatId ?? '(all)'}, schedules: ${schedules.length}, events: ${events.length}`,
+    );
+    return buildCalendar(
+      chatId ? `텔레그램 알림 (${chatId})` : '텔레그램 알림',
+      timezone,
+      events,
+    );
+  }
+
+  async importCalendar(
+    content: string,
+    options: { chatId?: string; type: IcsImportType; dryRun: boolean },
+  ): Promise<IcsImportReport> {
+    const { type, dryRun } = options;
+    const chatId = options.chatId || this.defaultChatId;
+    const timezone = await this.chatSettings.getTimezone(chatId);
+
+    let events: IcalEvent[];
+    try {
+      events = parseIcalEvents(content, timezone);
+    } catch (error) {
+      if (error instanceof IcalParseError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    const existing = (await this.storage.findAll()).filter(
+      (s) => s.chatId === chatId,
+    );
+    const byUid = new Map<string, ScheduledNotificationEntity>();
+    for (const s of existing) {
+      byUid.set(s.icalUid ?? `${s.id}@${ICAL_UID_DOMAIN}`, s);
+    }
+
+    const report: IcsImportReport = {
+      dryRun,
+      chatId,
+      type,
+      total: events.length,
+      created: [],
+      duplicates: [],
+      skipped: [],
+    };
+    const seen = new Set<string>();
+    const now = new Date();
+
+    for (const event of events) {
+      const name = (event.summary || '(제목 없음)').slice(
+        0,
+        IcalService.NAME_MAX_LENGTH,
+      );
+      const skip = (reason: string) =>
+        report.skipped.push({ uid: event.uid, name, reason });
+
+      if (event.cancelled) {
+        skip('취소된 일정입니다.');
+        continue;
+      }
+      if (event.recurring || event.exception) {
+        skip('반복 일정은 가져오지 않습니다.');
+        continue;
+      }
+      if (!event.start) {
+        skip('DTSTART가 없거나 해석할 수 없습니다.');
+        continue;
+      }
+      if (event.uid) {
+        const duplicate = byUid.get(event.uid);
+        if (duplicate) {
+          report.duplicates.push({
+            uid: event.uid,
+            name,
+            scheduleId: duplicate.id,
+          });
+          continue;
+        }
+        if (seen.has(event.uid)) {
+          skip('파일 안에 같은 UID가 이미 있습니다.');
+          continue;
+        }
+        seen.add(event.uid);
+      }
+
+      const at = this.importTime(event, type, timezone);
+      const past =
+        type === 'event'
+          ? at < toZoned(now, timezone).startOf('day')
+          : at.toJSDate() <= now;
+      if (past) {
+        skip('이미 지난 일정입니다.');
+        continue;
+      }
+
+      const dto: CreateScheduleDto = {
+        type,
+        name,
+        message: this.toMessage(event),
+        chatId,
+        scheduledAt: at.toISO()!,
+        ...(type === 'event' &&
+          !event.allDay && { eventTime: at.toFormat('HH:mm') }),
+      };
+      const templateErrors = validateTemplate(dto.message);
+      if (templateErrors.length > 0) {
+        skip(templateErrors.join(' '));
+        continue;
+      }
+
+      const entry = { uid: event.uid, name, at: dto.scheduledAt! };
+      if (dryRun) {
+        report.created.push(entry);
+        continue;
+      }
+      try {
+        const schedule = await this.scheduleService.create(dto, {
+          icalUid: event.uid ?? undefined,
+        });
+        report.created.push({ ...entry, id: schedule.id });
+      } catch (error) {
+        skip((error as Error).message);
+      }
+    }
+
+    this.logger.log(
+      `[ICS IMPORT] chatId: ${chatId}, dryRun: ${dryRun}, total: ${report.total}, created: ${report.created.length}, duplicates: ${report.duplicates.length}, skipped: ${report.skipped.length}`,
+    );
+    return report;
+  }
+
+  private toExportEvents(
+    s: ScheduledNotificationEntity,
+    chatTimezone: string,
+  ): IcalExportEvent[] {
+    const timezone = s.timezone ?? chatTimezone;
+    const uid = s.icalUid ?? `${s.id}@${ICAL_UID_DOMAIN}`;
+    const base = { summary: s.name, description: htmlToText(s.message) };
+
+    if (s.type === 'fixed') {
+      if (s.recurrence) {
+        return [
+          { ...base, uid, timing: recurrenceToTimings(s.recurrence, timezone) },
+        ];
+      }
+      if (!s.cron) return [];
+      // 일·요일 OR cron은 두 일정으로 나뉘므로 두 번째부터 UID에 번호를 붙인다
+      return cronToRecurringTimings(s.cron, timezone, s.createdAt).map(
+        (timing, i) => ({
+          ...base,
+          uid: i === 0 ? uid : uid.replace('@', `-${i + 1}@`),
+          timing,
+        }),
+      );
+    }
+
+    if (s.type === 'event') {
+      const at = resolveEventAt(s, timezone);
+      if (!at) return [];
+      const local = toZoned(at, timezone);
+      const allDay = !s.eventTime && local.hour === 0 && local.minute === 0;
+      return [
+        {
+          ...base,
+          uid,
+          timing: allDay ? allDayStart(at, timezone) : timedStart(at),
+        },
+      ];
+    }
+
+    return s.scheduledAt
+      ? [{ ...base, uid, timing: timedStart(s.scheduledAt) }]
+      : [];
+  }
+
+  /** 종일 일정은 이벤트면 그날 00:00, 일회성 알림이면 그날 09:00 */
+  private importTime(
+    event: IcalEvent,
+    type: IcsImportType,
+    timezone: string,
+  ): DateTime {
+    const at = toZoned(event.start!, timezone);
+    if (!event.allDay || type === 'event') return at;
+    return at.set({ hour: IcalService.ALL_DAY_ALARM_HOUR });
+  }
+
+  private toMessage(event: IcalEvent): string {
+    let message = `📅 <b>${escapeHtml(event.summary || '(제목 없음)')}</b>`;
+    if (event.location) message += `\n📍 ${escapeHtml(event.location)}`;
+    if (event.description) {
+      const description =
+        event.description.length > IcalService.DESCRIPTION_MAX_LENGTH
+          ? `${event.description.slice(0, IcalService.DESCRIPTION_MAX_LENGTH)}…`
+          : event.description;
+      message += `\n\n${escapeHtml(description)}`;
+    }
+    return message;
+  }
+}
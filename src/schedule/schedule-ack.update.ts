@@ -0,0 +1,134 @@
+import { Update, Action, Ctx } from 'nestjs-telegraf';
+import { Context } from 'telegraf';
+import { ScheduleService } from './schedule.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
+import { DeliveryService } from '../delivery/delivery.service.js';
+import {
+  ACK_CALLBACK,
+  SNOOZE_CALLBACK,
+  SNOOZE_OPTIONS,
+} from '../delivery/utils/ack.util.js';
+import { formatDateTime } from '../common/utils/date.util.js';
+
+/**
+ * 발송된 알림의 확인·다시 알림 버튼. 채팅 멤버 누구나 누를 수 있고,
+ * 결과는 해당 발송 기록에 남기고 메시지 끝에 덧붙인다. 어느 쪽이든 에스컬레이션은 멈춘다.
+ */
+@Update()
+export class ScheduleAckUpdate {
+  constructor(
+    private readonly scheduleService: ScheduleService,
+    private readonly chatSettings: ChatSettingsService,
+    private readonly deliveryService: DeliveryService,
+  ) {}
+
+  @Action(/^ak:/)
+  async onAction(@Ctx() ctx: Context): Promise<void> {
+    const query = ctx.callbackQuery;
+    if (!query || !('data' in query) || !query.message) return;
+
+    const chatId = String(ctx.chat!.id);
+    const pressed = await this.deliveryService.findByMessage(
+      chatId,
+      query.message.message_id,
+    );
+    // 에스컬레이션 메시지의 버튼도 최초 발송에 기록해 이후 단계를 멈춘다
+    const delivery = pressed?.escalationOf
+      ? await this.deliveryService.findById(pressed.escalationOf)
+      : pressed;
+    if (!delivery) {
+      await ctx.answerCbQuery('발송 기록을 찾을 수 없습니다.');
+      await ctx.editMessageReplyMarkup(undefined);
+      return;
+    }
+
+    const user = {
+      id: String(query.from.id),
+      name: [query.from.first_name, query.from.last_name]
+        .filter(Boolean)
+        .join(' '),
+    };
+    const timezone = await this.chatSettings.getTimezone(chatId);
+
+    if (query.data === ACK_CALLBACK) {
+      if (!(await this.deliveryService.acknowledge(delivery.id, user))) {
+        await ctx.answerCbQuery('이미 확인된 알림입니다.');
+        return;
+      }
+      await this.appendStatus(
+        ctx,
+        `✅ ${user.name}님이 확인했습니다 (${formatDateTime(new Date(), timezone)})`,
+      );
+      await ctx.answerCbQuery('확인했습니다.');
+      return;
+    }
+
+    const minutes = Number(query.data.slice(SNOOZE_CALLBACK.length));
+    const label = SNOOZE_OPTIONS[minutes];
+    if (!query.data.startsWith(SNOOZE_CALLBACK) || !label) {
+      await ctx.answerCbQuery();
+      return;
+    }
+    const schedule = delivery.scheduleId
+      ? await this.scheduleService
+          .findById(delivery.scheduleId)
+          .catch(() => null)
+      : null;
+    if (!schedule) {
+      await ctx.answerCbQuery('원래 알림이 삭제되어 다시 알릴 수 없습니다.');
+      await ctx.editMessageReplyMarkup(undefined);
+      return;
+    }
+
+    const until = new Date(Date.now() + minutes * 60_000);
+    const claimed = await this.deliveryService.claimSnooze(delivery.id, {
+      until,
+      userId: user.id,
+    });
+    if (!claimed) {
+      await ctx.answerCbQuery('이미 다시 알림이 예약되었습니다.');
+      return;
+    }
+    try {
+      const snooze = await this.scheduleService.snooze(schedule, until);
+      await this.deliveryService.setSnoozeSchedule(delivery.id, snooze.id);
+    } catch (error) {
+      await this.deliveryService.releaseSnooze(
+        delivery.id,
+        delivery.nextEscalationAt,
+      );
+      throw error;
+    }
+    await this.appendStatus(
+      ctx,
+      `⏰ ${user.name}님이 ${label}로 미뤘습니다 (${formatDateTime(until, timezone)}에 다시 알림)`,
+    );
+    await ctx.answerCbQuery(`${label} 다시 알립니다.`);
+  }
+
+  /**
+   * 메시지 끝에 처리 결과를 덧붙이고 버튼을 없앤다. 원문의 서식은 entities로
+   * 그대로 두며, 길이 제한 등으로 수정할 수 없으면 버튼만 없애고 답장으로 알린다.
+   */
+  private async appendStatus(ctx: Context, status: string): Promise<void> {
+    const message = ctx.callbackQuery?.message;
+    try {
+      if (message && 'text' in message) {
+        await ctx.editMessageText(`${message.text}\n\n${status}`, {
+          entities: message.entities,
+        });
+        return;
+      }
+      if (message && 'caption' in message && message.caption) {
+        await ctx.editMessageCaption(`${message.caption}\n\n${status}`, {
+          caption_entities: message.caption_entities,
+        });
+        return;
+      }
+    } catch {
+      // 아래에서 답장으로 대신한다
+    }
+    await ctx.editMessageReplyMarkup(undefined);
+    await ctx.reply(status);
+  }
+}
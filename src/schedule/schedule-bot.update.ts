@@ -1,214 +1,525 @@
-import { Update, Command, Ctx } from 'nestjs-telegraf';
-import { Context } from 'telegraf';
+import { Update, Command, Action, Ctx } from 'nestjs-telegraf';
+import { Context, Markup } from 'telegraf';
 import { ScheduleService } from './schedule.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
+import { getCommandArgs } from '../bot/utils/command.util.js';
+import { DeliveryService } from '../delivery/delivery.service.js';
+import { describeReminderOffset } from './utils/event-reminder.util.js';
+import { describeCron, describeCronDays } from './utils/cron.util.js';
+import { describeRecurrence } from './utils/recurrence.util.js';
+import { escapeHtml } from '../common/utils/html.util.js';
+import { BotPermissionService } from '../bot/permissions/bot-permission.service.js';
 import type { ScheduledNotificationEntity } from './entities/scheduled-notification.entity.js';
+import {
+  formatDateOnly,
+  formatDateTime,
+  formatHHmm,
+  isValidTimezone,
+} from '../common/utils/date.util.js';
+
+type ListKind = 'all' | 'fixed' | 'manual' | 'event';
+
+const KIND_CODES: Record<ListKind, string> = {
+  all: 'a',
+  fixed: 'f',
+  manual: 'm',
+  event: 'e',
+};
+
+const LIST_TITLES: Record<ListKind, string> = {
+  all: '📋 <b>알림 스케줄 목록</b>',
+  fixed: '🔁 <b>고정 반복 알림 목록</b>',
+  manual: '📌 <b>일회성 알림 목록</b>',
+  event: '🗓 <b>이벤트 목록</b>',
+};
+
+const LIST_EMPTY: Record<ListKind, string> = {
+  all: '📭 등록된 알림 스케줄이 없습니다.',
+  fixed: '📭 등록된 고정 반복 알림이 없습니다.',
+  manual: '📭 등록된 일회성 알림이 없습니다.',
+  event: '📭 등록된 이벤트가 없습니다.',
+};
+
+const SECTION_TITLES: Record<string, string> = {
+  fixed: '🔁 <b>고정 반복 알림</b>',
+  manual: '📌 <b>일회성 알림</b>',
+  event: '🗓 <b>이벤트</b>',
+};
+
+const ATTACHMENT_LABELS: Record<string, string> = {
+  photo: '🖼 사진',
+  document: '📄 문서',
+  location: '📍 위치',
+  mediaGroup: '🗂 앨범',
+};
+
+const MISFIRE_LABELS: Record<string, (graceMinutes: number) => string> = {
+  skip: () => '건너뜀',
+  grace: (m) => `${m}분 이내면 늦게 발송`,
+  all: () => '놓친 발송 모두 발송',
+};
+
+const HOLIDAY_LABELS: Record<string, string> = {
+  fire: '그대로 발송',
+  skip: '건너뜀',
+  shift: '다음 영업일로 이동',
+};
 
 @Update()
 export class ScheduleBotUpdate {
-  constructor(private readonly scheduleService: ScheduleService) {}
+  private static readonly PAGE_SIZE = 5;
+  private static readonly MANAGE_ACTIONS = ['tg', 'dl', 'dc', 'ts'];
+
+  constructor(
+    private readonly scheduleService: ScheduleService,
+    private readonly chatSettings: ChatSettingsService,
+    private readonly deliveryService: DeliveryService,
+    private readonly permissions: BotPermissionService,
+  ) {}
 
   @Command('schedules')
   async onSchedules(@Ctx() ctx: Context): Promise<void> {
-    const chatId = String(ctx.chat!.id);
-    const all = await this.scheduleService.findAll(undefined, chatId);
+    await this.replyList(ctx, 'all');
+  }
 
-    if (all.length === 0) {
-      await ctx.reply('📭 등록된 알림 스케줄이 없습니다.');
-      return;
-    }
+  @Command('fixed')
+  async onFixed(@Ctx() ctx: Context): Promise<void> {
+    await this.replyList(ctx, 'fixed');
+  }
 
-    const fixed = all.filter((s) => s.type === 'fixed');
-    const manual = all.filter((s) => s.type === 'manual');
-    const events = all.filter((s) => s.type === 'event');
+  @Command('manual')
+  async onManual(@Ctx() ctx: Context): Promise<void> {
+    await this.replyList(ctx, 'manual');
+  }
 
-    let text = `📋 <b>알림 스케줄 목록</b> (총 ${all.length}개)`;
+  @Command('events')
+  async onEvents(@Ctx() ctx: Context): Promise<void> {
+    await this.replyList(ctx, 'event');
+  }
 
-    if (fixed.length > 0) {
-      text += `\n\n━━━━━━━━━━━━━━━━━━━━\n🔁 <b>고정 반복 알림</b> (${fixed.length}개)\n━━━━━━━━━━━━━━━━━━━━\n\n`;
-      text += this.formatList(fixed);
-    }
+  @Command('stats')
+  async onStats(@Ctx() ctx: Context): Promise<void> {
+    const chatId = String(ctx.chat!.id);
+    const stats = await this.deliveryService.statsByChat(chatId);
 
-    if (manual.length > 0) {
-      text += `\n\n━━━━━━━━━━━━━━━━━━━━\n📌 <b>일회성 알림</b> (${manual.length}개)\n━━━━━━━━━━━━━━━━━━━━\n\n`;
-      text += this.formatList(manual);
+    if (stats.length === 0) {
+      await ctx.reply('📭 아직 발송 이력이 없습니다.');
+      return;
     }
 
-    if (events.length > 0) {
-      text += `\n\n━━━━━━━━━━━━━━━━━━━━\n🗓 <b>이벤트</b> (${events.length}개)\n━━━━━━━━━━━━━━━━━━━━\n\n`;
-      text += this.formatList(events);
-    }
+    const timezone = await this.chatSettings.getTimezone(chatId);
+    const schedules = await this.scheduleService.findAll(undefined, chatId);
+    const names = new Map(schedules.map((s) => [s.id, s.name]));
+
+    const success = stats.reduce((sum, row) => sum + row.success, 0);
+    const failed = stats.reduce((sum, row) => sum + row.failed, 0);
+
+    let text = `📊 <b>발송 통계</b>\n`;
+    text += `✅ 성공 ${success}건 · ❌ 실패 ${failed}건\n`;
+    text += `━━━━━━━━━━━━━━━━━━━━\n\n`;
+    text += stats
+      .map((row, i) => {
+        const name =
+          (row.scheduleId && names.get(row.scheduleId)) ??
+          row.scheduleName ??
+          '(알 수 없음)';
+        let line = `${i + 1}. <b>${escapeHtml(name)}</b>\n   ✅ ${row.success} · ❌ ${row.failed}`;
+        if (row.lastFiredAt) {
+          line += `\n   🕒 마지막 발송: ${formatDateTime(row.lastFiredAt, timezone)}`;
+        }
+        if (
+          row.lastSuccessAt &&
+          row.lastFiredAt &&
+          row.lastSuccessAt.getTime() !== row.lastFiredAt.getTime()
+        ) {
+          line += `\n   ✔️ 마지막 성공: ${formatDateTime(row.lastSuccessAt, timezone)}`;
+        }
+        return line;
+      })
+      .join('\n\n');
 
     await ctx.reply(text, { parse_mode: 'HTML' });
   }
 
-  @Command('fixed')
-  async onFixed(@Ctx() ctx: Context): Promise<void> {
+  @Command('timezone')
+  async onTimezone(@Ctx() ctx: Context): Promise<void> {
     const chatId = String(ctx.chat!.id);
-    const fixed = await this.scheduleService.findAll('fixed', chatId);
+    const timezone = getCommandArgs(ctx);
+
+    if (!timezone) {
+      const current = await this.chatSettings.getTimezone(chatId);
+      await ctx.reply(
+        `🌐 이 채팅의 기본 타임존: <code>${current}</code>\n\n` +
+          `변경하려면 <code>/timezone Europe/Berlin</code> 처럼 IANA 타임존을 입력하세요.`,
+        { parse_mode: 'HTML' },
+      );
+      return;
+    }
 
-    if (fixed.length === 0) {
-      await ctx.reply('📭 등록된 고정 반복 알림이 없습니다.');
+    if (!(await this.permissions.ensureRole(ctx, 'manager', '/timezone'))) {
       return;
     }
 
-    let text = `🔁 <b>고정 반복 알림 목록</b> (${fixed.length}개)\n`;
-    text += this.formatList(fixed);
+    if (!isValidTimezone(timezone)) {
+      await ctx.reply(
+        `⚠️ 알 수 없는 타임존입니다: <code>${timezone}</code>\n예: Asia/Seoul, Europe/London, America/New_York`,
+        { parse_mode: 'HTML' },
+      );
+      return;
+    }
 
-    await ctx.reply(text, { parse_mode: 'HTML' });
+    await this.scheduleService.setChatTimezone(chatId, timezone);
+    await ctx.reply(
+      `✅ 기본 타임존을 <code>${timezone}</code>(으)로 변경했습니다.`,
+      { parse_mode: 'HTML' },
+    );
   }
 
-  @Command('manual')
-  async onManual(@Ctx() ctx: Context): Promise<void> {
+  @Action(/^sc:/)
+  async onAction(@Ctx() ctx: Context): Promise<void> {
+    const query = ctx.callbackQuery;
+    if (!query || !('data' in query)) return;
+
     const chatId = String(ctx.chat!.id);
-    const manual = await this.scheduleService.findAll('manual', chatId);
+    const [, action, kindCode, pageStr, id] = query.data.split(':');
+    const kind = (Object.keys(KIND_CODES) as ListKind[]).find(
+      (k) => KIND_CODES[k] === kindCode,
+    );
+    if (!kind) {
+      await ctx.answerCbQuery();
+      return;
+    }
+    const page = Number(pageStr) || 0;
 
-    if (manual.length === 0) {
-      await ctx.reply('📭 등록된 일회성 알림이 없습니다.');
+    // 목록 넘기기·상세 보기 외의 동작은 알림을 바꾸거나 발송하므로 담당자 이상만 허용
+    if (
+      ScheduleBotUpdate.MANAGE_ACTIONS.includes(action) &&
+      !(await this.permissions.ensureRole(ctx, 'manager', query.data))
+    ) {
       return;
     }
 
-    let text = `📌 <b>일회성 알림 목록</b> (${manual.length}개)\n`;
-    text += this.formatList(manual);
+    let schedule: ScheduledNotificationEntity | null = null;
+    if (id) {
+      schedule = await this.scheduleService.findById(id).catch(() => null);
+      if (!schedule || schedule.chatId !== chatId) {
+        await ctx.answerCbQuery('스케줄을 찾을 수 없습니다.');
+        await this.editList(ctx, kind, page);
+        return;
+      }
+    }
 
-    await ctx.reply(text, { parse_mode: 'HTML' });
+    try {
+      switch (action) {
+        case 'pg':
+          await this.editList(ctx, kind, page);
+          await ctx.answerCbQuery();
+          break;
+
+        case 'tg': {
+          const updated = await this.scheduleService.toggleEnabled(id);
+          await this.editList(ctx, kind, page);
+          await ctx.answerCbQuery(
+            updated.enabled ? '▶️ 활성화했습니다.' : '⏸ 일시정지했습니다.',
+          );
+          break;
+        }
+
+        case 'dl':
+          await ctx.editMessageText(
+            `🗑 <b>${escapeHtml(schedule!.name)}</b>\n\n이 알림을 삭제할까요? 삭제 후에는 되돌릴 수 없습니다.`,
+            {
+              parse_mode: 'HTML',
+              ...Markup.inlineKeyboard([
+                Markup.button.callback(
+                  '✅ 삭제',
+                  this.callbackData('dc', kind, page, id),
+                ),
+                Markup.button.callback(
+                  '↩️ 취소',
+                  this.callbackData('pg', kind, page),
+                ),
+              ]),
+            },
+          );
+          await ctx.answerCbQuery();
+          break;
+
+        case 'dc':
+          await this.scheduleService.delete(id);
+          await this.editList(ctx, kind, page);
+          await ctx.answerCbQuery('🗑 삭제했습니다.');
+          break;
+
+        case 'in':
+          await ctx.editMessageText(
+            this.formatDetail(
+              schedule!,
+              await this.chatSettings.getTimezone(chatId),
+            ),
+            {
+              parse_mode: 'HTML',
+              ...Markup.inlineKeyboard([
+                Markup.button.callback(
+                  '📤 테스트 발송',
+                  this.callbackData('ts', kind, page, id),
+                ),
+                Markup.button.callback(
+                  '↩️ 목록',
+                  this.callbackData('pg', kind, page),
+                ),
+              ]),
+            },
+          );
+          await ctx.answerCbQuery();
+          break;
+
+        case 'ts':
+          await this.scheduleService.sendTest(id);
+          await ctx.answerCbQuery('📤 테스트 메시지를 전송했습니다.');
+          break;
+
+        default:
+          await ctx.answerCbQuery();
+      }
+    } catch (error) {
+      await ctx.answerCbQuery(`⚠️ ${(error as Error).message}`, {
+        show_alert: true,
+      });
+    }
   }
 
-  @Command('events')
-  async onEvents(@Ctx() ctx: Context): Promise<void> {
-    const chatId = String(ctx.chat!.id);
-    const events = await this.scheduleService.findAll('event', chatId);
+  private async replyList(ctx: Context, kind: ListKind): Promise<void> {
+    const { text, keyboard } = await this.renderList(
+      kind,
+      String(ctx.chat!.id),
+      0,
+    );
+    await ctx.reply(text, { parse_mode: 'HTML', ...keyboard });
+  }
 
-    if (events.length === 0) {
-      await ctx.reply('📭 등록된 이벤트가 없습니다.');
-      return;
+  private async editList(
+    ctx: Context,
+    kind: ListKind,
+    page: number,
+  ): Promise<void> {
+    const { text, keyboard } = await this.renderList(
+      kind,
+      String(ctx.chat!.id),
+      page,
+    );
+    await ctx.editMessageText(text, { parse_mode: 'HTML', ...keyboard });
+  }
+
+  private async renderList(
+    kind: ListKind,
+    chatId: string,
+    page: number,
+  ): Promise<{
+    text: string;
+    keyboard?: ReturnType<typeof Markup.inlineKeyboard>;
+  }> {
+    const found = await this.scheduleService.findAll(
+      kind === 'all' ? undefined : kind,
+      chatId,
+    );
+    const chatTimezone = await this.chatSettings.getTimezone(chatId);
+
+    if (found.length === 0) {
+      return { text: LIST_EMPTY[kind] };
     }
 
-    let text = `🗓 <b>이벤트 목록</b> (${events.length}개)\n\n`;
-    text += events
-      .map((s) => {
-        const status = s.enabled ? '✅' : '⏸';
-        const dateStr = this.formatDateOnly(s.scheduledAt!);
-        return `${status} <b>${s.name}</b>\n   📅 ${dateStr}`;
-      })
-      .join('\n\n');
+    const typeOrder = ['fixed', 'manual', 'event'];
+    const schedules = [...found].sort(
+      (a, b) => typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type),
+    );
+
+    const pageSize = ScheduleBotUpdate.PAGE_SIZE;
+    const totalPages = Math.ceil(schedules.length / pageSize);
+    const current = Math.min(Math.max(page, 0), totalPages - 1);
+    const offset = current * pageSize;
+    const items = schedules.slice(offset, offset + pageSize);
+
+    let text: string;
+    if (kind === 'all') {
+      text = `📋 <b>알림 스케줄 목록</b> (총 ${schedules.length}개)`;
+      for (const type of typeOrder) {
+        const group = items.filter((s) => s.type === type);
+        if (group.length === 0) continue;
+        const count = schedules.filter((s) => s.type === type).length;
+        text += `\n\n━━━━━━━━━━━━━━━━━━━━\n${SECTION_TITLES[type]} (${count}개)\n━━━━━━━━━━━━━━━━━━━━\n\n`;
+        text += this.formatList(
+          group,
+          chatTimezone,
+          offset + items.indexOf(group[0]) + 1,
+        );
+      }
+    } else {
+      text = `${LIST_TITLES[kind]} (${schedules.length}개)\n\n`;
+      text += this.formatList(items, chatTimezone, offset + 1);
+    }
 
-    await ctx.reply(text, { parse_mode: 'HTML' });
+    if (totalPages > 1) {
+      text += `\n\n📄 ${current + 1} / ${totalPages} 페이지`;
+    }
+
+    const rows = items.map((s, i) => [
+      Markup.button.callback(
+        `${offset + i + 1}. ${s.enabled ? '⏸ 정지' : '▶️ 재개'}`,
+        this.callbackData('tg', kind, current, s.id),
+      ),
+      Markup.button.callback(
+        '🗑',
+        this.callbackData('dl', kind, current, s.id),
+      ),
+      Markup.button.callback(
+        'ℹ️',
+        this.callbackData('in', kind, current, s.id),
+      ),
+      Markup.button.callback(
+        '📤',
+        this.callbackData('ts', kind, current, s.id),
+      ),
+    ]);
+
+    if (totalPages > 1) {
+      const nav: ReturnType<typeof Markup.button.callback>[] = [];
+      if (current > 0) {
+        nav.push(
+          Markup.button.callback(
+            '◀️ 이전',
+            this.callbackData('pg', kind, current - 1),
+          ),
+        );
+      }
+      if (current < totalPages - 1) {
+        nav.push(
+          Markup.button.callback(
+            '다음 ▶️',
+            this.callbackData('pg', kind, current + 1),
+          ),
+        );
+      }
+      rows.push(nav);
+    }
+
+    return { text, keyboard: Markup.inlineKeyboard(rows) };
+  }
+
+  private callbackData(
+    action: string,
+    kind: ListKind,
+    page: number,
+    id?: string,
+  ): string {
+    return ['sc', action, KIND_CODES[kind], page, ...(id ? [id] : [])].join(
+      ':',
+    );
   }
 
-  private formatList(schedules: ScheduledNotificationEntity[]): string {
+  private formatDetail(
+    s: ScheduledNotificationEntity,
+    chatTimezone: string,
+  ): string {
+    const timezone = s.timezone ?? chatTimezone;
+    const lines = [
+      `ℹ️ <b>${escapeHtml(s.name)}</b>`,
+      '',
+      `종류: ${SECTION_TITLES[s.type]}`,
+      `상태: ${s.enabled ? '✅ 활성' : '⏸ 일시정지'}`,
+    ];
+    if (s.type === 'fixed' && s.recurrence) {
+      lines.push(
+        `반복: ${escapeHtml(describeRecurrence(s.recurrence))}`,
+        `<pre>${escapeHtml(s.recurrence)}</pre>`,
+      );
+    } else if (s.type === 'fixed') {
+      lines.push(`반복: ${describeCron(s.cron!)} (<code>${s.cron}</code>)`);
+    } else if (s.type === 'event') {
+      lines.push(`날짜: ${formatDateOnly(s.scheduledAt!, timezone)}`);
+    } else {
+      lines.push(`예정: ${formatDateTime(s.scheduledAt!, timezone)}`);
+      const remaining = this.formatRemaining(s.scheduledAt!);
+      if (remaining) lines.push(`⏳ ${remaining}`);
+    }
+    if (s.eventTime) {
+      lines.push(`이벤트 시각: ${formatHHmm(s.eventTime)}`);
+    }
+    if (s.reminderOffsets?.length) {
+      lines.push(`사전 알림: ${this.describeReminders(s)}`);
+    }
+    lines.push(`타임존: ${timezone}${s.timezone ? '' : ' (채팅 기본값)'}`);
+    lines.push(
+      `누락 시: ${MISFIRE_LABELS[s.misfirePolicy](s.misfireGraceMinutes)}`,
+    );
+    if (s.type === 'fixed') {
+      lines.push(`공휴일: ${HOLIDAY_LABELS[s.holidayPolicy]}`);
+    }
+    if (s.attachments?.length) {
+      lines.push(
+        `첨부: ${s.attachments.map((a) => ATTACHMENT_LABELS[a.type]).join(', ')}`,
+      );
+    }
+    if (s.ackButtons || s.escalation?.length) {
+      lines.push('버튼: 확인 · 10분 후 · 1시간 후');
+    }
+    if (s.escalation?.length) {
+      lines.push(
+        `에스컬레이션: ${s.escalation.map((e) => `${e.afterMinutes}분`).join(' → ')} (미확인 시)`,
+      );
+    }
+    lines.push(`ID: <code>${s.id}</code>`, '', '💬 메시지', s.message);
+    return lines.join('\n');
+  }
+
+  private formatList(
+    schedules: ScheduledNotificationEntity[],
+    chatTimezone: string,
+    startIndex = 1,
+  ): string {
     return schedules
-      .map((s) => {
+      .map((s, i) => {
+        const timezone = s.timezone ?? chatTimezone;
+        const zoneLabel = timezone !== chatTimezone ? ` (${timezone})` : '';
         const status = s.enabled ? '✅' : '⏸';
         let time: string;
-        if (s.type === 'fixed') {
-          const dayStr = this.describeCronDay(s.cron!);
+        if (s.type === 'fixed' && s.recurrence) {
+          time = `⏰ ${escapeHtml(describeRecurrence(s.recurrence))}`;
+        } else if (s.type === 'fixed') {
+          const dayStr = describeCronDays(s.cron!);
           if (s.eventTime) {
-            const evTime = this.formatEventTime(s.eventTime);
+            const evTime = formatHHmm(s.eventTime);
             time = `⏰ ${dayStr} ${evTime}`;
           } else {
-            time = `⏰ ${this.describeCron(s.cron!)}`;
+            time = `⏰ ${describeCron(s.cron!)}`;
           }
         } else if (s.type === 'event') {
-          time = `📅 ${this.formatDateOnly(s.scheduledAt!)}`;
+          time = `📅 ${formatDateOnly(s.scheduledAt!, timezone)}`;
+          if (s.reminderOffsets?.length) {
+            time += `${zoneLabel}\n   🔔 ${this.describeReminders(s)}`;
+            return `${startIndex + i}. ${status} <b>${escapeHtml(s.name)}</b>\n   ${time}`;
+          }
         } else {
           if (s.eventTime) {
-            const dateStr = this.formatDateOnly(s.scheduledAt!);
-            const evTime = this.formatEventTime(s.eventTime);
+            const dateStr = formatDateOnly(s.scheduledAt!, timezone);
+            const evTime = formatHHmm(s.eventTime);
             time = `📅 ${dateStr} ${evTime}`;
           } else {
-            const dateStr = this.formatDate(s.scheduledAt!);
+            const dateStr = formatDateTime(s.scheduledAt!, timezone);
             const remaining = this.formatRemaining(s.scheduledAt!);
             time = remaining
-              ? `📅 ${dateStr}\n   ⏳ ${remaining}`
-              : `📅 ${dateStr}`;
+              ? `📅 ${dateStr}${zoneLabel}\n   ⏳ ${remaining}`
+              : `📅 ${dateStr}${zoneLabel}`;
+            return `${startIndex + i}. ${status} <b>${escapeHtml(s.name)}</b>\n   ${time}`;
           }
         }
-        return `${status} <b>${s.name}</b>\n   ${time}`;
+        return `${startIndex + i}. ${status} <b>${escapeHtml(s.name)}</b>\n   ${time}${zoneLabel}`;
       })
       .join('\n\n');
   }
 
-  private describeCronDay(cron: string): string {
-    const parts = cron.trim().split(/\s+/);
-    if (parts.length < 5) return cron;
-    return this.describeDayOfWeek(parts[4]);
-  }
-
-  private describeCron(cron: string): string {
-    const parts = cron.trim().split(/\s+/);
-    if (parts.length < 5) return cron;
-
-    const [minute, hour, , , dayOfWeek] = parts;
-
-    const h = Number(hour);
-    const ampm = h < 12 ? '오전' : '오후';
-    const h12 = h === 0 ? 12 : h > 12 ? h - 12 : h;
-    const timeStr = `${ampm} ${h12}:${minute.padStart(2, '0')}`;
-    const dayStr = this.describeDayOfWeek(dayOfWeek);
-
-    return `${dayStr} ${timeStr}`;
-  }
-
-  private describeDayOfWeek(field: string): string {
-    if (field === '*') return '매일';
-
-    const dayNames: Record<string, string> = {
-      '0': '일',
-      '1': '월',
-      '2': '화',
-      '3': '수',
-      '4': '목',
-      '5': '금',
-      '6': '토',
-      '7': '일',
-    };
-
-    if (field.includes('-')) {
-      const [start, end] = field.split('-');
-      const s = dayNames[start] ?? start;
-      const e = dayNames[end] ?? end;
-      if (s === '월' && e === '금') return '평일(월~금)';
-      return `매주 ${s}~${e}요일`;
-    }
-
-    if (field.includes(',')) {
-      const days = field.split(',').map((d) => dayNames[d.trim()] ?? d.trim());
-      return `매주 ${days.map((d) => d + '요일').join(', ')}`;
-    }
-
-    const name = dayNames[field];
-    return name ? `매주 ${name}요일` : field;
-  }
-
-  private formatDateOnly(date: Date): string {
-    const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
-    const pad = (n: number) => String(n).padStart(2, '0');
-    const dayNames = ['일', '월', '화', '수', '목', '금', '토'];
-    const day = dayNames[kst.getUTCDay()];
-    return `${kst.getUTCFullYear()}-${pad(kst.getUTCMonth() + 1)}-${pad(kst.getUTCDate())} (${day})`;
-  }
-
-  private formatDate(date: Date): string {
-    const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
-    const pad = (n: number) => String(n).padStart(2, '0');
-
-    const dayNames = ['일', '월', '화', '수', '목', '금', '토'];
-    const day = dayNames[kst.getUTCDay()];
-
-    const hour = kst.getUTCHours();
-    const ampm = hour < 12 ? '오전' : '오후';
-    const h12 = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-    const minute = kst.getUTCMinutes();
-
-    return `${kst.getUTCFullYear()}-${pad(kst.getUTCMonth() + 1)}-${pad(kst.getUTCDate())} (${day}) ${ampm} ${h12}:${pad(minute)}`;
-  }
-
-  private formatEventTime(eventTime: string): string {
-    const [hourStr, minuteStr] = eventTime.split(':');
-    const h = Number(hourStr);
-    const ampm = h < 12 ? '오전' : '오후';
-    const h12 = h === 0 ? 12 : h > 12 ? h - 12 : h;
-    return `${ampm} ${h12}:${minuteStr}`;
+  private describeReminders(s: ScheduledNotificationEntity): string {
+    return s.reminderOffsets!.map(describeReminderOffset).join(', ');
   }
 
   private formatRemaining(date: Date): string | null {
@@ -0,0 +1,128 @@
+import { Update, Command, Action, Ctx } from 'nestjs-telegraf';
+import { Context, Markup } from 'telegraf';
+import { ScheduleService } from './schedule.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
+import { parseReminder } from './utils/remind-parser.util.js';
+import { formatTimeUntil } from './utils/event-reminder.util.js';
+import { getCommandArgs } from '../bot/utils/command.util.js';
+import { MinRole } from '../bot/permissions/min-role.decorator.js';
+import { formatDateTime } from '../common/utils/date.util.js';
+import { escapeHtml } from '../common/utils/html.util.js';
+import { validateTemplate } from '../common/utils/template.util.js';
+
+const USAGE =
+  `⏰ <b>/remind 사용법</b>\n\n` +
+  `<code>/remind 내일 오후 3시 회의 준비</code>\n` +
+  `<code>/remind 30분 뒤 배포 확인</code>\n` +
+  `<code>/remind 매주 월요일 9시 주간회의</code>\n` +
+  `<code>/remind 다음달 1일 월세</code>\n` +
+  `<code>/remind tomorrow 3pm standup</code>`;
+
+/** 자연어로 일회성·반복 알림을 등록한다. */
+@Update()
+export class ScheduleRemindUpdate {
+  private static readonly NAME_LENGTH = 30;
+
+  constructor(
+    private readonly scheduleService: ScheduleService,
+    private readonly chatSettings: ChatSettingsService,
+  ) {}
+
+  @Command('remind')
+  @MinRole('manager')
+  async onRemind(@Ctx() ctx: Context): Promise<void> {
+    const text = getCommandArgs(ctx);
+    if (!text) {
+      await ctx.reply(USAGE, { parse_mode: 'HTML' });
+      return;
+    }
+
+    const chatId = String(ctx.chat!.id);
+    const timezone = await this.chatSettings.getTimezone(chatId);
+    const now = new Date();
+    const parsed = parseReminder(text, now, timezone);
+    if (!parsed) {
+      await ctx.reply(`⚠️ 시간을 이해하지 못했습니다.\n\n${USAGE}`, {
+        parse_mode: 'HTML',
+      });
+      return;
+    }
+    if (parsed.type === 'manual' && parsed.scheduledAt <= now) {
+      await ctx.reply(
+        `⚠️ ${formatDateTime(parsed.scheduledAt, timezone)}은(는) 이미 지난 시각입니다.`,
+      );
+      return;
+    }
+    const templateErrors = validateTemplate(parsed.message);
+    if (templateErrors.length) {
+      await ctx.reply(`⚠️ ${templateErrors.join(' ')}`);
+      return;
+    }
+
+    const message = escapeHtml(parsed.message);
+    // 이름은 입력 그대로 저장하고, 목록·상세·요약에서 보여줄 때 escapeHtml한다
+    const name =
+      parsed.message.length > ScheduleRemindUpdate.NAME_LENGTH
+        ? `${parsed.message.slice(0, ScheduleRemindUpdate.NAME_LENGTH)}…`
+        : parsed.message;
+
+    try {
+      const schedule = await this.scheduleService.create(
+        parsed.type === 'manual'
+          ? {
+              type: 'manual',
+              name,
+              message,
+              chatId,
+              scheduledAt: parsed.scheduledAt.toISOString(),
+            }
+          : { type: 'fixed', name, message, chatId, cron: parsed.cron },
+      );
+
+      let when: string;
+      if (parsed.type === 'manual') {
+        when =
+          `⏰ <b>${formatDateTime(parsed.scheduledAt, timezone)}</b> ` +
+          `(${formatTimeUntil(parsed.scheduledAt.getTime() - now.getTime())} 후)`;
+      } else {
+        when = `🔁 <b>${parsed.label}</b>마다`;
+        if (schedule.nextRunAt) {
+          when += `\n⏭ 다음 알림: ${formatDateTime(schedule.nextRunAt, timezone)}`;
+        }
+      }
+
+      await ctx.reply(`✅ 알림을 등록했습니다.\n\n${when}\n💬 ${message}`, {
+        parse_mode: 'HTML',
+        ...Markup.inlineKeyboard([
+          Markup.button.callback('❌ 취소', `rm:cancel:${schedule.id}`),
+        ]),
+      });
+    } catch (error) {
+      await ctx.reply(
+        `⚠️ 알림 등록에 실패했습니다: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @Action(/^rm:cancel:/)
+  @MinRole('manager')
+  async onCancel(@Ctx() ctx: Context): Promise<void> {
+    const query = ctx.callbackQuery;
+    if (!query || !('data' in query)) return;
+
+    const id = query.data.slice('rm:cancel:'.length);
+    const schedule = await this.scheduleService.findById(id).catch(() => null);
+    if (!schedule || schedule.chatId !== String(ctx.chat!.id)) {
+      await ctx.answerCbQuery('이미 취소되었거나 없는 알림입니다.');
+      await ctx.editMessageReplyMarkup(undefined);
+      return;
+    }
+
+    await this.scheduleService.delete(id);
+    await ctx.editMessageText(
+      `❌ 알림을 취소했습니다: <b>${escapeHtml(schedule.name)}</b>`,
+      { parse_mode: 'HTML' },
+    );
+    await ctx.answerCbQuery('취소했습니다.');
+  }
+}
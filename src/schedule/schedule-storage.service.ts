@@ -20,6 +20,13 @@ export class ScheduleStorageService {
     return this.repo.findOneBy({ id });
   }
 
+  async findBySlug(
+    chatId: string,
+    slug: string,
+  ): Promise<ScheduledNotificationEntity | null> {
+    return this.repo.findOneBy({ chatId, slug });
+  }
+
   async create(
     data: Partial<ScheduledNotificationEntity>,
   ): Promise<ScheduledNotificationEntity> {
@@ -43,6 +50,80 @@ export class ScheduleStorageService {
     return updated;
   }
 
+  /**
+   * nextRunAt이 지난 활성 스케줄을 행 잠금(SKIP LOCKED)으로 가져와 plan이 돌려준
+   * 변경을 같은 트랜잭션에서 커밋한다. 다른 인스턴스가 잡고 있는 행은 건너뛰므로
+   * 여러 인스턴스가 떠 있어도 한 발생 시각은 한 번만 가져가진다.
+   */
+  async claimDue<T>(
+    now: Date,
+    limit: number,
+    plan: (
+      schedule: ScheduledNotificationEntity,
+    ) => Promise<{ update: Partial<ScheduledNotificationEntity>; result: T }>,
+  ): Promise<T[]> {
+    return this.repo.manager.transaction(async (manager) => {
+      const due = await manager
+        .createQueryBuilder(ScheduledNotificationEntity, 's')
+        .where('s.enabled = true')
+        .andWhere('s.nextRunAt <= :now', { now })
+        .orderBy('s.nextRunAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      const results: T[] = [];
+      for (const schedule of due) {
+        const { update, result } = await plan(schedule);
+        await manager.update(ScheduledNotificationEntity, schedule.id, update);
+        results.push(result);
+      }
+      if (due.length > 0) {
+        this.logger.debug(`[STORAGE] Claimed ${due.length} due schedule(s)`);
+      }
+      return results;
+    });
+  }
+
+  /**
+   * 생성·수정·삭제를 한 트랜잭션으로 반영하고 생성된 스케줄을 돌려준다.
+   * 삭제를 먼저 해서 같은 slug로 다시 만드는 경우에도 유니크 인덱스에 걸리지 않는다.
+   */
+  async applyChanges(changes: {
+    create: Partial<ScheduledNotificationEntity>[];
+    update: { id: string; data: Partial<ScheduledNotificationEntity> }[];
+    remove: string[];
+  }): Promise<ScheduledNotificationEntity[]> {
+    return this.repo.manager.transaction(async (manager) => {
+      if (changes.remove.length > 0) {
+        await manager.delete(ScheduledNotificationEntity, changes.remove);
+      }
+      for (const { id, data } of changes.update) {
+        await manager.update(ScheduledNotificationEntity, id, data);
+      }
+      const created: ScheduledNotificationEntity[] = [];
+      for (const data of changes.create) {
+        created.push(
+          await manager.save(manager.create(ScheduledNotificationEntity, data)),
+        );
+      }
+      this.logger.debug(
+        `[STORAGE] Applied changes: +${created.length} ~${changes.update.length} -${changes.remove.length}`,
+      );
+      return created;
+    });
+  }
+
+  async findNextRunAt(): Promise<Date | null> {
+    const row = await this.repo
+      .createQueryBuilder('s')
+      .select('MIN(s.nextRunAt)', 'next')
+      .where('s.enabled = true')
+      .getRawOne<{ next: Date | null }>();
+    return row?.next ? new Date(row.next) : null;
+  }
+
   async delete(id: string): Promise<boolean> {
     const result = await this.repo.delete(id);
     const deleted = (result.affected ?? 0) > 0;
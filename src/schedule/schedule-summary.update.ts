@@ -0,0 +1,149 @@
+import { Update, Command, Ctx } from 'nestjs-telegraf';
+import { Context } from 'telegraf';
+import { ChatSettingsService } from './chat-settings.service.js';
+import { SummaryService } from './summary.service.js';
+import type { ChatSettingsEntity } from './entities/chat-settings.entity.js';
+import { getCommandArgs } from '../bot/utils/command.util.js';
+import { BotPermissionService } from '../bot/permissions/bot-permission.service.js';
+import { DAY_NAMES } from '../common/utils/date.util.js';
+
+const USAGE =
+  `<code>/summary on</code> · <code>/summary off</code> - 일일 요약 켜기/끄기\n` +
+  `<code>/summary time 07:30</code> - 발송 시각\n` +
+  `<code>/summary tomorrow on|off</code> - 내일 일정 포함\n` +
+  `<code>/summary empty on|off</code> - 일정 없는 날에도 발송\n` +
+  `<code>/summary weekly 월 08:30</code> · <code>/summary weekly off</code> - 주간 요약\n` +
+  `<code>/summary preview</code> · <code>/summary preview weekly</code> - 지금 기준 미리보기`;
+
+const HH_MM = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const EN_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** 채팅별 일일·주간 요약 설정 */
+@Update()
+export class ScheduleSummaryUpdate {
+  constructor(
+    private readonly chatSettings: ChatSettingsService,
+    private readonly summaryService: SummaryService,
+    private readonly permissions: BotPermissionService,
+  ) {}
+
+  @Command('summary')
+  async onSummary(@Ctx() ctx: Context): Promise<void> {
+    const chatId = String(ctx.chat!.id);
+    const [sub, ...rest] = getCommandArgs(ctx).toLowerCase().split(/\s+/);
+
+    if (!sub) {
+      const settings = await this.chatSettings.get(chatId);
+      await ctx.reply(
+        `${this.describe(settings)}\n\n⚙️ <b>변경</b>\n${USAGE}`,
+        { parse_mode: 'HTML' },
+      );
+      return;
+    }
+
+    if (sub === 'preview') {
+      const text =
+        rest[0] === 'weekly'
+          ? await this.summaryService.renderWeekly(chatId)
+          : await this.summaryService.renderDaily(chatId);
+      await ctx.reply(text, { parse_mode: 'HTML' });
+      return;
+    }
+
+    const partial = this.parseChange(sub, rest);
+    if (!partial) {
+      await ctx.reply(`⚠️ 알 수 없는 설정입니다.\n\n${USAGE}`, {
+        parse_mode: 'HTML',
+      });
+      return;
+    }
+
+    if (!(await this.permissions.ensureRole(ctx, 'manager', '/summary'))) {
+      return;
+    }
+
+    const updated = await this.chatSettings.update(chatId, partial);
+    await ctx.reply(
+      `✅ 요약 설정을 변경했습니다.\n\n${this.describe(updated)}`,
+      { parse_mode: 'HTML' },
+    );
+  }
+
+  private parseChange(
+    sub: string,
+    args: string[],
+  ): Partial<ChatSettingsEntity> | null {
+    switch (sub) {
+      case 'on':
+      case 'off':
+        return { summaryEnabled: sub === 'on' };
+      case 'time': {
+        const time = this.parseTime(args[0]);
+        return time ? { summaryTime: time, summaryEnabled: true } : null;
+      }
+      case 'tomorrow':
+      case 'empty': {
+        const flag = this.parseFlag(args[0]);
+        if (flag === null) return null;
+        return sub === 'tomorrow'
+          ? { summaryIncludeTomorrow: flag }
+          : { summarySendEmpty: flag };
+      }
+      case 'weekly': {
+        const flag = this.parseFlag(args[0]);
+        if (flag !== null && args.length === 1) return { digestEnabled: flag };
+        const day = this.parseDay(args[0]);
+        const time = args[1] ? this.parseTime(args[1]) : undefined;
+        if (day === null || time === null) return null;
+        return {
+          digestEnabled: true,
+          digestDay: day,
+          ...(time && { digestTime: time }),
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private parseFlag(value: string | undefined): boolean | null {
+    if (value === 'on') return true;
+    if (value === 'off') return false;
+    return null;
+  }
+
+  /** "7:30" → "07:30" */
+  private parseTime(value: string | undefined): string | null {
+    const match = value ? HH_MM.exec(value) : null;
+    if (!match) return null;
+    return `${match[1].padStart(2, '0')}:${match[2]}`;
+  }
+
+  /** "월", "월요일", "mon" → 1 */
+  private parseDay(value: string | undefined): number | null {
+    if (!value) return null;
+    const ko = DAY_NAMES.indexOf(value.replace(/요일$/, ''));
+    if (ko >= 0) return ko;
+    const en = EN_DAYS.indexOf(value.slice(0, 3));
+    return en >= 0 ? en : null;
+  }
+
+  private describe(settings: ChatSettingsEntity): string {
+    const onOff = (flag: boolean) => (flag ? '켜짐' : '꺼짐');
+    const daily = settings.summaryEnabled
+      ? `매일 <b>${settings.summaryTime}</b>`
+      : '<b>꺼짐</b>';
+    const weekly = settings.digestEnabled
+      ? `매주 <b>${DAY_NAMES[settings.digestDay]}요일 ${settings.digestTime}</b>`
+      : '<b>꺼짐</b>';
+    return (
+      `📆 <b>요약 설정</b>\n` +
+      `일일 요약: ${daily}\n` +
+      `· 내일 일정 포함: ${onOff(settings.summaryIncludeTomorrow)}\n` +
+      `· 일정 없는 날 발송: ${onOff(settings.summarySendEmpty)}\n` +
+      `주간 요약: ${weekly}\n` +
+      `(시각은 채팅 타임존 기준)`
+    );
+  }
+}
@@ -0,0 +1,369 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import yaml from 'js-yaml';
+import { ScheduleService } from './schedule.service.js';
+import { ScheduleStorageService } from './schedule-storage.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
+import type {
+  EscalationStep,
+  HolidayPolicy,
+  MisfirePolicy,
+  ReminderOffset,
+  ScheduledNotificationEntity,
+} from './entities/scheduled-notification.entity.js';
+import type { Attachment } from '../attachment/attachment.service.js';
+import { SyncSchedulesDto } from '../common/dto/sync-schedules.dto.js';
+import { toZoned } from '../common/utils/date.util.js';
+
+/** 내보내기·동기화 파일의 스케줄 하나. 기본값과 같은 필드는 쓰지 않는다. */
+export interface ScheduleSpec {
+  id?: string;
+  slug?: string;
+  chatId: string;
+  type: ScheduledNotificationEntity['type'];
+  name: string;
+  enabled?: boolean;
+  tags?: string[];
+  cron?: string;
+  recurrence?: string;
+  scheduledAt?: string;
+  eventTime?: string;
+  timezone?: string;
+  misfirePolicy?: MisfirePolicy;
+  misfireGraceMinutes?: number;
+  holidayPolicy?: HolidayPolicy;
+  reminderOffsets?: ReminderOffset[];
+  attachments?: Attachment[];
+  ackButtons?: boolean;
+  escalation?: EscalationStep[];
+  message: string;
+}
+
+export interface ScheduleExport {
+  version: 1;
+  /** slug가 있는 스케줄 (chatId, slug 순) */
+  schedules: ScheduleSpec[];
+  /** slug가 없어 동기화 대상이 아닌 스케줄 */
+  unmanaged: ScheduleSpec[];
+}
+
+export interface ScheduleSyncReport {
+  dryRun: boolean;
+  scope: { chatId: string | null; tag: string | null };
+  created: { slug: string; chatId: string; name: string; id?: string }[];
+  updated: { slug: string; chatId: string; id: string; changes: string[] }[];
+  deleted: { slug: string; chatId: string; id: string; name: string }[];
+  unchanged: number;
+}
+
+/**
+ * slug를 키로 스케줄을 파일(JSON/YAML)로 내보내고, 원하는 상태와 DB를 비교해
+ * 생성·수정·삭제를 한 번에 반영한다 (config-as-code).
+ */
+@Injectable()
+export class ScheduleSyncService {
+  private readonly logger = new Logger(ScheduleSyncService.name);
+  private readonly defaultChatId: string;
+
+  constructor(
+    private readonly scheduleService: ScheduleService,
+    private readonly storage: ScheduleStorageService,
+    private readonly chatSettings: ChatSettingsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultChatId = this.configService.getOrThrow<string>(
+      'TELEGRAM_DEFAULT_CHAT_ID',
+    );
+  }
+
+  async export(options: {
+    chatId?: string;
+    tag?: string;
+    allowedChatIds?: string[] | null;
+  }): Promise<ScheduleExport> {
+    const { chatId, tag, allowedChatIds } = options;
+    const schedules = (await this.storage.findAll()).filter(
+      (s) =>
+        (!chatId || s.chatId === chatId) &&
+        (!tag || !!s.tags?.includes(tag)) &&
+        (!allowedChatIds || allowedChatIds.includes(s.chatId)),
+    );
+    const chatTimezones = await this.chatSettings.getTimezoneMap();
+
+    const managed = schedules
+      .filter((s) => s.slug)
+      .sort(
+        (a, b) =>
+          a.chatId.localeCompare(b.chatId) || a.slug!.localeCompare(b.slug!),
+      );
+    this.logger.log(
+      `[EXPORT] chatId: ${chatId ?? '(all)'}, tag: ${tag ?? '(all)'}, schedules: ${managed.length}, unmanaged: ${schedules.length - managed.length}`,
+    );
+    return {
+      version: 1,
+      schedules: managed.map((s) => this.toSpec(s, chatTimezones)),
+      unmanaged: schedules
+        .filter((s) => !s.slug)
+        .map((s) => ({ id: s.id, ...this.toSpec(s, chatTimezones) })),
+    };
+  }
+
+  exportYaml(doc: ScheduleExport): string {
+    return yaml.dump(doc, { lineWidth: -1, noRefs: true });
+  }
+
+  /** JSON 본문 또는 YAML 문자열을 SyncSchedulesDto로 검증한다. */
+  async parse(body: unknown): Promise<SyncSchedulesDto> {
+    let raw = body;
+    if (typeof body === 'string') {
+      try {
+        // 타임스탬프를 Date로 바꾸지 않도록 CORE 스키마로 읽는다
+        raw = yaml.load(body, { schema: yaml.CORE_SCHEMA });
+      } catch (error) {
+        if (error instanceof yaml.YAMLException) {
+          throw new BadRequestException(`YAML 형식 오류: ${error.reason}`);
+        }
+        throw error;
+      }
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new BadRequestException(
+        '요청 본문은 schedules 목록을 담은 객체여야 합니다.',
+      );
+    }
+
+    const dto = plainToInstance(SyncSchedulesDto, raw);
+    const errors = await validate(dto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException(validationMessages(errors));
+    }
+    return dto;
+  }
+
+  async sync(
+    dto: SyncSchedulesDto,
+    options: { dryRun: boolean; allowedChatIds?: string[] | null },
+  ): Promise<ScheduleSyncReport> {
+    const { dryRun, allowedChatIds } = options;
+    const tag = dto.tag ?? null;
+    const scopeChatId = dto.chatId || (tag ? null : this.defaultChatId);
+
+    const existing = (await this.storage.findAll()).filter(
+      (s) =>
+        s.slug &&
+        (!scopeChatId || s.chatId === scopeChatId) &&
+        (!tag || !!s.tags?.includes(tag)) &&
+        (!allowedChatIds || allowedChatIds.includes(s.chatId)),
+    );
+    const byKey = new Map(existing.map((s) => [`${s.chatId}/${s.slug}`, s]));
+    const chatTimezones = await this.chatSettings.getTimezoneMap();
+
+    const report: ScheduleSyncReport = {
+      dryRun,
+      scope: { chatId: scopeChatId, tag },
+      created: [],
+      updated: [],
+      deleted: [],
+      unchanged: 0,
+    };
+    const changes = {
+      create: [] as Partial<ScheduledNotificationEntity>[],
+      update: [] as {
+        schedule: ScheduledNotificationEntity;
+        data: Partial<ScheduledNotificationEntity>;
+      }[],
+      remove: [] as ScheduledNotificationEntity[],
+    };
+    const seen = new Set<string>();
+    const now = new Date();
+
+    for (const [i, { enabled, ...spec }] of dto.schedules.entries()) {
+      const slug = spec.slug;
+      if (!slug) {
+        throw new BadRequestException(`schedules.${i}: slug가 필요합니다.`);
+      }
+      const chatId = spec.chatId || scopeChatId || this.defaultChatId;
+      if (scopeChatId && chatId !== scopeChatId) {
+        throw new BadRequestException(
+          `${slug}: chatId ${chatId}은(는) 동기화 범위(${scopeChatId}) 밖입니다.`,
+        );
+      }
+      const key = `${chatId}/${slug}`;
+      if (seen.has(key)) {
+        throw new BadRequestException(`${slug}: 같은 slug가 두 번 있습니다.`);
+      }
+      seen.add(key);
+
+      // 태그 범위로 동기화한 스케줄이 다음 동기화에서 범위 밖으로 빠지지 않게 한다
+      const tags =
+        tag && !spec.tags?.includes(tag)
+          ? [...(spec.tags ?? []), tag]
+          : spec.tags;
+      const current = byKey.get(key);
+      byKey.delete(key);
+
+      let data: Partial<ScheduledNotificationEntity>;
+      try {
+        data = await this.scheduleService.prepareCreate(
+          { ...spec, chatId, tags },
+          { replacing: current, allowPast: true },
+        );
+      } catch (error) {
+        if (error instanceof HttpException) {
+          throw new HttpException(
+            `${slug}: ${error.message}`,
+            error.getStatus(),
+          );
+        }
+        throw error;
+      }
+      data.enabled = enabled ?? true;
+      // 이미 지난 수동 알림은 발송 후 꺼진 상태가 정상이다
+      if (
+        data.type === 'manual' &&
+        data.scheduledAt &&
+        data.scheduledAt.getTime() <= now.getTime()
+      ) {
+        data.enabled = false;
+      }
+
+      const entry = { slug, chatId, name: spec.name };
+      if (current && current.type !== spec.type) {
+        // 타입은 수정할 수 없으므로 지우고 새로 만든다
+        changes.remove.push(current);
+        report.deleted.push({
+          slug,
+          chatId,
+          id: current.id,
+          name: current.name,
+        });
+      } else if (current) {
+        delete data.icalUid;
+        const changed = this.diff(
+          this.toSpec(current, chatTimezones),
+          this.toSpec({ ...current, ...data }, chatTimezones),
+        );
+        if (changed.length === 0) {
+          report.unchanged++;
+        } else {
+          changes.update.push({ schedule: current, data });
+          report.updated.push({
+            slug,
+            chatId,
+            id: current.id,
+            changes: changed,
+          });
+        }
+        continue;
+      }
+      changes.create.push(data);
+      report.created.push(entry);
+    }
+
+    for (const s of byKey.values()) {
+      changes.remove.push(s);
+      report.deleted.push({
+        slug: s.slug!,
+        chatId: s.chatId,
+        id: s.id,
+        name: s.name,
+      });
+    }
+
+    if (!dryRun) {
+      const created = await this.scheduleService.applyChanges(changes);
+      created.forEach((s, i) => (report.created[i].id = s.id));
+    }
+
+    this.logger.log(
+      `[SYNC] chatId: ${scopeChatId ?? '(any)'}, tag: ${tag ?? '(none)'}, dryRun: ${dryRun}, created: ${report.created.length}, updated: ${report.updated.length}, deleted: ${report.deleted.length}, unchanged: ${report.unchanged}`,
+    );
+    return report;
+  }
+
+  private toSpec(
+    s: ScheduledNotificationEntity,
+    chatTimezones: Map<string, string>,
+  ): ScheduleSpec {
+    const timezone =
+      s.timezone ??
+      chatTimezones.get(s.chatId) ??
+      this.chatSettings.defaultTimezone;
+    const spec: ScheduleSpec = {
+      ...(s.slug && { slug: s.slug }),
+      chatId: s.chatId,
+      type: s.type,
+      name: s.name,
+      ...(!s.enabled && { enabled: false }),
+      ...(s.tags?.length && { tags: [...s.tags].sort() }),
+      ...(s.cron && { cron: s.cron }),
+      ...(s.recurrence && { recurrence: s.recurrence }),
+      ...(s.scheduledAt && {
+        scheduledAt: toZoned(s.scheduledAt, timezone).toISO({
+          suppressMilliseconds: true,
+        })!,
+      }),
+      ...(s.eventTime && { eventTime: s.eventTime }),
+      ...(s.timezone && { timezone: s.timezone }),
+      ...(s.misfirePolicy !== 'skip' && { misfirePolicy: s.misfirePolicy }),
+      ...(s.misfireGraceMinutes !== 60 && {
+        misfireGraceMinutes: s.misfireGraceMinutes,
+      }),
+      ...(s.holidayPolicy !== 'fire' && { holidayPolicy: s.holidayPolicy }),
+      ...(s.reminderOffsets?.length && { reminderOffsets: s.reminderOffsets }),
+      ...(s.attachments?.length && { attachments: s.attachments }),
+      ...(s.ackButtons && { ackButtons: true }),
+      ...(s.escalation?.length && { escalation: s.escalation }),
+      message: s.message,
+    };
+    return spec;
+  }
+
+  /** 값이 다른 필드 이름 (jsonb는 키 순서를 바꾸므로 키를 정렬해 비교한다) */
+  private diff(before: ScheduleSpec, after: ScheduleSpec): string[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...fields].filter(
+      (field) =>
+        canonicalJson(before[field as keyof ScheduleSpec]) !==
+        canonicalJson(after[field as keyof ScheduleSpec]),
+    );
+  }
+}
+
+function canonicalJson(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v)
+            .filter(([, x]) => x !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : v,
+  );
+}
+
+/** ValidationPipe와 같은 형식 ("schedules.0.name should not be empty") */
+function validationMessages(
+  errors: ValidationError[],
+  parentPath?: string,
+): string[] {
+  return errors.flatMap((error) => {
+    const own = Object.values(error.constraints ?? {}).map((message) =>
+      parentPath ? `${parentPath}.${message}` : message,
+    );
+    const path = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    return [...own, ...validationMessages(error.children ?? [], path)];
+  });
+}
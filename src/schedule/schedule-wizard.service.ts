@@ -0,0 +1,125 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { CronJob } from 'cron';
+import { BotService } from '../bot/bot.service.js';
+import {
+  ScheduleDraftEntity,
+  ScheduleDraftData,
+  ScheduleDraftStep,
+} from './entities/schedule-draft.entity.js';
+
+@Injectable()
+export class ScheduleWizardService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduleWizardService.name);
+
+  private static readonly TTL_MS = 10 * 60 * 1000;
+
+  private cleanupJob: CronJob | null = null;
+
+  constructor(
+    @InjectRepository(ScheduleDraftEntity)
+    private readonly repo: Repository<ScheduleDraftEntity>,
+    private readonly botService: BotService,
+  ) {}
+
+  onModuleInit() {
+    this.cleanupJob = new CronJob(
+      '* * * * *',
+      async () => {
+        await this.expireDrafts();
+      },
+      null,
+      true,
+    );
+  }
+
+  onModuleDestroy() {
+    void this.cleanupJob?.stop();
+  }
+
+  async start(chatId: string, userId: string): Promise<ScheduleDraftEntity> {
+    const draft = this.repo.create({
+      id: this.key(chatId, userId),
+      chatId,
+      userId,
+      step: 'type',
+      data: {},
+      messageId: null,
+      expiresAt: this.nextExpiry(),
+    });
+    const saved = await this.repo.save(draft);
+    this.logger.log(`[WIZARD START] chatId: ${chatId}, userId: ${userId}`);
+    return saved;
+  }
+
+  async find(
+    chatId: string,
+    userId: string,
+  ): Promise<ScheduleDraftEntity | null> {
+    const draft = await this.repo.findOneBy({ id: this.key(chatId, userId) });
+    if (!draft) return null;
+    if (draft.expiresAt.getTime() <= Date.now()) {
+      await this.repo.delete(draft.id);
+      this.logger.debug(`[WIZARD EXPIRED] ${draft.id} (on access)`);
+      return null;
+    }
+    return draft;
+  }
+
+  async advance(
+    draft: ScheduleDraftEntity,
+    step: ScheduleDraftStep,
+    data: Partial<ScheduleDraftData> = {},
+    messageId?: number,
+  ): Promise<ScheduleDraftEntity> {
+    draft.step = step;
+    draft.data = { ...draft.data, ...data };
+    if (messageId !== undefined) draft.messageId = messageId;
+    draft.expiresAt = this.nextExpiry();
+    const saved = await this.repo.save(draft);
+    this.logger.debug(`[WIZARD STEP] ${draft.id} → ${step}`);
+    return saved;
+  }
+
+  async discard(draft: ScheduleDraftEntity): Promise<void> {
+    await this.repo.delete(draft.id);
+    this.logger.log(`[WIZARD END] ${draft.id}`);
+  }
+
+  private async expireDrafts(): Promise<void> {
+    const expired = await this.repo.findBy({
+      expiresAt: LessThanOrEqual(new Date()),
+    });
+    for (const draft of expired) {
+      // 다른 인스턴스가 먼저 지웠다면 그쪽에서 안내한다
+      const { affected } = await this.repo.delete(draft.id);
+      if (!affected) continue;
+      try {
+        await this.botService.sendMessage(
+          draft.chatId,
+          '⌛ 입력 시간이 초과되어 알림 등록이 취소되었습니다.',
+        );
+      } catch (error) {
+        this.logger.error(
+          `[WIZARD EXPIRE] Failed to notify chatId: ${draft.chatId}`,
+          (error as Error).stack,
+        );
+      }
+      this.logger.log(`[WIZARD EXPIRED] ${draft.id}`);
+    }
+  }
+
+  private key(chatId: string, userId: string): string {
+    return `${chatId}:${userId}`;
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + ScheduleWizardService.TTL_MS);
+  }
+}
@@ -0,0 +1,430 @@
+import { Update, Command, Action, On, Ctx, Next } from 'nestjs-telegraf';
+import { Context, Markup } from 'telegraf';
+import { ScheduleService } from './schedule.service.js';
+import { ScheduleWizardService } from './schedule-wizard.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
+import type { ScheduledNotificationEntity } from './entities/scheduled-notification.entity.js';
+import type {
+  ScheduleDraftEntity,
+  ScheduleDraftStep,
+} from './entities/schedule-draft.entity.js';
+import type { CreateScheduleDto } from '../common/dto/create-schedule.dto.js';
+import { parseLocalDateTime } from '../common/utils/date.util.js';
+import { escapeHtml } from '../common/utils/html.util.js';
+import { MinRole } from '../bot/permissions/min-role.decorator.js';
+
+type ScheduleType = ScheduledNotificationEntity['type'];
+
+const TYPE_LABELS: Record<ScheduleType, string> = {
+  fixed: '🔁 고정 반복',
+  manual: '📌 일회성',
+  event: '🗓 이벤트',
+};
+
+function isScheduleType(value: string | undefined): value is ScheduleType {
+  return !!value && Object.keys(TYPE_LABELS).includes(value);
+}
+
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_NAMES = ['일', '월', '화', '수', '목', '금', '토'];
+
+@Update()
+export class ScheduleWizardUpdate {
+  constructor(
+    private readonly wizard: ScheduleWizardService,
+    private readonly scheduleService: ScheduleService,
+    private readonly chatSettings: ChatSettingsService,
+  ) {}
+
+  @Command('add')
+  @MinRole('manager')
+  async onAdd(@Ctx() ctx: Context): Promise<void> {
+    const draft = await this.wizard.start(
+      String(ctx.chat!.id),
+      String(ctx.from!.id),
+    );
+
+    const sent = await ctx.reply(
+      `➕ <b>새 알림 등록</b>\n\n알림 종류를 선택하세요.`,
+      {
+        parse_mode: 'HTML',
+        ...Markup.inlineKeyboard([
+          [
+            Markup.button.callback(TYPE_LABELS.fixed, 'wz:type:fixed'),
+            Markup.button.callback(TYPE_LABELS.manual, 'wz:type:manual'),
+            Markup.button.callback(TYPE_LABELS.event, 'wz:type:event'),
+          ],
+          [Markup.button.callback('❌ 취소', 'wz:cancel')],
+        ]),
+      },
+    );
+    await this.wizard.advance(draft, 'type', {}, sent.message_id);
+  }
+
+  @Command('cancel')
+  async onCancel(@Ctx() ctx: Context): Promise<void> {
+    const draft = await this.wizard.find(
+      String(ctx.chat!.id),
+      String(ctx.from!.id),
+    );
+    if (!draft) {
+      await ctx.reply('진행 중인 알림 등록이 없습니다.');
+      return;
+    }
+    await this.wizard.discard(draft);
+    await ctx.reply('❌ 알림 등록이 취소되었습니다.');
+  }
+
+  @Action(/^wz:/)
+  @MinRole('manager')
+  async onAction(@Ctx() ctx: Context): Promise<void> {
+    const query = ctx.callbackQuery;
+    if (!query || !('data' in query)) return;
+
+    const draft = await this.wizard.find(
+      String(ctx.chat!.id),
+      String(ctx.from!.id),
+    );
+    if (!draft || query.message?.message_id !== draft.messageId) {
+      await ctx.answerCbQuery('진행 중인 등록이 없거나 만료되었습니다.');
+      return;
+    }
+
+    const [, action, value] = query.data.split(':');
+
+    switch (action) {
+      case 'cancel':
+        await this.wizard.discard(draft);
+        await ctx.editMessageText('❌ 알림 등록이 취소되었습니다.');
+        break;
+
+      case 'type': {
+        if (draft.step !== 'type' || !isScheduleType(value)) break;
+        const type = value;
+        await ctx.editMessageText(
+          `➕ <b>새 알림 등록</b>\n\n종류: ${TYPE_LABELS[type]}`,
+          { parse_mode: 'HTML' },
+        );
+        await this.prompt(ctx, draft, 'name', '알림 이름을 입력하세요.', {
+          type,
+        });
+        break;
+      }
+
+      case 'day': {
+        if (draft.step !== 'days') break;
+        const days = new Set(draft.data.days ?? []);
+        if (value === 'weekdays') {
+          days.clear();
+          [1, 2, 3, 4, 5].forEach((d) => days.add(d));
+        } else if (value === 'all') {
+          DAY_ORDER.forEach((d) => days.add(d));
+        } else {
+          const day = Number(value);
+          if (days.has(day)) days.delete(day);
+          else days.add(day);
+        }
+        const updated = await this.wizard.advance(draft, 'days', {
+          days: [...days].sort((a, b) => a - b),
+        });
+        await ctx.editMessageReplyMarkup(
+          this.daysKeyboard(updated.data.days!).reply_markup,
+        );
+        break;
+      }
+
+      case 'daysDone':
+        if (draft.step !== 'days') break;
+        if (!draft.data.days || draft.data.days.length === 0) {
+          await ctx.answerCbQuery('요일을 하나 이상 선택하세요.');
+          return;
+        }
+        await ctx.editMessageText(
+          `📆 요일: ${this.describeDays(draft.data.days)}`,
+        );
+        await this.prompt(
+          ctx,
+          draft,
+          'time',
+          '알림 시각을 입력하세요. (HH:mm, 예: 09:00)',
+        );
+        break;
+
+      case 'confirm':
+        if (draft.step !== 'confirm') break;
+        await this.complete(ctx, draft);
+        break;
+    }
+
+    await ctx.answerCbQuery();
+  }
+
+  @On('text')
+  async onText(
+    @Ctx() ctx: Context,
+    @Next() next: () => Promise<void>,
+  ): Promise<void> {
+    const message = ctx.message;
+    if (!message || !('text' in message) || message.text.startsWith('/')) {
+      return next();
+    }
+
+    const draft = await this.wizard.find(
+      String(ctx.chat!.id),
+      String(ctx.from!.id),
+    );
+    if (!draft || !['name', 'message', 'date', 'time'].includes(draft.step)) {
+      return next();
+    }
+
+    if (
+      ctx.chat?.type !== 'private' &&
+      message.reply_to_message?.message_id !== draft.messageId
+    ) {
+      return next();
+    }
+
+    const text = message.text.trim();
+
+    switch (draft.step) {
+      case 'name':
+        if (text.length > 255) {
+          await this.prompt(
+            ctx,
+            draft,
+            'name',
+            '⚠️ 이름은 255자 이내로 다시 입력하세요.',
+          );
+          return;
+        }
+        await this.prompt(
+          ctx,
+          draft,
+          'message',
+          '전송할 메시지를 입력하세요. (HTML 태그 지원)',
+          { name: text },
+        );
+        return;
+
+      case 'message':
+        if (draft.data.type === 'fixed') {
+          const days: number[] = [];
+          const sent = await ctx.reply(
+            '알림을 보낼 요일을 선택하고 [다음]을 누르세요.',
+            this.daysKeyboard(days),
+          );
+          await this.wizard.advance(
+            draft,
+            'days',
+            { message: message.text, days },
+            sent.message_id,
+          );
+        } else {
+          await this.prompt(
+            ctx,
+            draft,
+            'date',
+            '날짜를 입력하세요. (YYYY-MM-DD, 예: 2026-03-01)',
+            { message: message.text },
+          );
+        }
+        return;
+
+      case 'date':
+        if (!this.isValidDate(text)) {
+          await this.prompt(
+            ctx,
+            draft,
+            'date',
+            '⚠️ 날짜 형식이 올바르지 않습니다. YYYY-MM-DD 형식으로 다시 입력하세요.',
+          );
+          return;
+        }
+        if (draft.data.type === 'event') {
+          await this.confirm(ctx, draft, { date: text });
+        } else {
+          await this.prompt(
+            ctx,
+            draft,
+            'time',
+            '알림 시각을 입력하세요. (HH:mm, 예: 09:00)',
+            { date: text },
+          );
+        }
+        return;
+
+      case 'time': {
+        const time = this.normalizeTime(text);
+        if (!time) {
+          await this.prompt(
+            ctx,
+            draft,
+            'time',
+            '⚠️ 시각 형식이 올바르지 않습니다. HH:mm 형식으로 다시 입력하세요.',
+          );
+          return;
+        }
+        const timezone = await this.chatSettings.getTimezone(draft.chatId);
+        if (
+          draft.data.type === 'manual' &&
+          parseLocalDateTime(
+            this.toLocalIso(draft.data.date!, time),
+            timezone,
+          ).getTime() <= Date.now()
+        ) {
+          await this.prompt(
+            ctx,
+            draft,
+            'time',
+            '⚠️ 이미 지난 시각입니다. 미래 시각을 입력하세요.',
+          );
+          return;
+        }
+        await this.confirm(ctx, draft, { time });
+        return;
+      }
+    }
+  }
+
+  private async prompt(
+    ctx: Context,
+    draft: ScheduleDraftEntity,
+    step: ScheduleDraftStep,
+    text: string,
+    data: Partial<ScheduleDraftEntity['data']> = {},
+  ): Promise<void> {
+    const mention =
+      ctx.chat?.type === 'private'
+        ? ''
+        : `<a href="tg://user?id=${ctx.from!.id}">${escapeHtml(ctx.from!.first_name)}</a> `;
+    const sent = await ctx.reply(`${mention}${text}`, {
+      parse_mode: 'HTML',
+      ...Markup.forceReply().selective(),
+    });
+    await this.wizard.advance(draft, step, data, sent.message_id);
+  }
+
+  private async confirm(
+    ctx: Context,
+    draft: ScheduleDraftEntity,
+    data: Partial<ScheduleDraftEntity['data']>,
+  ): Promise<void> {
+    const merged = { ...draft.data, ...data };
+    const sent = await ctx.reply(
+      `📝 <b>입력한 내용을 확인하세요</b>\n\n` +
+        `종류: ${TYPE_LABELS[merged.type!]}\n` +
+        `이름: <b>${escapeHtml(merged.name!)}</b>\n` +
+        `시각: ${this.describeWhen(merged)}\n\n` +
+        `메시지:\n${escapeHtml(merged.message!)}`,
+      {
+        parse_mode: 'HTML',
+        ...Markup.inlineKeyboard([
+          Markup.button.callback('✅ 등록', 'wz:confirm'),
+          Markup.button.callback('❌ 취소', 'wz:cancel'),
+        ]),
+      },
+    );
+    await this.wizard.advance(draft, 'confirm', data, sent.message_id);
+  }
+
+  private async complete(
+    ctx: Context,
+    draft: ScheduleDraftEntity,
+  ): Promise<void> {
+    const { type, name, message, days, date, time } = draft.data;
+    const dto: CreateScheduleDto = {
+      type: type!,
+      name: name!,
+      message: message!,
+      chatId: draft.chatId,
+    };
+    if (type === 'fixed') {
+      const [hour, minute] = time!.split(':').map(Number);
+      dto.cron = `${minute} ${hour} * * ${this.toDowField(days!)}`;
+    } else {
+      dto.scheduledAt = this.toLocalIso(date!, time ?? '00:00');
+    }
+
+    await this.wizard.discard(draft);
+
+    try {
+      const schedule = await this.scheduleService.create(dto);
+      await ctx.editMessageText(
+        `✅ <b>알림이 등록되었습니다</b>\n\n` +
+          `${TYPE_LABELS[schedule.type]} <b>${escapeHtml(schedule.name)}</b>\n` +
+          `⏰ ${this.describeWhen(draft.data)}`,
+        { parse_mode: 'HTML' },
+      );
+    } catch (error) {
+      await ctx.editMessageText(
+        `⚠️ 알림 등록에 실패했습니다: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private daysKeyboard(selected: number[]) {
+    return Markup.inlineKeyboard([
+      DAY_ORDER.map((d) =>
+        Markup.button.callback(
+          `${selected.includes(d) ? '✅' : ''}${DAY_NAMES[d]}`,
+          `wz:day:${d}`,
+        ),
+      ),
+      [
+        Markup.button.callback('평일', 'wz:day:weekdays'),
+        Markup.button.callback('매일', 'wz:day:all'),
+      ],
+      [
+        Markup.button.callback('❌ 취소', 'wz:cancel'),
+        Markup.button.callback('다음 ▶', 'wz:daysDone'),
+      ],
+    ]);
+  }
+
+  private toDowField(days: number[]): string {
+    const sorted = [...new Set(days)].sort((a, b) => a - b);
+    if (sorted.length === 7) return '*';
+    if (sorted.join(',') === '1,2,3,4,5') return '1-5';
+    return sorted.join(',');
+  }
+
+  private describeDays(days: number[]): string {
+    const field = this.toDowField(days);
+    if (field === '*') return '매일';
+    if (field === '1-5') return '평일(월~금)';
+    return DAY_ORDER.filter((d) => days.includes(d))
+      .map((d) => DAY_NAMES[d])
+      .join(', ');
+  }
+
+  private describeWhen(data: ScheduleDraftEntity['data']): string {
+    if (data.type === 'fixed') {
+      return `${this.describeDays(data.days ?? [])} ${data.time}`;
+    }
+    if (data.type === 'event') return data.date!;
+    return `${data.date} ${data.time}`;
+  }
+
+  private isValidDate(text: string): boolean {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+    if (!match) return false;
+    const [, y, m, d] = match.map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d));
+    return (
+      date.getUTCFullYear() === y &&
+      date.getUTCMonth() === m - 1 &&
+      date.getUTCDate() === d
+    );
+  }
+
+  private normalizeTime(text: string): string | null {
+    const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(text);
+    if (!match) return null;
+    return `${match[1].padStart(2, '0')}:${match[2]}`;
+  }
+
+  /** 오프셋 없이 전달해 ScheduleService가 채팅 타임존 기준으로 해석하게 한다. */
+  private toLocalIso(date: string, time: string): string {
+    return `${date}T${time}:00`;
+  }
+}
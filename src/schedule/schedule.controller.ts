@@ -1,24 +1,61 @@
 import {
+  BadRequestException,
   Body,
   Controller,
   Delete,
   Get,
+  Header,
   Param,
   Patch,
   Post,
+  Put,
   Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
-import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import { ScheduleService } from './schedule.service.js';
+import { IcalService } from './ical.service.js';
+import { ScheduleSyncService } from './schedule-sync.service.js';
 import { CreateScheduleDto } from '../common/dto/create-schedule.dto.js';
 import { UpdateScheduleDto } from '../common/dto/update-schedule.dto.js';
+import { PreviewScheduleDto } from '../common/dto/preview-schedule.dto.js';
+import { ImportIcsDto } from '../common/dto/import-ics.dto.js';
+import { SyncSchedulesDto } from '../common/dto/sync-schedules.dto.js';
+import { DeliveryService } from '../delivery/delivery.service.js';
+import { ApiKeyService } from '../auth/api-key.service.js';
+import type { AuthenticatedApiKey } from '../auth/api-key.service.js';
+import type { Response } from 'express';
+import { CurrentApiKey } from '../auth/decorators/current-api-key.decorator.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+import { isValidTimezone } from '../common/utils/date.util.js';
+
+/** .ics 가져오기 파일 크기 한도 */
+const MAX_ICS_BYTES = 1024 * 1024;
 
 @ApiTags('schedule')
 @Controller('schedule')
 export class ScheduleController {
-  constructor(private readonly scheduleService: ScheduleService) {}
+  constructor(
+    private readonly scheduleService: ScheduleService,
+    private readonly icalService: IcalService,
+    private readonly syncService: ScheduleSyncService,
+    private readonly deliveryService: DeliveryService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
 
   @Post()
+  @Scopes('schedule:write')
   @ApiOperation({
     summary: '알림 스케줄 등록',
     description:
@@ -26,15 +63,44 @@ export class ScheduleController {
   })
   @ApiResponse({ status: 201, description: '스케줄 등록 성공' })
   @ApiResponse({ status: 400, description: '잘못된 요청' })
-  async create(@Body() dto: CreateScheduleDto) {
+  async create(
+    @Body() dto: CreateScheduleDto,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    this.apiKeyService.assertChatAllowed(apiKey, dto.chatId);
+    this.assertEscalationAllowed(apiKey, dto.escalation);
     return this.scheduleService.create(dto);
   }
 
+  @Post('preview')
+  @Scopes('schedule:read')
+  @ApiOperation({
+    summary: '메시지 템플릿 미리보기',
+    description:
+      '메시지의 {{date}}, {{week}}, {{dday:YYYY-MM-DD}} 등 변수를 지정한 시각 기준으로 치환한 결과를 반환합니다. 메시지를 발송하지 않습니다.',
+  })
+  @ApiResponse({ status: 201, description: '렌더링 결과' })
+  @ApiResponse({ status: 400, description: '잘못된 템플릿' })
+  async preview(
+    @Body() dto: PreviewScheduleDto,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    const schedule = dto.scheduleId
+      ? await this.findAccessible(dto.scheduleId, apiKey)
+      : null;
+    this.apiKeyService.assertChatAllowed(
+      apiKey,
+      dto.chatId ?? schedule?.chatId,
+    );
+    return this.scheduleService.preview(dto);
+  }
+
   @Get()
+  @Scopes('schedule:read')
   @ApiOperation({
     summary: '알림 스케줄 목록 조회',
     description:
-      '등록된 알림 스케줄 목록을 조회합니다. 수동 알림 중 시간이 지난 것은 표시되지 않습니다.',
+      '등록된 알림 스케줄 목록을 조회합니다. 시간이 지난 수동 알림과 어제 이전의 이벤트는 표시되지 않습니다.',
   })
   @ApiQuery({
     name: 'type',
@@ -51,46 +117,332 @@ export class ScheduleController {
   async findAll(
     @Query('type') type?: string,
     @Query('chatId') chatId?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    return this.findAllAccessible(type, chatId, apiKey);
+  }
+
+  @Get('export.ics')
+  @Scopes('schedule:read')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="schedules.ics"')
+  @ApiProduces('text/calendar')
+  @ApiOperation({
+    summary: '스케줄 iCalendar(.ics) 내보내기',
+    description:
+      '활성 스케줄을 VCALENDAR로 내보냅니다. 일회성 알림과 이벤트는 단일 일정, 고정 알림은 RRULE 반복 일정이 됩니다.',
+  })
+  @ApiQuery({
+    name: 'chatId',
+    required: false,
+    description: 'Chat ID 필터 (미입력 시 전체)',
+  })
+  @ApiResponse({ status: 200, description: 'text/calendar' })
+  async exportIcs(
+    @Query('chatId') chatId?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    const schedules = await this.findAllAccessible(undefined, chatId, apiKey);
+    return this.icalService.exportCalendar(schedules, chatId);
+  }
+
+  @Post('import')
+  @Scopes('schedule:write')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ICS_BYTES } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        chatId: { type: 'string' },
+        type: { type: 'string', enum: ['event', 'manual'] },
+        dryRun: { type: 'boolean', default: true },
+      },
+      required: ['file'],
+    },
+  })
+  @ApiOperation({
+    summary: 'iCalendar(.ics) 가져오기',
+    description:
+      '.ics 파일의 일정을 이벤트 또는 일회성 알림으로 등록합니다. UID가 같은 일정이 이미 있으면 건너뜁니다. 기본은 dryRun이며 결과 보고만 반환합니다.',
+  })
+  @ApiResponse({ status: 201, description: '가져오기 결과 보고' })
+  @ApiResponse({ status: 400, description: '잘못된 .ics 파일' })
+  async importIcs(
+    @Body() dto: ImportIcsDto,
+    @UploadedFile() file?: Express.Multer.File,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    if (!file) throw new BadRequestException('file 필드가 필요합니다.');
+    this.apiKeyService.assertChatAllowed(apiKey, dto.chatId);
+    return this.icalService.importCalendar(file.buffer.toString('utf8'), {
+      chatId: dto.chatId,
+      type: dto.type ?? 'event',
+      dryRun: dto.dryRun ?? true,
+    });
+  }
+
+  @Get('export')
+  @Scopes('schedule:read')
+  @ApiProduces('application/json', 'application/yaml')
+  @ApiOperation({
+    summary: '스케줄 내보내기 (JSON/YAML)',
+    description:
+      '스케줄을 slug 기준으로 정렬된 고정 형식으로 내보냅니다. 기본값과 같은 필드는 생략되므로 저장소에 넣고 diff로 관리할 수 있습니다. slug가 없는 스케줄은 unmanaged에 들어갑니다.',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['json', 'yaml'],
+    description: '출력 형식 (기본 json)',
+  })
+  @ApiQuery({
+    name: 'chatId',
+    required: false,
+    description: 'Chat ID 필터 (미입력 시 전체)',
+  })
+  @ApiQuery({
+    name: 'tag',
+    required: false,
+    description: '태그 필터 (미입력 시 전체)',
+  })
+  @ApiResponse({ status: 200, description: '스케줄 목록 파일' })
+  async export(
+    @Res({ passthrough: true }) res: Response,
+    @Query('format') format?: string,
+    @Query('chatId') chatId?: string,
+    @Query('tag') tag?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    if (format && format !== 'json' && format !== 'yaml') {
+      throw new BadRequestException('format은 json 또는 yaml입니다.');
+    }
+    if (chatId) this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    const doc = await this.syncService.export({
+      chatId,
+      tag,
+      allowedChatIds: apiKey?.allowedChatIds,
+    });
+    if (format !== 'yaml') return doc;
+    res.setHeader('Content-Type', 'application/yaml; charset=utf-8');
+    return this.syncService.exportYaml(doc);
+  }
+
+  @Put('sync')
+  @Scopes('schedule:write')
+  @ApiConsumes('application/json', 'application/yaml')
+  @ApiBody({ type: SyncSchedulesDto })
+  @ApiOperation({
+    summary: '스케줄 선언형 동기화',
+    description:
+      '원하는 스케줄 목록(내보내기와 같은 형식, JSON 또는 YAML)을 받아 범위(chatId 또는 tag) 안의 slug가 있는 스케줄과 비교하고, 생성·수정·삭제를 한 트랜잭션으로 반영합니다. 목록에 없는 스케줄은 삭제됩니다. slug가 없는 스케줄은 건드리지 않습니다.',
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    description: 'true면 반영하지 않고 변경 내역만 반환',
+  })
+  @ApiResponse({ status: 200, description: '변경 내역' })
+  @ApiResponse({ status: 400, description: '잘못된 스케줄 정의' })
+  @ApiResponse({ status: 409, description: '범위 밖 스케줄과 slug 충돌' })
+  async sync(
+    @Body() body: unknown,
+    @Query('dryRun') dryRun?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    // YAML 본문도 받으므로 전역 ValidationPipe 대신 서비스에서 검증한다
+    const dto = await this.syncService.parse(body);
+    if (dto.chatId || !dto.tag) {
+      this.apiKeyService.assertChatAllowed(apiKey, dto.chatId);
+    }
+    for (const spec of dto.schedules) {
+      this.apiKeyService.assertChatAllowed(apiKey, spec.chatId || dto.chatId);
+      this.assertEscalationAllowed(apiKey, spec.escalation);
+    }
+    return this.syncService.sync(dto, {
+      dryRun: dryRun === 'true',
+      allowedChatIds: apiKey?.allowedChatIds,
+    });
+  }
+
+  @Get('preview')
+  @Scopes('schedule:read')
+  @ApiOperation({
+    summary: 'cron 다음 실행 시각 미리보기',
+    description:
+      'cron 표현식을 검증·정규화하고 다음 실행 시각과 설명을 반환합니다. 스케줄을 저장하지 않습니다.',
+  })
+  @ApiQuery({
+    name: 'cron',
+    required: true,
+    description: 'cron 표현식 (분 시 일 월 요일, @daily 등 프리셋 가능)',
+    example: '*/30 9-18 * * MON-FRI',
+  })
+  @ApiQuery({
+    name: 'timezone',
+    required: false,
+    description: 'IANA 타임존 (미입력 시 chatId 또는 기본 채팅의 타임존)',
+  })
+  @ApiQuery({
+    name: 'chatId',
+    required: false,
+    description: '타임존을 가져올 Chat ID',
+  })
+  @ApiQuery({
+    name: 'count',
+    required: false,
+    description: '계산할 실행 시각 개수 (기본 5, 최대 50)',
+  })
+  @ApiResponse({ status: 200, description: '정규화된 cron과 다음 실행 시각' })
+  @ApiResponse({ status: 400, description: '잘못된 cron 표현식' })
+  async previewCron(
+    @Query('cron') cron?: string,
+    @Query('timezone') timezone?: string,
+    @Query('chatId') chatId?: string,
+    @Query('count') count?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
   ) {
-    return this.scheduleService.findAll(type, chatId);
+    if (!cron) throw new BadRequestException('cron이 필요합니다.');
+    if (timezone && !isValidTimezone(timezone)) {
+      throw new BadRequestException(`알 수 없는 타임존입니다: ${timezone}`);
+    }
+    if (chatId) this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    return this.scheduleService.previewCron(
+      cron,
+      count ? Math.min(Math.max(Number(count) || 5, 1), 50) : 5,
+      timezone,
+      chatId,
+    );
   }
 
   @Get(':id')
+  @Scopes('schedule:read')
   @ApiOperation({ summary: '알림 스케줄 상세 조회' })
   @ApiResponse({ status: 200, description: '스케줄 상세 정보' })
   @ApiResponse({ status: 404, description: '스케줄을 찾을 수 없음' })
-  async findOne(@Param('id') id: string) {
-    return this.scheduleService.findById(id);
+  async findOne(
+    @Param('id') id: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    return this.findAccessible(id, apiKey);
+  }
+
+  @Get(':id/deliveries')
+  @Scopes('schedule:read')
+  @ApiOperation({
+    summary: '스케줄 발송 이력 조회',
+    description:
+      '해당 스케줄의 발송 시도 이력을 최신순으로 조회합니다. 확인 버튼을 붙인 발송은 확인자(ackedBy, ackedByName, ackedAt)와 다시 알림(snoozedUntil, snoozeScheduleId)이 함께 나옵니다.',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: '최대 개수 (기본 50, 최대 1000)',
+  })
+  @ApiQuery({
+    name: 'plannedAt',
+    required: false,
+    description: '특정 발송 회차(예정 시각, ISO 8601)만 조회',
+  })
+  @ApiResponse({ status: 200, description: '발송 이력 목록' })
+  @ApiResponse({ status: 404, description: '스케줄을 찾을 수 없음' })
+  async deliveries(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+    @Query('plannedAt') plannedAt?: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    const at = plannedAt ? new Date(plannedAt) : undefined;
+    if (at && isNaN(at.getTime())) {
+      throw new BadRequestException('plannedAt은 ISO 8601 시각이어야 합니다.');
+    }
+    await this.findAccessible(id, apiKey);
+    return this.deliveryService.findBySchedule(
+      id,
+      limit ? Math.min(Math.max(Number(limit) || 50, 1), 1000) : 50,
+      at,
+    );
   }
 
   @Patch(':id')
+  @Scopes('schedule:write')
   @ApiOperation({
     summary: '알림 스케줄 수정',
     description: '스케줄의 이름, 메시지, 시간 등을 수정합니다.',
   })
   @ApiResponse({ status: 200, description: '수정 성공' })
   @ApiResponse({ status: 404, description: '스케줄을 찾을 수 없음' })
-  async update(@Param('id') id: string, @Body() dto: UpdateScheduleDto) {
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateScheduleDto,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    await this.findAccessible(id, apiKey);
+    if (dto.chatId) this.apiKeyService.assertChatAllowed(apiKey, dto.chatId);
+    this.assertEscalationAllowed(apiKey, dto.escalation);
     return this.scheduleService.update(id, dto);
   }
 
   @Delete(':id')
+  @Scopes('schedule:write')
   @ApiOperation({ summary: '알림 스케줄 삭제' })
   @ApiResponse({ status: 200, description: '삭제 성공' })
   @ApiResponse({ status: 404, description: '스케줄을 찾을 수 없음' })
-  async remove(@Param('id') id: string) {
+  async remove(
+    @Param('id') id: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    await this.findAccessible(id, apiKey);
     await this.scheduleService.delete(id);
     return { success: true, message: `스케줄 ${id} 삭제 완료` };
   }
 
   @Patch(':id/toggle')
+  @Scopes('schedule:write')
   @ApiOperation({
     summary: '알림 스케줄 활성화/비활성화 토글',
     description: '스케줄의 enabled 상태를 반전시킵니다.',
   })
   @ApiResponse({ status: 200, description: '토글 성공' })
   @ApiResponse({ status: 404, description: '스케줄을 찾을 수 없음' })
-  async toggle(@Param('id') id: string) {
+  async toggle(
+    @Param('id') id: string,
+    @CurrentApiKey() apiKey?: AuthenticatedApiKey,
+  ) {
+    await this.findAccessible(id, apiKey);
     return this.scheduleService.toggleEnabled(id);
   }
+
+  private async findAllAccessible(
+    type: string | undefined,
+    chatId: string | undefined,
+    apiKey?: AuthenticatedApiKey,
+  ) {
+    if (chatId) this.apiKeyService.assertChatAllowed(apiKey, chatId);
+    const schedules = await this.scheduleService.findAll(type, chatId);
+    const allowed = apiKey?.allowedChatIds;
+    return allowed
+      ? schedules.filter((s) => allowed.includes(s.chatId))
+      : schedules;
+  }
+
+  private async findAccessible(id: string, apiKey?: AuthenticatedApiKey) {
+    const schedule = await this.scheduleService.findById(id);
+    this.apiKeyService.assertChatAllowed(apiKey, schedule.chatId);
+    return schedule;
+  }
+
+  /** chatId를 지정한 에스컬레이션 단계도 그 채팅으로 보내므로 같은 제한을 적용한다 */
+  private assertEscalationAllowed(
+    apiKey: AuthenticatedApiKey | undefined,
+    steps?: { chatId?: string }[] | null,
+  ): void {
+    for (const step of steps ?? []) {
+      if (step.chatId)
+        this.apiKeyService.assertChatAllowed(apiKey, step.chatId);
+    }
+  }
 }
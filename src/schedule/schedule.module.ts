@@ -2,20 +2,59 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ScheduleModule as NestScheduleModule } from '@nestjs/schedule';
 import { ScheduleController } from './schedule.controller.js';
+import { ChatSettingsController } from './chat-settings.controller.js';
 import { ScheduleService } from './schedule.service.js';
 import { ScheduleStorageService } from './schedule-storage.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
 import { ScheduleBotUpdate } from './schedule-bot.update.js';
+import { ScheduleWizardService } from './schedule-wizard.service.js';
+import { ScheduleWizardUpdate } from './schedule-wizard.update.js';
+import { ScheduleRemindUpdate } from './schedule-remind.update.js';
+import { ScheduleSummaryUpdate } from './schedule-summary.update.js';
+import { ScheduleAckUpdate } from './schedule-ack.update.js';
+import { SummaryService } from './summary.service.js';
+import { EscalationService } from './escalation.service.js';
+import { IcalService } from './ical.service.js';
+import { ScheduleSyncService } from './schedule-sync.service.js';
 import { ScheduledNotificationEntity } from './entities/scheduled-notification.entity.js';
+import { ScheduleDraftEntity } from './entities/schedule-draft.entity.js';
+import { ChatSettingsEntity } from './entities/chat-settings.entity.js';
 import { BotModule } from '../bot/bot.module.js';
+import { DeliveryModule } from '../delivery/delivery.module.js';
+import { AttachmentModule } from '../attachment/attachment.module.js';
+import { HolidayModule } from '../holiday/holiday.module.js';
+import { WebhookModule } from '../webhook/webhook.module.js';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ScheduledNotificationEntity]),
+    TypeOrmModule.forFeature([
+      ScheduledNotificationEntity,
+      ScheduleDraftEntity,
+      ChatSettingsEntity,
+    ]),
     NestScheduleModule.forRoot(),
     BotModule,
+    DeliveryModule,
+    AttachmentModule,
+    HolidayModule,
+    WebhookModule,
+  ],
+  controllers: [ScheduleController, ChatSettingsController],
+  providers: [
+    ScheduleService,
+    ScheduleStorageService,
+    ChatSettingsService,
+    ScheduleBotUpdate,
+    ScheduleWizardService,
+    ScheduleWizardUpdate,
+    ScheduleRemindUpdate,
+    SummaryService,
+    ScheduleSummaryUpdate,
+    ScheduleAckUpdate,
+    EscalationService,
+    IcalService,
+    ScheduleSyncService,
   ],
-  controllers: [ScheduleController],
-  providers: [ScheduleService, ScheduleStorageService, ScheduleBotUpdate],
   exports: [ScheduleService],
 })
 export class ScheduleModule {}
@@ -3,28 +3,88 @@ import {
   Logger,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   OnModuleInit,
   OnModuleDestroy,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { CronJob } from 'cron';
 import { BotService } from '../bot/bot.service.js';
+import { DeliveryService } from '../delivery/delivery.service.js';
+import type { DeliveryEntity } from '../delivery/entities/delivery.entity.js';
+import { WebhookService } from '../webhook/webhook.service.js';
+import { AttachmentService } from '../attachment/attachment.service.js';
+import type { Attachment } from '../attachment/attachment.service.js';
 import { ScheduleStorageService } from './schedule-storage.service.js';
+import { HolidayCalendar, HolidayService } from '../holiday/holiday.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
 import { CreateScheduleDto } from '../common/dto/create-schedule.dto.js';
 import { UpdateScheduleDto } from '../common/dto/update-schedule.dto.js';
-import { ScheduledNotificationEntity } from './entities/scheduled-notification.entity.js';
+import { PreviewScheduleDto } from '../common/dto/preview-schedule.dto.js';
+import { escapeHtml } from '../common/utils/html.util.js';
+import {
+  formatTimeUntil,
+  reminderTimes,
+  resolveEventAt,
+} from './utils/event-reminder.util.js';
+import {
+  nextRecurrence,
+  recurrencesBetween,
+  recurrenceTimezone,
+} from './utils/recurrence.util.js';
+import {
+  describeCron,
+  nextCronTimes,
+  nextCronTime,
+  cronTimesBetween,
+  normalizeCron,
+  validateCron,
+} from './utils/cron.util.js';
+import {
+  hasTemplateVariable,
+  renderTemplate,
+} from '../common/utils/template.util.js';
+import {
+  HolidayPolicy,
+  ScheduledNotificationEntity,
+} from './entities/scheduled-notification.entity.js';
+import {
+  formatDateTime,
+  parseLocalDateTime,
+  toZoned,
+} from '../common/utils/date.util.js';
+
+interface ScheduleRun {
+  schedule: ScheduledNotificationEntity;
+  occurrences: Date[];
+  /** occurrences[0]의 발송 회차 ({{occurrence}}) */
+  firstOccurrence: number;
+}
 
 @Injectable()
 export class ScheduleService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(ScheduleService.name);
   private readonly defaultChatId: string;
 
-  private cronJobs = new Map<string, CronJob>();
-  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** 가장 가까운 nextRunAt에 맞춰 깨어나되, 다른 인스턴스의 변경을 반영하기 위해 최대 이 간격으로 폴링한다. */
+  private static readonly POLL_MAX_MS = 30_000;
+  private static readonly CLAIM_BATCH = 50;
+  /** 예정 시각보다 이만큼 이상 늦으면 누락(misfire)으로 보고 misfirePolicy를 적용한다. */
+  private static readonly MISFIRE_THRESHOLD_MS = 60_000;
+  /** 다시 알림으로 만든 일회성 알림의 이름·메시지 앞에 붙는다 */
+  private static readonly SNOOZE_MARK = '💤 ';
+
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private stopped = false;
 
   constructor(
     private readonly storage: ScheduleStorageService,
+    private readonly chatSettings: ChatSettingsService,
     private readonly botService: BotService,
+    private readonly deliveryService: DeliveryService,
+    private readonly attachmentService: AttachmentService,
+    private readonly holidayService: HolidayService,
+    private readonly webhookService: WebhookService,
     private readonly configService: ConfigService,
   ) {
     this.defaultChatId = this.configService.getOrThrow<string>(
@@ -33,365 +93,625 @@ export class ScheduleService implements OnModuleInit, OnModuleDestroy {
     this.logger.log(`Default chatId: ${this.defaultChatId}`);
   }
 
-  private dailySummaryJob: CronJob | null = null;
-
   async onModuleInit() {
-    await this.restoreSchedules();
-    this.startDailySummary();
+    this.holidayService.onChange((chatId) =>
+      this.refreshHolidaySchedules(chatId),
+    );
+    await this.backfillNextRunAt();
+    this.wake();
   }
 
   onModuleDestroy() {
-    this.clearAllJobs();
-    void this.dailySummaryJob?.stop();
+    this.stopped = true;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
   }
 
-  private async restoreSchedules(): Promise<void> {
+  /** nextRunAt 도입 이전에 만들어진 활성 스케줄에 다음 실행 시각을 채운다. */
+  private async backfillNextRunAt(): Promise<void> {
     const schedules = await this.storage.findAll();
     this.logger.log(`Found ${schedules.length} total schedules in DB`);
-    let restored = 0;
-    let skipped = 0;
-    let expired = 0;
+    let filled = 0;
 
     for (const schedule of schedules) {
-      if (!schedule.enabled) {
-        this.logger.debug(`Skip disabled: "${schedule.name}" (${schedule.id})`);
-        skipped++;
-        continue;
-      }
+      if (!schedule.enabled || schedule.nextRunAt) continue;
+      const nextRunAt = await this.computeNextRunAt(schedule, new Date());
+      if (!nextRunAt) continue;
+      await this.storage.update(schedule.id, { nextRunAt });
+      filled++;
+    }
 
-      if (schedule.type === 'fixed') {
-        this.startCronJob(schedule);
-        restored++;
-      } else if (schedule.type === 'manual') {
-        const scheduledTime = schedule.scheduledAt!.getTime();
-        if (scheduledTime > Date.now()) {
-          this.startTimer(schedule);
-          restored++;
-        } else {
-          await this.storage.update(schedule.id, { enabled: false });
-          this.logger.warn(
-            `Expired manual schedule disabled: "${schedule.name}"`,
-          );
-          expired++;
-        }
-      }
+    this.logger.log(`Backfill complete: ${filled} schedule(s) got nextRunAt`);
+  }
+
+  /**
+   * 회사 휴일이 추가·삭제되면 skip/shift 정책인 고정 알림의 nextRunAt을 다시 계산한다.
+   * 새 휴일에 걸린 발생은 건너뛰거나 미루고, 삭제된 휴일 때문에 건너뛴 발생은 되살린다.
+   */
+  private async refreshHolidaySchedules(chatId: string | null): Promise<void> {
+    const now = new Date();
+    const schedules = (await this.storage.findAll()).filter(
+      (s) =>
+        s.enabled &&
+        s.type === 'fixed' &&
+        s.holidayPolicy !== 'fire' &&
+        (chatId === null || s.chatId === chatId),
+    );
+
+    let changed = 0;
+    for (const schedule of schedules) {
+      // 아직 가져가지 않은 지난 발생은 그대로 두고 그 이후만 다시 계산한다
+      const from =
+        schedule.nextRunAt && schedule.nextRunAt.getTime() <= now.getTime()
+          ? new Date(schedule.nextRunAt.getTime() - 1)
+          : now;
+      const nextRunAt = await this.computeNextRunAt(schedule, from);
+      if (nextRunAt?.getTime() === schedule.nextRunAt?.getTime()) continue;
+      await this.storage.update(schedule.id, { nextRunAt });
+      changed++;
     }
 
     this.logger.log(
-      `Restore complete: ${restored} active, ${skipped} disabled, ${expired} expired`,
+      `[HOLIDAY REFRESH] chatId: ${chatId ?? 'all'} → ${changed}/${schedules.length} schedule(s) rescheduled`,
     );
+    if (changed > 0) this.wake();
   }
 
-  private clearAllJobs(): void {
-    const cronCount = this.cronJobs.size;
-    const timerCount = this.timers.size;
-    for (const job of this.cronJobs.values()) void job.stop();
-    for (const timer of this.timers.values()) clearTimeout(timer);
-    this.cronJobs.clear();
-    this.timers.clear();
-    this.logger.log(`Cleared all jobs: ${cronCount} cron, ${timerCount} timer`);
+  // ─── ENGINE ───────────────────────────────────────────
+
+  /** 즉시 due 스케줄을 확인하도록 폴링을 앞당긴다. */
+  private wake(): void {
+    this.schedulePoll(0);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (this.stopped) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    const delay = Math.min(Math.max(delayMs, 0), ScheduleService.POLL_MAX_MS);
+    this.pollTimer = setTimeout(() => void this.poll(), delay);
   }
 
-  private static readonly TIMEZONE = 'Asia/Seoul';
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    let delay = ScheduleService.POLL_MAX_MS;
 
-  private startCronJob(schedule: ScheduledNotificationEntity): void {
     try {
-      const job = new CronJob(
-        schedule.cron!,
-        async () => {
-          this.logger.log(
-            `[CRON FIRE] "${schedule.name}" → chatId: ${schedule.chatId}`,
-          );
-          await this.sendScheduledMessage(schedule);
-        },
-        null,
-        true,
-        ScheduleService.TIMEZONE,
-      );
-      this.cronJobs.set(schedule.id, job);
-      this.logger.log(
-        `[CRON START] "${schedule.name}" [${schedule.cron}] → chatId: ${schedule.chatId}`,
+      const now = new Date();
+      const runs = await this.storage.claimDue(
+        now,
+        ScheduleService.CLAIM_BATCH,
+        (schedule) => this.planRun(schedule, now),
       );
+
+      // 발송은 재시도로 오래 걸릴 수 있으므로 폴링 루프를 막지 않는다
+      for (const run of runs) void this.executeRun(run);
+
+      if (runs.length >= ScheduleService.CLAIM_BATCH) {
+        delay = 0;
+      } else {
+        const next = await this.storage.findNextRunAt();
+        if (next) delay = next.getTime() - Date.now();
+      }
     } catch (error) {
-      this.logger.error(
-        `[CRON FAIL] "${schedule.name}" [${schedule.cron}] failed to start`,
-        (error as Error).stack,
-      );
+      this.logger.error('[POLL FAIL]', (error as Error).stack);
+    } finally {
+      this.polling = false;
+      this.schedulePoll(delay);
     }
   }
 
-  private startTimer(schedule: ScheduledNotificationEntity): void {
-    const delay = schedule.scheduledAt!.getTime() - Date.now();
-    if (delay <= 0) {
-      this.logger.warn(
-        `[TIMER SKIP] "${schedule.name}" scheduledAt already passed`,
+  /**
+   * 잠금을 잡은 상태에서 호출된다. 이번에 발송할 시각 목록과
+   * 함께 커밋할 다음 실행 정보(nextRunAt 등)를 계산한다.
+   */
+  private async planRun(
+    schedule: ScheduledNotificationEntity,
+    now: Date,
+  ): Promise<{
+    update: Partial<ScheduledNotificationEntity>;
+    result: ScheduleRun;
+  }> {
+    const due = schedule.nextRunAt!;
+    let occurrences: Date[];
+    let nextRunAt: Date | null;
+
+    if (schedule.type === 'fixed') {
+      const timezone = await this.timezoneOf(schedule);
+      const calendar = await this.calendarFor(schedule);
+      // nextRunAt을 계산한 뒤 휴일이 추가됐으면 (다른 인스턴스에서 추가된 경우 등) 여기서 거른다.
+      // shift 정책이면 미룬 시각이 아래 computeNextRunAt에 다시 잡힌다.
+      const dueIsHoliday = !!calendar?.holidayOn(due, timezone);
+      occurrences = [
+        ...(dueIsHoliday ? [] : [due]),
+        ...this.enumerateOccurrences(schedule, timezone, due, now, calendar),
+      ];
+      nextRunAt = await this.computeNextRunAt(schedule, now);
+    } else if (schedule.type === 'event') {
+      const timezone = await this.timezoneOf(schedule);
+      occurrences = reminderTimes(schedule, timezone).filter(
+        (t) => t.getTime() >= due.getTime() && t.getTime() <= now.getTime(),
       );
-      return;
+      if (occurrences.length === 0) occurrences = [due];
+      nextRunAt = await this.computeNextRunAt(schedule, now);
+    } else {
+      occurrences = [due];
+      nextRunAt = null;
     }
 
-    const delayMin = Math.round(delay / 60000);
-    // eslint-disable-next-line @typescript-eslint/no-misused-promises
-    const timer = setTimeout(async () => {
+    const onTime = occurrences.filter(
+      (o) => now.getTime() - o.getTime() < ScheduleService.MISFIRE_THRESHOLD_MS,
+    );
+    const missed = occurrences.filter((o) => !onTime.includes(o));
+    const toFire = [...this.applyMisfirePolicy(schedule, missed), ...onTime];
+
+    return {
+      update: {
+        nextRunAt,
+        occurrenceCount: schedule.occurrenceCount + toFire.length,
+        ...(schedule.type === 'manual' && { enabled: false }),
+      },
+      result: {
+        schedule,
+        occurrences: toFire,
+        firstOccurrence: schedule.occurrenceCount + 1,
+      },
+    };
+  }
+
+  private async executeRun({
+    schedule,
+    occurrences,
+    firstOccurrence,
+  }: ScheduleRun): Promise<void> {
+    for (const [i, plannedAt] of occurrences.entries()) {
       this.logger.log(
-        `[TIMER FIRE] "${schedule.name}" → chatId: ${schedule.chatId}`,
+        `[FIRE] "${schedule.name}" planned ${plannedAt.toISOString()} → chatId: ${schedule.chatId}`,
       );
-      await this.sendScheduledMessage(schedule);
-      await this.storage.update(schedule.id, { enabled: false });
-      this.timers.delete(schedule.id);
-      this.logger.log(`[TIMER DONE] "${schedule.name}" fired and disabled`);
-    }, delay);
-
-    this.timers.set(schedule.id, timer);
-    this.logger.log(
-      `[TIMER START] "${schedule.name}" fires at ${schedule.scheduledAt!.toISOString()} (in ${delayMin}min) → chatId: ${schedule.chatId}`,
-    );
+      try {
+        await this.sendScheduledMessage(
+          schedule,
+          plannedAt,
+          firstOccurrence + i,
+        );
+      } catch (error) {
+        this.logger.error(
+          `[FIRE FAIL] "${schedule.name}"`,
+          (error as Error).stack,
+        );
+      }
+    }
+    if (schedule.type === 'manual') {
+      this.logger.log(`[DONE] "${schedule.name}" fired and disabled`);
+    }
   }
 
-  private stopJob(id: string): void {
-    const cronJob = this.cronJobs.get(id);
-    if (cronJob) {
-      void cronJob.stop();
-      this.cronJobs.delete(id);
-      this.logger.debug(`[CRON STOP] id: ${id}`);
+  private async computeNextRunAt(
+    schedule: ScheduledNotificationEntity,
+    from: Date,
+  ): Promise<Date | null> {
+    if (!schedule.enabled) return null;
+    if (schedule.type === 'manual') return schedule.scheduledAt;
+    if (schedule.type === 'event') {
+      const timezone = await this.timezoneOf(schedule);
+      return (
+        reminderTimes(schedule, timezone).find(
+          (t) => t.getTime() > from.getTime(),
+        ) ?? null
+      );
     }
-    const timer = this.timers.get(id);
-    if (timer) {
-      clearTimeout(timer);
-      this.timers.delete(id);
-      this.logger.debug(`[TIMER STOP] id: ${id}`);
+
+    const timezone = await this.timezoneOf(schedule);
+    const calendar = await this.calendarFor(schedule);
+    if (!calendar) return this.nextOccurrence(schedule, timezone, from);
+
+    let best: Date | null = null;
+    let cursor = this.holidayScanStart(schedule, timezone, from, calendar);
+    for (let i = 0; i < 10_000; i++) {
+      const next = this.nextOccurrence(schedule, timezone, cursor);
+      if (!next || (best && next.getTime() >= best.getTime())) break;
+      cursor = next;
+      const effective = this.applyHolidayPolicy(
+        schedule,
+        timezone,
+        next,
+        calendar,
+      );
+      if (
+        effective &&
+        effective.getTime() > from.getTime() &&
+        (!best || effective.getTime() < best.getTime())
+      ) {
+        best = effective;
+      }
     }
+    return best;
   }
 
-  private async sendScheduledMessage(
+  /** 휴일 정책을 적용하지 않은 from 이후 첫 cron/RRULE 발생 시각 */
+  private nextOccurrence(
     schedule: ScheduledNotificationEntity,
-  ): Promise<void> {
-    const chatId = schedule.chatId || this.defaultChatId;
+    timezone: string,
+    from: Date,
+  ): Date | null {
+    if (schedule.recurrence) {
+      try {
+        return nextRecurrence(schedule.recurrence, timezone, from);
+      } catch (error) {
+        this.logger.error(
+          `[RRULE FAIL] "${schedule.name}" invalid recurrence`,
+          (error as Error).stack,
+        );
+        return null;
+      }
+    }
     try {
-      await this.botService.sendMessage(chatId, schedule.message);
-      this.logger.log(`[SEND OK] "${schedule.name}" → chatId: ${chatId}`);
+      return nextCronTime(schedule.cron!, timezone, from);
     } catch (error) {
       this.logger.error(
-        `[SEND FAIL] "${schedule.name}" → chatId: ${chatId}`,
+        `[CRON FAIL] "${schedule.name}" [${schedule.cron}] invalid expression`,
         (error as Error).stack,
       );
+      return null;
     }
   }
 
-  // ─── DAILY SUMMARY ────────────────────────────────────
-
-  private startDailySummary(): void {
-    this.dailySummaryJob = new CronJob(
-      '0 8 * * *',
-      async () => {
-        this.logger.log('[DAILY SUMMARY] Triggered at 08:00 KST');
-        await this.sendDailySummary();
-      },
-      null,
-      true,
-      ScheduleService.TIMEZONE,
-    );
-    this.logger.log('[DAILY SUMMARY] Registered cron: 0 8 * * * (KST)');
+  /** 휴일 정책이 fire가 아니면 채팅의 공휴일 달력을 가져온다. */
+  private async calendarFor(
+    schedule: ScheduledNotificationEntity,
+  ): Promise<HolidayCalendar | null> {
+    if (schedule.type !== 'fixed' || schedule.holidayPolicy === 'fire') {
+      return null;
+    }
+    return this.holidayService.getCalendar(schedule.chatId);
   }
 
-  private async sendDailySummary(): Promise<void> {
-    const all = await this.storage.findAll();
-    const enabled = all.filter((s) => s.enabled);
+  /** 휴일이면 정책에 따라 null(건너뜀) 또는 다음 영업일의 같은 시각을 반환한다. */
+  private applyHolidayPolicy(
+    schedule: ScheduledNotificationEntity,
+    timezone: string,
+    at: Date,
+    calendar: HolidayCalendar,
+  ): Date | null {
+    if (!calendar.holidayOn(at, timezone)) return at;
+    return schedule.holidayPolicy === 'shift'
+      ? calendar.nextBusinessDay(at, timezone)
+      : null;
+  }
 
-    const byChatId = new Map<string, ScheduledNotificationEntity[]>();
-    for (const s of enabled) {
-      const chatId = s.chatId || this.defaultChatId;
-      if (!byChatId.has(chatId)) byChatId.set(chatId, []);
-      byChatId.get(chatId)!.push(s);
+  /**
+   * shift 정책에서는 from 이전의 휴일 발생분이 from 이후로 밀려올 수 있다.
+   * 그런 발생분은 from 직전까지 이어진 비영업일 구간(과 그 전날)에만 있으므로 거기서부터 훑는다.
+   */
+  private holidayScanStart(
+    schedule: ScheduledNotificationEntity,
+    timezone: string,
+    from: Date,
+    calendar: HolidayCalendar,
+  ): Date {
+    if (schedule.holidayPolicy !== 'shift') return from;
+    let day = toZoned(from, timezone).startOf('day');
+    for (let i = 0; i < 31; i++) {
+      const previous = day.minus({ days: 1 });
+      if (calendar.isBusinessDay(previous)) break;
+      day = previous;
     }
+    const start = day.minus({ days: 1 }).toJSDate();
+    return start.getTime() < from.getTime() ? start : from;
+  }
 
-    const now = new Date();
-    const kstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-    const todayDow = kstNow.getUTCDay();
-    const todayDate = kstNow.getUTCDate();
-    const todayMonth = kstNow.getUTCMonth() + 1;
-
-    const dayNames = ['일', '월', '화', '수', '목', '금', '토'];
-    const pad = (n: number) => String(n).padStart(2, '0');
-    const dateHeader = `${kstNow.getUTCFullYear()}-${pad(todayMonth)}-${pad(todayDate)} (${dayNames[todayDow]})`;
-
-    for (const [chatId, schedules] of byChatId) {
-      const todayAlarms: {
-        name: string;
-        time: string;
-        eventTime: string | null;
-        message: string;
-      }[] = [];
-      const todayEvents: { name: string; message: string }[] = [];
-
-      for (const s of schedules) {
-        if (s.type === 'fixed' && s.cron) {
-          if (this.cronMatchesToday(s.cron, todayDow, todayDate, todayMonth)) {
-            const parts = s.cron.trim().split(/\s+/);
-            const hour = Number(parts[1]);
-            const minute = Number(parts[0]);
-            const ampm = hour < 12 ? '오전' : '오후';
-            const h12 = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-            todayAlarms.push({
-              name: s.name,
-              time: `${ampm} ${h12}:${pad(minute)}`,
-              eventTime: s.eventTime,
-              message: this.truncateStr(s.message, 40),
-            });
-          }
-        } else if (s.type === 'manual' && s.scheduledAt) {
-          if (this.isDateToday(s.scheduledAt, kstNow)) {
-            const kstScheduled = new Date(
-              s.scheduledAt.getTime() + 9 * 60 * 60 * 1000,
-            );
-            const hour = kstScheduled.getUTCHours();
-            const minute = kstScheduled.getUTCMinutes();
-            const ampm = hour < 12 ? '오전' : '오후';
-            const h12 = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-            todayAlarms.push({
-              name: s.name,
-              time: `${ampm} ${h12}:${pad(minute)}`,
-              eventTime: s.eventTime,
-              message: this.truncateStr(s.message, 40),
-            });
-          }
-        } else if (s.type === 'event' && s.scheduledAt) {
-          if (this.isDateToday(s.scheduledAt, kstNow)) {
-            todayEvents.push({
-              name: s.name,
-              message: this.truncateStr(s.message, 40),
-            });
-          }
-        }
-      }
-
-      if (todayAlarms.length === 0 && todayEvents.length === 0) continue;
-
-      todayAlarms.sort((a, b) => a.time.localeCompare(b.time));
-
-      let text = `📆 <b>오늘의 알림 요약</b>\n`;
-      text += `📅 ${dateHeader}\n`;
-      text += `━━━━━━━━━━━━━━━━━━━━\n`;
-
-      if (todayEvents.length > 0) {
-        text += `\n🗓 <b>오늘의 이벤트</b>\n\n`;
-        text += todayEvents.map((ev) => `📌 <b>${ev.name}</b>`).join('\n');
-        text += '\n';
-      }
-
-      if (todayAlarms.length > 0) {
-        text += `\n🔔 <b>예정된 알림</b> (${todayAlarms.length}건)\n\n`;
-        text += todayAlarms
-          .map((item, i) => {
-            let line = `${i + 1}. <b>${item.name}</b>`;
-            if (item.eventTime) {
-              line += `\n   ⏰ ${this.formatHHmm(item.eventTime)}`;
-            } else {
-              line += `\n   ⏰ ${item.time}`;
-            }
-            return line;
-          })
-          .join('\n\n');
+  /**
+   * (from, to] 구간의 발송 시각. 달력이 있으면 휴일 정책을 적용한다.
+   * 너무 많으면 마지막 MAX_CATCH_UP개만 남긴다.
+   */
+  private enumerateOccurrences(
+    schedule: ScheduledNotificationEntity,
+    timezone: string,
+    from: Date,
+    to: Date,
+    calendar: HolidayCalendar | null = null,
+  ): Date[] {
+    if (!calendar) return this.enumerateRaw(schedule, timezone, from, to);
+
+    const scanStart = this.holidayScanStart(schedule, timezone, from, calendar);
+    const effective = new Map<number, Date>();
+    for (const raw of this.enumerateRaw(schedule, timezone, scanStart, to)) {
+      const at = this.applyHolidayPolicy(schedule, timezone, raw, calendar);
+      if (at && at.getTime() > from.getTime() && at.getTime() <= to.getTime()) {
+        effective.set(at.getTime(), at);
       }
+    }
+    return [...effective.values()]
+      .sort((a, b) => a.getTime() - b.getTime())
+      .slice(-ScheduleService.MAX_CATCH_UP);
+  }
 
-      const totalCount = todayAlarms.length + todayEvents.length;
-      text += `\n\n━━━━━━━━━━━━━━━━━━━━\n총 <b>${totalCount}건</b> (알림 ${todayAlarms.length}, 이벤트 ${todayEvents.length})`;
-
+  private enumerateRaw(
+    schedule: ScheduledNotificationEntity,
+    timezone: string,
+    from: Date,
+    to: Date,
+  ): Date[] {
+    if (schedule.recurrence) {
       try {
-        await this.botService.sendMessage(chatId, text);
-        this.logger.log(
-          `[DAILY SUMMARY] Sent to chatId: ${chatId} (alarms: ${todayAlarms.length}, events: ${todayEvents.length})`,
+        return recurrencesBetween(
+          schedule.recurrence,
+          timezone,
+          from,
+          to,
+          ScheduleService.MAX_CATCH_UP,
         );
       } catch (error) {
         this.logger.error(
-          `[DAILY SUMMARY] Failed to send to chatId: ${chatId}`,
+          `[RRULE FAIL] "${schedule.name}" failed to compute occurrences`,
           (error as Error).stack,
         );
+        return [];
       }
     }
+    try {
+      return cronTimesBetween(
+        schedule.cron!,
+        timezone,
+        from,
+        to,
+        ScheduleService.MAX_CATCH_UP,
+      );
+    } catch (error) {
+      this.logger.error(
+        `[CRON FAIL] "${schedule.name}" [${schedule.cron}] failed to compute occurrences`,
+        (error as Error).stack,
+      );
+      return [];
+    }
   }
 
-  private cronMatchesToday(
-    cron: string,
-    todayDow: number,
-    todayDate: number,
-    todayMonth: number,
-  ): boolean {
-    const parts = cron.trim().split(/\s+/);
-    if (parts.length < 5) return false;
+  /** 스케줄 변경 후 다음 실행 시각을 다시 계산해 저장한다. */
+  private async reschedule(
+    schedule: ScheduledNotificationEntity,
+  ): Promise<ScheduledNotificationEntity> {
+    const nextRunAt = await this.computeNextRunAt(schedule, new Date());
+    const updated = await this.storage.update(schedule.id, { nextRunAt });
+    this.logger.log(
+      `[RESCHEDULE] "${schedule.name}" next: ${nextRunAt?.toISOString() ?? 'none'}`,
+    );
+    this.wake();
+    return updated ?? schedule;
+  }
 
-    const [, , dayOfMonth, month, dayOfWeek] = parts;
+  // ─── MISFIRE ──────────────────────────────────────────
 
-    if (!this.cronFieldMatches(month, todayMonth)) return false;
-    if (!this.cronFieldMatches(dayOfMonth, todayDate)) return false;
-    if (!this.cronDowMatches(dayOfWeek, todayDow)) return false;
+  private static readonly MAX_CATCH_UP = 20;
 
-    return true;
+  private applyMisfirePolicy(
+    schedule: ScheduledNotificationEntity,
+    missed: Date[],
+  ): Date[] {
+    if (missed.length === 0) return [];
+
+    switch (schedule.misfirePolicy) {
+      case 'all':
+        return missed.slice(-ScheduleService.MAX_CATCH_UP);
+      case 'grace': {
+        const latest = missed[missed.length - 1];
+        const graceMs = schedule.misfireGraceMinutes * 60_000;
+        return Date.now() - latest.getTime() <= graceMs ? [latest] : [];
+      }
+      default:
+        this.logger.warn(
+          `[MISFIRE SKIP] "${schedule.name}" ${missed.length} occurrence(s) missed`,
+        );
+        return [];
+    }
   }
 
-  private cronFieldMatches(field: string, value: number): boolean {
-    if (field === '*') return true;
+  private formatLateness(ms: number): string {
+    const totalMinutes = Math.floor(ms / 60_000);
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+
+    const parts: string[] = [];
+    if (days > 0) parts.push(`${days}일`);
+    if (hours > 0) parts.push(`${hours}시간`);
+    if (minutes > 0 || parts.length === 0) parts.push(`${minutes}분`);
+    return parts.join(' ');
+  }
 
-    for (const part of field.split(',')) {
-      if (part.includes('/')) {
-        const [range, stepStr] = part.split('/');
-        const step = Number(stepStr);
-        if (range === '*' && value % step === 0) return true;
-      } else if (part.includes('-')) {
-        const [start, end] = part.split('-').map(Number);
-        if (value >= start && value <= end) return true;
-      } else {
-        if (Number(part) === value) return true;
-      }
-    }
-    return false;
+  private async timezoneOf(
+    schedule: ScheduledNotificationEntity,
+  ): Promise<string> {
+    return (
+      schedule.timezone ??
+      (await this.chatSettings.getTimezone(schedule.chatId))
+    );
   }
 
-  private cronDowMatches(field: string, todayDow: number): boolean {
-    if (field === '*') return true;
+  /**
+   * 확인되지 않은 발송의 다음 에스컬레이션 단계를 보낸다 (EscalationService).
+   * 최초 발송과 같은 경로로 보내며 발송 이력에 단계가 남는다.
+   */
+  async escalate(
+    schedule: ScheduledNotificationEntity,
+    root: DeliveryEntity,
+    level: number,
+  ): Promise<void> {
+    this.logger.warn(
+      `[ESCALATE] "${schedule.name}" level ${level} (delivery ${root.id})`,
+    );
+    await this.sendScheduledMessage(
+      schedule,
+      root.plannedAt,
+      schedule.occurrenceCount,
+      { level, root },
+    );
+  }
 
-    for (const part of field.split(',')) {
-      if (part.includes('-')) {
-        const [start, end] = part.split('-').map(Number);
-        if (todayDow >= start && todayDow <= end) return true;
-      } else {
-        const val = Number(part);
-        if (val === todayDow || (val === 7 && todayDow === 0)) return true;
-      }
+  private async sendScheduledMessage(
+    schedule: ScheduledNotificationEntity,
+    plannedAt: Date,
+    occurrence: number,
+    escalation?: { level: number; root: DeliveryEntity },
+  ): Promise<void> {
+    const timezone = await this.timezoneOf(schedule);
+    const originChatId = schedule.chatId || this.defaultChatId;
+    const step = escalation
+      ? schedule.escalation?.[escalation.level - 1]
+      : undefined;
+    const chatId = step?.chatId || originChatId;
+
+    let message = await this.renderMessage(schedule.message, {
+      at: plannedAt,
+      timezone,
+      chatId: originChatId,
+      occurrence,
+    });
+    if (schedule.type === 'event') {
+      const eventAt = resolveEventAt(schedule, timezone)!;
+      message =
+        `🔔 <b>${escapeHtml(schedule.name)}</b>까지 ${formatTimeUntil(eventAt.getTime() - plannedAt.getTime())} 남았습니다.\n` +
+        `📅 ${formatDateTime(eventAt, timezone)}\n\n` +
+        message;
     }
-    return false;
+    const lateMs = Date.now() - plannedAt.getTime();
+    if (escalation) {
+      message =
+        this.escalationHeader(
+          escalation.level,
+          step?.mentions ?? [],
+          Date.now() - escalation.root.sentAt.getTime(),
+          chatId === originChatId ? null : originChatId,
+        ) + message;
+    } else if (lateMs >= ScheduleService.MISFIRE_THRESHOLD_MS) {
+      message =
+        `⏰ <i>예정(${formatDateTime(plannedAt, timezone)})보다 ${this.formatLateness(lateMs)} 늦게 발송된 알림입니다.</i>\n\n` +
+        message;
+    }
+
+    await this.deliveryService.send({
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      chatId,
+      message,
+      attachments: await this.renderAttachments(schedule.attachments, {
+        at: plannedAt,
+        timezone,
+        chatId: originChatId,
+        occurrence,
+      }),
+      plannedAt,
+      ackButtons: schedule.ackButtons || !!schedule.escalation?.length,
+      ...(escalation
+        ? {
+            escalation: { level: escalation.level, rootId: escalation.root.id },
+          }
+        : { escalateAfterMinutes: schedule.escalation?.[0]?.afterMinutes }),
+    });
   }
 
-  private isDateToday(date: Date, kstNow: Date): boolean {
-    const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  private escalationHeader(
+    level: number,
+    mentions: string[],
+    elapsedMs: number,
+    originChatId: string | null,
+  ): string {
+    const tags = mentions.map((m) =>
+      m.startsWith('@') ? m : `<a href="tg://user?id=${m}">담당자</a>`,
+    );
     return (
-      kst.getUTCFullYear() === kstNow.getUTCFullYear() &&
-      kst.getUTCMonth() === kstNow.getUTCMonth() &&
-      kst.getUTCDate() === kstNow.getUTCDate()
+      `🚨 <b>확인되지 않은 알림</b> (${level}단계 · ${this.formatLateness(elapsedMs)} 경과)\n` +
+      (tags.length ? `${tags.join(' ')}\n` : '') +
+      (originChatId ? `원래 채팅: <code>${originChatId}</code>\n` : '') +
+      '\n'
     );
   }
 
-  private formatHHmm(time: string): string {
-    const [hourStr, minuteStr] = time.split(':');
-    const h = Number(hourStr);
-    const ampm = h < 12 ? '오전' : '오후';
-    const h12 = h === 0 ? 12 : h > 12 ? h - 12 : h;
-    return `${ampm} ${h12}:${minuteStr}`;
+  /** 첨부 캡션도 메시지와 같은 변수로 렌더링한다. */
+  private async renderAttachments(
+    attachments: Attachment[] | null,
+    options: Parameters<ScheduleService['renderMessage']>[1],
+  ): Promise<Attachment[]> {
+    const render = async <T extends { caption?: string }>(item: T) =>
+      item.caption
+        ? { ...item, caption: await this.renderMessage(item.caption, options) }
+        : item;
+
+    return Promise.all(
+      (attachments ?? []).map(async (a) =>
+        a.type === 'mediaGroup'
+          ? { ...a, items: await Promise.all(a.items.map(render)) }
+          : a.type === 'location'
+            ? a
+            : render(a),
+      ),
+    );
   }
 
-  private truncateStr(str: string, max: number): string {
-    const oneLine = str.replace(/\n/g, ' ');
-    return oneLine.length > max ? oneLine.slice(0, max) + '…' : oneLine;
+  private async renderMessage(
+    template: string,
+    options: {
+      at: Date;
+      timezone: string;
+      chatId: string;
+      occurrence: number;
+    },
+  ): Promise<string> {
+    // 채팅 이름은 API 호출이 필요하므로 실제로 쓰일 때만 조회한다
+    const chatTitle = hasTemplateVariable(template, 'chatTitle')
+      ? await this.botService.getChatTitle(options.chatId)
+      : null;
+    return renderTemplate(template, { ...options, chatTitle });
   }
 
   // ─── CRUD ──────────────────────────────────────────
 
-  async create(dto: CreateScheduleDto): Promise<ScheduledNotificationEntity> {
+  async create(
+    dto: CreateScheduleDto,
+    options: { icalUid?: string } = {},
+  ): Promise<ScheduledNotificationEntity> {
     this.logger.log(
       `[CREATE] type: ${dto.type}, name: "${dto.name}", chatId: ${dto.chatId || this.defaultChatId}`,
     );
+    const data = await this.prepareCreate(dto, options);
+    const schedule = await this.storage.create(data);
+    const scheduled = await this.reschedule(schedule);
+
+    this.logger.log(`[CREATE OK] "${schedule.name}" id: ${schedule.id}`);
+    await this.emitChange('schedule.created', scheduled);
+    return scheduled;
+  }
 
-    if (dto.type === 'manual' && dto.scheduledAt) {
-      if (new Date(dto.scheduledAt).getTime() <= Date.now()) {
+  /**
+   * 등록 요청을 검증하고 저장할 값을 만든다. replacing을 주면 그 스케줄을 이 값으로
+   * 덮어쓰는 경우로 보고, 예정 시각이 그대로인 지난 수동 알림과 자기 slug는 허용한다.
+   * allowPast는 지난 수동 알림을 꺼진 상태로 저장하는 호출(동기화)에서 준다.
+   */
+  async prepareCreate(
+    dto: CreateScheduleDto,
+    options: {
+      icalUid?: string;
+      replacing?: ScheduledNotificationEntity;
+      allowPast?: boolean;
+    } = {},
+  ): Promise<Partial<ScheduledNotificationEntity>> {
+    const chatId = dto.chatId || this.defaultChatId;
+    const { replacing, allowPast } = options;
+
+    const recurrenceZone = dto.recurrence
+      ? recurrenceTimezone(dto.recurrence)
+      : null;
+    const timezone =
+      dto.timezone ??
+      recurrenceZone ??
+      (await this.chatSettings.getTimezone(chatId));
+    const scheduledAt = dto.scheduledAt
+      ? parseLocalDateTime(dto.scheduledAt, timezone)
+      : null;
+
+    const unchangedAt =
+      !!replacing?.scheduledAt &&
+      replacing.scheduledAt.getTime() === scheduledAt?.getTime();
+    if (dto.type === 'manual' && scheduledAt && !unchangedAt && !allowPast) {
+      if (scheduledAt.getTime() <= Date.now()) {
         this.logger.warn(
           `[CREATE REJECT] "${dto.name}" scheduledAt is in the past: ${dto.scheduledAt}`,
         );
@@ -401,25 +721,137 @@ export class ScheduleService implements OnModuleInit, OnModuleDestroy {
       }
     }
 
-    const schedule = await this.storage.create({
+    if (dto.reminderOffsets?.length && dto.type !== 'event') {
+      throw new BadRequestException(
+        '사전 알림(reminderOffsets)은 이벤트 타입에만 설정할 수 있습니다.',
+      );
+    }
+    this.assertRecurrence(dto.type, dto.cron, dto.recurrence);
+    this.assertHolidayPolicy(dto.type, dto.holidayPolicy);
+    this.assertEscalation(dto.escalation);
+    if (dto.slug) await this.assertSlugAvailable(chatId, dto.slug, replacing);
+
+    const attachments = (dto.attachments ?? null) as Attachment[] | null;
+    if (attachments) await this.attachmentService.validate(attachments);
+
+    return {
       type: dto.type,
       name: dto.name,
       message: dto.message,
-      chatId: dto.chatId || this.defaultChatId,
+      chatId,
       enabled: true,
-      cron: dto.cron ?? null,
-      scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : null,
+      cron: dto.recurrence || !dto.cron ? null : normalizeCron(dto.cron),
+      recurrence: dto.recurrence ?? null,
+      scheduledAt,
       eventTime: (dto.eventTime as string) ?? null,
+      timezone: dto.timezone ?? recurrenceZone,
+      misfirePolicy: dto.misfirePolicy ?? 'skip',
+      misfireGraceMinutes: dto.misfireGraceMinutes ?? 60,
+      holidayPolicy: dto.holidayPolicy ?? 'fire',
+      attachments,
+      reminderOffsets: dto.reminderOffsets ?? null,
+      ackButtons: dto.ackButtons ?? false,
+      escalation: dto.escalation ?? null,
+      slug: dto.slug ?? null,
+      tags: dto.tags ?? null,
+      icalUid: options.icalUid ?? null,
+    };
+  }
+
+  /**
+   * prepareCreate로 만든 값들의 생성·수정과 삭제를 한 트랜잭션으로 반영하고,
+   * 커밋 후 바뀐 nextRunAt에 맞춰 폴링을 다시 잡는다 (선언형 동기화).
+   */
+  async applyChanges(changes: {
+    create: Partial<ScheduledNotificationEntity>[];
+    update: {
+      schedule: ScheduledNotificationEntity;
+      data: Partial<ScheduledNotificationEntity>;
+    }[];
+    remove: ScheduledNotificationEntity[];
+  }): Promise<ScheduledNotificationEntity[]> {
+    const now = new Date();
+    const withNextRunAt = async (
+      schedule: ScheduledNotificationEntity,
+      data: Partial<ScheduledNotificationEntity>,
+    ) => {
+      const merged = { ...schedule, ...data } as ScheduledNotificationEntity;
+      if (
+        merged.type === 'manual' &&
+        (!merged.scheduledAt || merged.scheduledAt.getTime() <= now.getTime())
+      ) {
+        merged.enabled = false;
+      }
+      return {
+        ...data,
+        enabled: merged.enabled,
+        nextRunAt: await this.computeNextRunAt(merged, now),
+      };
+    };
+
+    const create = await Promise.all(
+      changes.create.map((data) =>
+        withNextRunAt({} as ScheduledNotificationEntity, data),
+      ),
+    );
+    const update = await Promise.all(
+      changes.update.map(async ({ schedule, data }) => ({
+        id: schedule.id,
+        data: await withNextRunAt(schedule, data),
+      })),
+    );
+
+    const created = await this.storage.applyChanges({
+      create,
+      update,
+      remove: changes.remove.map((s) => s.id),
     });
+    this.logger.log(
+      `[APPLY OK] created: ${created.length}, updated: ${update.length}, deleted: ${changes.remove.length}`,
+    );
+    this.wake();
 
-    if (schedule.type === 'fixed') {
-      this.startCronJob(schedule);
-    } else if (schedule.type === 'manual') {
-      this.startTimer(schedule);
+    for (const schedule of created) {
+      await this.emitChange('schedule.created', schedule);
+    }
+    for (const [i, { schedule }] of changes.update.entries()) {
+      await this.emitChange('schedule.updated', {
+        ...schedule,
+        ...update[i].data,
+      });
+    }
+    for (const schedule of changes.remove) {
+      await this.emitChange('schedule.deleted', schedule);
     }
+    return created;
+  }
 
-    this.logger.log(`[CREATE OK] "${schedule.name}" id: ${schedule.id}`);
-    return schedule;
+  /**
+   * 발송된 알림을 until에 한 번 더 보내는 일회성 알림을 만든다 (다시 알림 버튼).
+   * 다시 보낸 알림에도 버튼이 붙으므로 여러 번 미룰 수 있다.
+   */
+  async snooze(
+    schedule: ScheduledNotificationEntity,
+    until: Date,
+  ): Promise<ScheduledNotificationEntity> {
+    const snoozed = schedule.name.startsWith(ScheduleService.SNOOZE_MARK);
+    return this.create({
+      type: 'manual',
+      name: snoozed
+        ? schedule.name
+        : `${ScheduleService.SNOOZE_MARK}${schedule.name}`.slice(0, 255),
+      message: snoozed
+        ? schedule.message
+        : `${ScheduleService.SNOOZE_MARK}<i>다시 알림</i>\n\n${schedule.message}`,
+      chatId: schedule.chatId,
+      scheduledAt: until.toISOString(),
+      timezone: schedule.timezone ?? undefined,
+      attachments: (schedule.attachments ??
+        undefined) as CreateScheduleDto['attachments'],
+      ackButtons: true,
+      escalation: (schedule.escalation ??
+        undefined) as CreateScheduleDto['escalation'],
+    });
   }
 
   async findAll(
@@ -427,6 +859,8 @@ export class ScheduleService implements OnModuleInit, OnModuleDestroy {
     chatId?: string,
   ): Promise<ScheduledNotificationEntity[]> {
     const all = await this.storage.findAll();
+    const chatTimezones = await this.chatSettings.getTimezoneMap();
+    const now = new Date();
 
     const filtered = all.filter((s) => {
       if (chatId && s.chatId !== chatId) return false;
@@ -439,22 +873,13 @@ export class ScheduleService implements OnModuleInit, OnModuleDestroy {
         return false;
       }
       if (s.type === 'event' && s.scheduledAt) {
-        const now = new Date();
-        const kstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-        const kstScheduled = new Date(
-          s.scheduledAt.getTime() + 9 * 60 * 60 * 1000,
-        );
-        const todayKst = Date.UTC(
-          kstNow.getUTCFullYear(),
-          kstNow.getUTCMonth(),
-          kstNow.getUTCDate(),
-        );
-        const eventKst = Date.UTC(
-          kstScheduled.getUTCFullYear(),
-          kstScheduled.getUTCMonth(),
-          kstScheduled.getUTCDate(),
-        );
-        if (eventKst !== todayKst) return false;
+        const timezone =
+          s.timezone ??
+          chatTimezones.get(s.chatId) ??
+          this.chatSettings.defaultTimezone;
+        // 오늘부터의 이벤트는 사전 알림이 남아 있으므로 보여준다
+        const eventDay = toZoned(s.scheduledAt, timezone).startOf('day');
+        if (eventDay < toZoned(now, timezone).startOf('day')) return false;
       }
       return true;
     });
@@ -483,8 +908,16 @@ export class ScheduleService implements OnModuleInit, OnModuleDestroy {
       `[UPDATE] "${existing.name}" (${id}) → ${JSON.stringify(dto)}`,
     );
 
-    if (dto.scheduledAt && existing.type === 'manual') {
-      if (new Date(dto.scheduledAt).getTime() <= Date.now()) {
+    const timezone =
+      dto.timezone ??
+      existing.timezone ??
+      (await this.chatSettings.getTimezone(dto.chatId ?? existing.chatId));
+    const scheduledAt = dto.scheduledAt
+      ? parseLocalDateTime(dto.scheduledAt, timezone)
+      : undefined;
+
+    if (scheduledAt && existing.type === 'manual') {
+      if (scheduledAt.getTime() <= Date.now()) {
         this.logger.warn(
           `[UPDATE REJECT] "${existing.name}" scheduledAt is in the past: ${dto.scheduledAt}`,
         );
@@ -494,42 +927,220 @@ export class ScheduleService implements OnModuleInit, OnModuleDestroy {
       }
     }
 
-    this.stopJob(id);
+    if (dto.reminderOffsets?.length && existing.type !== 'event') {
+      throw new BadRequestException(
+        '사전 알림(reminderOffsets)은 이벤트 타입에만 설정할 수 있습니다.',
+      );
+    }
+    if (dto.cron || dto.recurrence) {
+      this.assertRecurrence(existing.type, dto.cron, dto.recurrence);
+    }
+    this.assertHolidayPolicy(existing.type, dto.holidayPolicy);
+    this.assertEscalation(dto.escalation);
+    const slug = dto.slug ?? existing.slug;
+    if (slug && (dto.slug || dto.chatId)) {
+      await this.assertSlugAvailable(
+        dto.chatId ?? existing.chatId,
+        slug,
+        existing,
+      );
+    }
+
+    const attachments = dto.attachments as Attachment[] | undefined;
+    if (attachments) await this.attachmentService.validate(attachments);
 
-    const { scheduledAt, ...rest } = dto;
     const updateData: Partial<ScheduledNotificationEntity> = {
-      ...rest,
-      ...(scheduledAt !== undefined && { scheduledAt: new Date(scheduledAt) }),
+      ...dto,
+      // cron과 recurrence는 서로 대체한다
+      ...(dto.cron && { cron: normalizeCron(dto.cron), recurrence: null }),
+      ...(dto.recurrence && {
+        cron: null,
+        timezone:
+          dto.timezone ??
+          recurrenceTimezone(dto.recurrence) ??
+          existing.timezone,
+      }),
+      attachments,
+      scheduledAt,
     };
 
-    const updated = await this.storage.update(id, updateData);
+    let updated = await this.storage.update(id, updateData);
     if (!updated)
       throw new NotFoundException(`스케줄 ${id}을(를) 찾을 수 없습니다.`);
 
-    if (updated.enabled) {
-      if (updated.type === 'fixed') {
-        this.startCronJob(updated);
-      } else if (updated.type === 'manual') {
-        if (updated.scheduledAt && updated.scheduledAt.getTime() > Date.now()) {
-          this.startTimer(updated);
-        } else {
-          await this.storage.update(id, { enabled: false });
-          this.logger.warn(
-            `[UPDATE] "${updated.name}" auto-disabled (past scheduledAt)`,
-          );
-        }
-      }
+    if (
+      updated.enabled &&
+      updated.type === 'manual' &&
+      (!updated.scheduledAt || updated.scheduledAt.getTime() <= Date.now())
+    ) {
+      updated = (await this.storage.update(id, { enabled: false }))!;
+      this.logger.warn(
+        `[UPDATE] "${updated.name}" auto-disabled (past scheduledAt)`,
+      );
     }
+    updated = await this.reschedule(updated);
 
     this.logger.log(`[UPDATE OK] "${updated.name}" (${id})`);
+    await this.emitChange('schedule.updated', updated);
     return updated;
   }
 
+  /** 스케줄 변경을 웹훅 구독자에게 알린다 (실패해도 변경은 유지된다) */
+  private async emitChange(
+    event: 'schedule.created' | 'schedule.updated' | 'schedule.deleted',
+    schedule: ScheduledNotificationEntity,
+  ): Promise<void> {
+    await this.webhookService.emit(event, schedule.chatId, { schedule });
+  }
+
+  private assertRecurrence(
+    type: string,
+    cron: string | undefined,
+    recurrence: string | undefined,
+  ): void {
+    if (cron && recurrence) {
+      throw new BadRequestException(
+        'cron과 recurrence는 함께 지정할 수 없습니다.',
+      );
+    }
+    if (recurrence && type !== 'fixed') {
+      throw new BadRequestException(
+        '반복 규칙(recurrence)은 fixed 타입에만 설정할 수 있습니다.',
+      );
+    }
+    const cronError = cron ? validateCron(cron) : null;
+    if (cronError) throw new BadRequestException(`cron: ${cronError}`);
+  }
+
+  private assertEscalation(
+    steps?: { afterMinutes: number; chatId?: string }[],
+  ): void {
+    const invalid = steps?.find(
+      (step) => !!step.chatId && !/^-?\d+$/.test(step.chatId),
+    );
+    if (invalid) {
+      throw new BadRequestException(
+        `에스컬레이션 단계의 chatId가 올바르지 않습니다: ${invalid.chatId}`,
+      );
+    }
+    if (
+      steps?.some(
+        (step, i) => i > 0 && step.afterMinutes <= steps[i - 1].afterMinutes,
+      )
+    ) {
+      throw new BadRequestException(
+        '에스컬레이션 단계의 afterMinutes는 오름차순이어야 합니다.',
+      );
+    }
+  }
+
+  private async assertSlugAvailable(
+    chatId: string,
+    slug: string,
+    self?: ScheduledNotificationEntity,
+  ): Promise<void> {
+    const owner = await this.storage.findBySlug(chatId, slug);
+    if (owner && owner.id !== self?.id) {
+      throw new ConflictException(
+        `slug "${slug}"은(는) 이 채팅의 다른 스케줄(${owner.id})이 이미 쓰고 있습니다.`,
+      );
+    }
+  }
+
+  private assertHolidayPolicy(type: string, policy?: HolidayPolicy): void {
+    if (policy && policy !== 'fire' && type !== 'fixed') {
+      throw new BadRequestException(
+        '휴일 정책(holidayPolicy)은 fixed 타입에만 설정할 수 있습니다.',
+      );
+    }
+  }
+
   async delete(id: string): Promise<void> {
     const schedule = await this.findById(id);
-    this.stopJob(id);
     await this.storage.delete(id);
     this.logger.log(`[DELETE OK] "${schedule.name}" (${id})`);
+    await this.emitChange('schedule.deleted', schedule);
+  }
+
+  async sendTest(id: string): Promise<void> {
+    const schedule = await this.findById(id);
+    const chatId = schedule.chatId || this.defaultChatId;
+    this.logger.log(`[TEST SEND] "${schedule.name}" → chatId: ${chatId}`);
+    const options = {
+      at: new Date(),
+      timezone: await this.timezoneOf(schedule),
+      chatId,
+      occurrence: schedule.occurrenceCount + 1,
+    };
+    await this.attachmentService.send(
+      chatId,
+      await this.renderMessage(schedule.message, options),
+      await this.renderAttachments(schedule.attachments, options),
+    );
+  }
+
+  /** 템플릿을 지정한 시각 기준으로 렌더링해 보여준다 (발송하지 않음). */
+  async preview(dto: PreviewScheduleDto): Promise<{
+    at: Date;
+    timezone: string;
+    occurrence: number;
+    rendered: string;
+  }> {
+    const schedule = dto.scheduleId
+      ? await this.findById(dto.scheduleId)
+      : null;
+    const template = dto.message ?? schedule?.message;
+    if (!template) {
+      throw new BadRequestException('message 또는 scheduleId가 필요합니다.');
+    }
+
+    const chatId = dto.chatId ?? schedule?.chatId ?? this.defaultChatId;
+    const timezone =
+      dto.timezone ??
+      (schedule
+        ? await this.timezoneOf(schedule)
+        : await this.chatSettings.getTimezone(chatId));
+    const at = dto.at ? parseLocalDateTime(dto.at, timezone) : new Date();
+    const occurrence =
+      dto.occurrence ?? (schedule ? schedule.occurrenceCount + 1 : 1);
+
+    const rendered = await this.renderMessage(template, {
+      at,
+      timezone,
+      chatId,
+      occurrence,
+    });
+    return { at, timezone, occurrence, rendered };
+  }
+
+  /** cron 표현식의 다음 실행 시각 count개를 계산한다 (저장하지 않음). */
+  async previewCron(
+    cron: string,
+    count: number,
+    timezone?: string,
+    chatId?: string,
+  ): Promise<{
+    cron: string;
+    description: string;
+    timezone: string;
+    next: string[];
+  }> {
+    const error = validateCron(cron);
+    if (error) throw new BadRequestException(`cron: ${error}`);
+
+    const zone =
+      timezone ??
+      (await this.chatSettings.getTimezone(chatId || this.defaultChatId));
+    const normalized = normalizeCron(cron);
+    const next = nextCronTimes(normalized, zone, new Date(), count).map(
+      (at) => toZoned(at, zone).toISO()!,
+    );
+    return {
+      cron: normalized,
+      description: describeCron(normalized),
+      timezone: zone,
+      next,
+    };
   }
 
   async toggleEnabled(id: string): Promise<ScheduledNotificationEntity> {
@@ -539,31 +1150,47 @@ export class ScheduleService implements OnModuleInit, OnModuleDestroy {
       `[TOGGLE] "${schedule.name}" (${id}) ${schedule.enabled} → ${newEnabled}`,
     );
 
-    this.stopJob(id);
-
-    if (newEnabled) {
-      if (schedule.type === 'fixed') {
-        this.startCronJob(schedule);
-      } else if (schedule.type === 'manual') {
-        if (
-          !schedule.scheduledAt ||
-          schedule.scheduledAt.getTime() <= Date.now()
-        ) {
-          this.logger.warn(
-            `[TOGGLE REJECT] "${schedule.name}" cannot re-enable past manual schedule`,
-          );
-          throw new BadRequestException(
-            '이미 시간이 지난 수동 알림은 다시 활성화할 수 없습니다.',
-          );
-        }
-        this.startTimer(schedule);
-      }
+    if (
+      newEnabled &&
+      schedule.type === 'manual' &&
+      (!schedule.scheduledAt || schedule.scheduledAt.getTime() <= Date.now())
+    ) {
+      this.logger.warn(
+        `[TOGGLE REJECT] "${schedule.name}" cannot re-enable past manual schedule`,
+      );
+      throw new BadRequestException(
+        '이미 시간이 지난 수동 알림은 다시 활성화할 수 없습니다.',
+      );
     }
 
-    const result = await this.storage.update(id, { enabled: newEnabled });
+    const toggled = await this.storage.update(id, { enabled: newEnabled });
+    const result = await this.reschedule(toggled!);
     this.logger.log(
       `[TOGGLE OK] "${schedule.name}" now ${newEnabled ? 'enabled' : 'disabled'}`,
     );
-    return result!;
+    await this.emitChange('schedule.updated', result);
+    return result;
+  }
+
+  async setChatTimezone(chatId: string, timezone: string): Promise<void> {
+    await this.chatSettings.update(chatId, { timezone });
+
+    const schedules = await this.storage.findAll();
+    let restarted = 0;
+    for (const schedule of schedules) {
+      if (
+        schedule.chatId !== chatId ||
+        schedule.type === 'manual' ||
+        !schedule.enabled ||
+        schedule.timezone
+      ) {
+        continue;
+      }
+      await this.reschedule(schedule);
+      restarted++;
+    }
+    this.logger.log(
+      `[TIMEZONE] chatId: ${chatId} → ${timezone} (${restarted} rescheduled)`,
+    );
   }
 }
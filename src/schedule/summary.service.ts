@@ -0,0 +1,438 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronJob } from 'cron';
+import { DateTime } from 'luxon';
+import { BotService } from '../bot/bot.service.js';
+import { HolidayCalendar, HolidayService } from '../holiday/holiday.service.js';
+import { ScheduleStorageService } from './schedule-storage.service.js';
+import { ChatSettingsService } from './chat-settings.service.js';
+import {
+  ChatSettingsEntity,
+  DEFAULT_SUMMARY_SETTINGS,
+} from './entities/chat-settings.entity.js';
+import type { ScheduledNotificationEntity } from './entities/scheduled-notification.entity.js';
+import { cronTimesOnDay } from './utils/cron.util.js';
+import { escapeHtml } from '../common/utils/html.util.js';
+import { recurrencesOnDay } from './utils/recurrence.util.js';
+import {
+  DAY_NAMES,
+  formatClock,
+  formatHHmm,
+  isSameLocalDate,
+  toZoned,
+} from '../common/utils/date.util.js';
+
+type SummarySettings = Pick<
+  ChatSettingsEntity,
+  keyof typeof DEFAULT_SUMMARY_SETTINGS | 'timezone'
+>;
+
+interface SummaryAlarm {
+  name: string;
+  time: string;
+  /** 정렬용 (현지 자정부터의 분) */
+  minutes: number;
+}
+
+interface DaySummary {
+  date: DateTime;
+  holiday: string | null;
+  alarms: SummaryAlarm[];
+  events: { name: string }[];
+  suppressed: { name: string; time: string; shifted: boolean }[];
+}
+
+const DIVIDER = '━━━━━━━━━━━━━━━━━━━━';
+
+/** 채팅별 설정에 따라 일일 요약과 주간 요약을 보낸다. */
+@Injectable()
+export class SummaryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SummaryService.name);
+  private readonly defaultChatId: string;
+
+  /** 확인이 늦어져도 설정 시각부터 이 시간 안이면 보낸다 (같은 날 중복은 DB 선점으로 막는다) */
+  private static readonly SEND_WINDOW_MINUTES = 15;
+
+  private job: CronJob | null = null;
+
+  constructor(
+    private readonly storage: ScheduleStorageService,
+    private readonly chatSettings: ChatSettingsService,
+    private readonly holidayService: HolidayService,
+    private readonly botService: BotService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultChatId = this.configService.getOrThrow<string>(
+      'TELEGRAM_DEFAULT_CHAT_ID',
+    );
+  }
+
+  onModuleInit() {
+    // 채팅마다 타임존과 발송 시각이 달라 매분 확인한다
+    this.job = new CronJob(
+      '* * * * *',
+      async () => {
+        await this.tick(new Date());
+      },
+      null,
+      true,
+      'UTC',
+    );
+    this.logger.log(
+      '[SUMMARY] Registered check: * * * * * (per chat settings)',
+    );
+  }
+
+  onModuleDestroy() {
+    void this.job?.stop();
+  }
+
+  /** 지금 시각 기준 일일 요약 (미리보기용, 발송 기록을 남기지 않는다) */
+  async renderDaily(chatId: string, now = new Date()): Promise<string> {
+    const settings = await this.chatSettings.get(chatId);
+    const text = await this.buildDaily(
+      chatId,
+      await this.schedulesOf(chatId),
+      settings,
+      now,
+      true,
+    );
+    return text!;
+  }
+
+  /** 지금 시각 기준 주간 요약 (미리보기용) */
+  async renderWeekly(chatId: string, now = new Date()): Promise<string> {
+    const settings = await this.chatSettings.get(chatId);
+    return this.buildWeekly(
+      chatId,
+      await this.schedulesOf(chatId),
+      settings,
+      now,
+    );
+  }
+
+  private async tick(now: Date): Promise<void> {
+    let all: ScheduledNotificationEntity[];
+    let settingsList: ChatSettingsEntity[];
+    try {
+      [all, settingsList] = await Promise.all([
+        this.storage.findAll(),
+        this.chatSettings.findAll(),
+      ]);
+    } catch (error) {
+      this.logger.error('[SUMMARY] Failed to load', (error as Error).stack);
+      return;
+    }
+
+    const byChatId = new Map<string, ScheduledNotificationEntity[]>();
+    for (const s of all) {
+      if (!s.enabled) continue;
+      const chatId = s.chatId || this.defaultChatId;
+      if (!byChatId.has(chatId)) byChatId.set(chatId, []);
+      byChatId.get(chatId)!.push(s);
+    }
+    const settingsByChat = new Map(settingsList.map((s) => [s.chatId, s]));
+
+    // 알림이 없는 채팅도 빈 날 안내나 주간 요약을 켰으면 대상이다
+    const chatIds = new Set(byChatId.keys());
+    for (const s of settingsList) {
+      if (s.summarySendEmpty || s.digestEnabled) chatIds.add(s.chatId);
+    }
+
+    for (const chatId of chatIds) {
+      const settings: SummarySettings = settingsByChat.get(chatId) ?? {
+        ...DEFAULT_SUMMARY_SETTINGS,
+        timezone: null,
+      };
+      const schedules = byChatId.get(chatId) ?? [];
+      const timezone = settings.timezone ?? this.chatSettings.defaultTimezone;
+      const localNow = toZoned(now, timezone);
+      const localDate = localNow.toFormat('yyyy-MM-dd');
+
+      try {
+        if (
+          settings.summaryEnabled &&
+          this.isDue(localNow, settings.summaryTime) &&
+          (await this.chatSettings.claimDailySummary(chatId, localDate))
+        ) {
+          this.logger.log(
+            `[DAILY SUMMARY] Triggered for chatId: ${chatId} (${settings.summaryTime} ${timezone})`,
+          );
+          const text = await this.buildDaily(
+            chatId,
+            schedules,
+            settings,
+            now,
+            settings.summarySendEmpty,
+          );
+          if (text) {
+            await this.botService.sendMessage(chatId, text, undefined, 'bulk');
+            this.logger.log(`[DAILY SUMMARY] Sent to chatId: ${chatId}`);
+          }
+        }
+
+        if (
+          settings.digestEnabled &&
+          localNow.weekday % 7 === settings.digestDay &&
+          this.isDue(localNow, settings.digestTime) &&
+          (await this.chatSettings.claimWeeklyDigest(chatId, localDate))
+        ) {
+          const text = await this.buildWeekly(chatId, schedules, settings, now);
+          await this.botService.sendMessage(chatId, text, undefined, 'bulk');
+          this.logger.log(`[WEEKLY DIGEST] Sent to chatId: ${chatId}`);
+        }
+      } catch (error) {
+        this.logger.error(
+          `[SUMMARY] Failed for chatId: ${chatId}`,
+          (error as Error).stack,
+        );
+      }
+    }
+  }
+
+  private isDue(localNow: DateTime, time: string): boolean {
+    const [hour, minute] = time.split(':').map(Number);
+    const elapsed = localNow.hour * 60 + localNow.minute - (hour * 60 + minute);
+    return elapsed >= 0 && elapsed < SummaryService.SEND_WINDOW_MINUTES;
+  }
+
+  private async schedulesOf(
+    chatId: string,
+  ): Promise<ScheduledNotificationEntity[]> {
+    const all = await this.storage.findAll();
+    return all.filter(
+      (s) => s.enabled && (s.chatId || this.defaultChatId) === chatId,
+    );
+  }
+
+  /** 보낼 내용이 없고 sendEmpty가 아니면 null */
+  private async buildDaily(
+    chatId: string,
+    schedules: ScheduledNotificationEntity[],
+    settings: SummarySettings,
+    now: Date,
+    sendEmpty: boolean,
+  ): Promise<string | null> {
+    const timezone = settings.timezone ?? this.chatSettings.defaultTimezone;
+    const calendar = await this.holidayService.getCalendar(chatId);
+    const localNow = toZoned(now, timezone);
+
+    const today = this.collectDay(schedules, timezone, calendar, localNow);
+    const tomorrow = settings.summaryIncludeTomorrow
+      ? this.collectDay(
+          schedules,
+          timezone,
+          calendar,
+          localNow.plus({ days: 1 }),
+        )
+      : null;
+
+    const todayEmpty = this.isEmpty(today);
+    const tomorrowEmpty = !tomorrow || this.isEmpty(tomorrow);
+    if (todayEmpty && tomorrowEmpty && !sendEmpty) return null;
+
+    let text = `📆 <b>오늘의 알림 요약</b>\n`;
+    text += `📅 ${this.formatDay(today.date)}\n`;
+    text += `${DIVIDER}\n`;
+
+    if (today.holiday) {
+      text += `\n🎌 오늘은 <b>${escapeHtml(today.holiday)}</b>입니다.\n`;
+    }
+
+    if (todayEmpty) {
+      text += `\n📭 오늘은 예정된 알림이 없습니다.\n`;
+    }
+
+    if (today.events.length > 0) {
+      text += `\n🗓 <b>오늘의 이벤트</b>\n\n`;
+      text += today.events
+        .map((ev) => `📌 <b>${escapeHtml(ev.name)}</b>`)
+        .join('\n');
+      text += '\n';
+    }
+
+    if (today.alarms.length > 0) {
+      text += `\n🔔 <b>예정된 알림</b> (${today.alarms.length}건)\n\n`;
+      text += today.alarms
+        .map(
+          (item, i) =>
+            `${i + 1}. <b>${escapeHtml(item.name)}</b>\n   ⏰ ${item.time}`,
+        )
+        .join('\n\n');
+    }
+
+    if (today.suppressed.length > 0) {
+      text += `\n\n🔕 <b>휴일이라 쉬는 알림</b> (${today.suppressed.length}건)\n\n`;
+      text += today.suppressed
+        .map(
+          (item) =>
+            `• ${escapeHtml(item.name)} (${item.time}) → ${item.shifted ? '다음 영업일로 이동' : '건너뜀'}`,
+        )
+        .join('\n');
+    }
+
+    if (tomorrow) {
+      text += `\n\n🌅 <b>내일</b> ${this.formatDay(tomorrow.date)}`;
+      if (tomorrow.holiday) text += ` 🎌 ${escapeHtml(tomorrow.holiday)}`;
+      text += '\n\n';
+      text += tomorrowEmpty
+        ? '예정된 알림이 없습니다.'
+        : this.formatDayLines(tomorrow).join('\n');
+    }
+
+    const totalCount = today.alarms.length + today.events.length;
+    text += `\n\n${DIVIDER}\n총 <b>${totalCount}건</b> (알림 ${today.alarms.length}, 이벤트 ${today.events.length})`;
+    return text;
+  }
+
+  private async buildWeekly(
+    chatId: string,
+    schedules: ScheduledNotificationEntity[],
+    settings: SummarySettings,
+    now: Date,
+  ): Promise<string> {
+    const timezone = settings.timezone ?? this.chatSettings.defaultTimezone;
+    const calendar = await this.holidayService.getCalendar(chatId);
+    const localNow = toZoned(now, timezone);
+
+    const days = Array.from({ length: 7 }, (_, i) =>
+      this.collectDay(
+        schedules,
+        timezone,
+        calendar,
+        localNow.plus({ days: i }),
+      ),
+    );
+
+    let text = `🗓 <b>주간 알림 요약</b>\n`;
+    text += `📅 ${this.formatDay(days[0].date)} ~ ${this.formatDay(days[6].date)}\n`;
+    text += `${DIVIDER}\n`;
+
+    const busyDays = days.filter((day) => !this.isEmpty(day) || day.holiday);
+    if (busyDays.length === 0) {
+      return text + `\n📭 이번 주는 예정된 알림이 없습니다.`;
+    }
+
+    for (const day of busyDays) {
+      text += `\n<b>${day.date.toFormat('M/d')} (${DAY_NAMES[day.date.weekday % 7]})</b>`;
+      if (day.holiday) text += ` 🎌 ${escapeHtml(day.holiday)}`;
+      text += '\n';
+      const lines = this.formatDayLines(day);
+      if (lines.length > 0) text += lines.join('\n') + '\n';
+    }
+
+    const alarmCount = days.reduce((sum, d) => sum + d.alarms.length, 0);
+    const eventCount = days.reduce((sum, d) => sum + d.events.length, 0);
+    text += `\n${DIVIDER}\n총 <b>${alarmCount + eventCount}건</b> (알림 ${alarmCount}, 이벤트 ${eventCount})`;
+    return text;
+  }
+
+  private formatDayLines(day: DaySummary): string[] {
+    return [
+      ...day.events.map((ev) => `📌 ${escapeHtml(ev.name)}`),
+      ...day.alarms.map((item) => `• ${item.time} ${escapeHtml(item.name)}`),
+      ...day.suppressed.map(
+        (item) =>
+          `🔕 ${item.time} ${escapeHtml(item.name)} (${item.shifted ? '다음 영업일로 이동' : '휴일 건너뜀'})`,
+      ),
+    ];
+  }
+
+  /** day: 채팅 타임존 기준 그 날의 한 시점 */
+  private collectDay(
+    schedules: ScheduledNotificationEntity[],
+    chatTimezone: string,
+    calendar: HolidayCalendar,
+    day: DateTime,
+  ): DaySummary {
+    const at = day.toJSDate();
+    const summary: DaySummary = {
+      date: day,
+      holiday: calendar.holidayOn(at, chatTimezone),
+      alarms: [],
+      events: [],
+      suppressed: [],
+    };
+
+    for (const s of schedules) {
+      const timezone = s.timezone ?? chatTimezone;
+      const zoneLabel = timezone !== chatTimezone ? ` (${timezone})` : '';
+
+      if (s.type === 'fixed') {
+        let times: Date[] = [];
+        try {
+          if (s.recurrence) {
+            times = recurrencesOnDay(s.recurrence, timezone, at);
+          } else if (s.cron) {
+            times = cronTimesOnDay(s.cron, timezone, at);
+          }
+        } catch {
+          continue;
+        }
+        if (times.length === 0) continue;
+
+        const first = toZoned(times[0], timezone);
+        const more = times.length > 1 ? ` 외 ${times.length - 1}회` : '';
+        const time = formatClock(first.hour, first.minute) + more + zoneLabel;
+
+        if (s.holidayPolicy !== 'fire' && calendar.holidayOn(at, timezone)) {
+          summary.suppressed.push({
+            name: s.name,
+            time,
+            shifted: s.holidayPolicy === 'shift',
+          });
+        } else {
+          summary.alarms.push(this.toAlarm(s, time, first));
+        }
+      } else if (s.type === 'manual' && s.scheduledAt) {
+        if (isSameLocalDate(s.scheduledAt, at, timezone)) {
+          const scheduled = toZoned(s.scheduledAt, timezone);
+          const time =
+            formatClock(scheduled.hour, scheduled.minute) + zoneLabel;
+          summary.alarms.push(this.toAlarm(s, time, scheduled));
+        }
+      } else if (s.type === 'event' && s.scheduledAt) {
+        if (isSameLocalDate(s.scheduledAt, at, timezone)) {
+          summary.events.push({ name: s.name });
+        }
+      }
+    }
+
+    summary.alarms.sort((a, b) => a.minutes - b.minutes);
+    return summary;
+  }
+
+  /** eventTime이 있으면 발송 시각 대신 실제 이벤트 시각을 보여준다. */
+  private toAlarm(
+    s: ScheduledNotificationEntity,
+    time: string,
+    at: DateTime,
+  ): SummaryAlarm {
+    if (s.eventTime) {
+      const [hour, minute] = s.eventTime.split(':').map(Number);
+      return {
+        name: s.name,
+        time: formatHHmm(s.eventTime),
+        minutes: hour * 60 + minute,
+      };
+    }
+    return { name: s.name, time, minutes: at.hour * 60 + at.minute };
+  }
+
+  private isEmpty(day: DaySummary): boolean {
+    return (
+      day.alarms.length === 0 &&
+      day.events.length === 0 &&
+      day.suppressed.length === 0
+    );
+  }
+
+  private formatDay(day: DateTime): string {
+    return `${day.toFormat('yyyy-MM-dd')} (${DAY_NAMES[day.weekday % 7]})`;
+  }
+}
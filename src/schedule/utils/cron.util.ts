@@ -0,0 +1,436 @@
+import { DateTime } from 'luxon';
+import { formatClock, toZoned } from '../../common/utils/date.util.js';
+
+/**
+ * 5필드 cron(분 시 일 월 요일) 해석·검증·설명.
+ *
+ * 실행 엔진, 일일 요약, 봇 목록이 모두 이 모듈을 쓴다. 일과 요일이 둘 다 지정되면
+ * 표준 cron처럼 둘 중 하나만 맞아도 실행한다 (`0 9 13 * 5` = 매월 13일 또는 금요일).
+ */
+
+export interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0=일요일 (7도 일요일로 받는다) */
+  daysOfWeek: number[];
+  /** `*`로 시작하지 않는 일/요일 필드. 둘 다 true면 OR로 판단한다. */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const DOW_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const DAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const FIELD_SPECS: FieldSpec[] = [
+  { label: '분', min: 0, max: 59 },
+  { label: '시', min: 0, max: 23 },
+  { label: '일', min: 1, max: 31 },
+  { label: '월', min: 1, max: 12, names: MONTH_NAMES },
+  { label: '요일', min: 0, max: 7, names: DOW_NAMES },
+];
+
+const PRESETS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const USAGE = '형식: 분 시 일 월 요일 (예: "0 9 * * 1-5" = 평일 09:00)';
+
+/** 각 월의 최대 일수 (윤년 2월 포함) */
+const MAX_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/** 다음 실행 시각을 찾을 때 살펴보는 최대 일수 */
+const SEARCH_DAYS = 366 * 5;
+/** 구간의 실행 시각을 셀 때 훑는 최대 개수 */
+const MAX_SCAN = 10_000;
+/** 서머타임 전환으로 현지 시각이 밀리는 최대 폭(분) */
+const DST_MARGIN_MINUTES = 60;
+
+export class CronParseError extends Error {}
+
+/** 프리셋을 펼치고 공백·이름(MON, JAN)을 숫자로 정리한다. 잘못된 식이면 CronParseError. */
+export function normalizeCron(expression: string): string {
+  const parts = splitCron(expression);
+  parseParts(parts);
+  return parts
+    .map((part, i) => {
+      const names = FIELD_SPECS[i].names;
+      if (part === '?') return '*';
+      if (!names) return part;
+      return part
+        .toUpperCase()
+        .replace(/[A-Z]{3}/g, (name) =>
+          String(names.indexOf(name) + FIELD_SPECS[i].min),
+        );
+    })
+    .join(' ');
+}
+
+export function parseCron(expression: string): CronFields {
+  return parseParts(splitCron(expression));
+}
+
+/** 오류 메시지를 반환한다. 유효하면 null. */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    if (error instanceof CronParseError) return error.message;
+    throw error;
+  }
+}
+
+/** from 이후(초과) 첫 실행 시각. 5년 안에 없으면 null. */
+export function nextCronTime(
+  expression: string,
+  timezone: string,
+  from: Date,
+): Date | null {
+  return nextCronTimes(expression, timezone, from, 1)[0] ?? null;
+}
+
+/** from 이후 count개의 실행 시각 */
+export function nextCronTimes(
+  expression: string,
+  timezone: string,
+  from: Date,
+  count: number,
+): Date[] {
+  const times: Date[] = [];
+  if (count <= 0) return times;
+  for (const at of cronTimesAfter(parseCron(expression), timezone, from)) {
+    times.push(at);
+    if (times.length >= count) break;
+  }
+  return times;
+}
+
+/**
+ * (from, to] 구간의 실행 시각. limit개를 넘으면 마지막 limit개만 반환한다.
+ * 식은 한 번만 해석하고, 최대 MAX_SCAN개까지만 훑는다.
+ */
+export function cronTimesBetween(
+  expression: string,
+  timezone: string,
+  from: Date,
+  to: Date,
+  limit: number,
+): Date[] {
+  const times: Date[] = [];
+  let scanned = 0;
+  for (const at of cronTimesAfter(parseCron(expression), timezone, from)) {
+    if (at.getTime() > to.getTime() || ++scanned > MAX_SCAN) break;
+    times.push(at);
+    if (times.length > limit) times.shift();
+  }
+  return times;
+}
+
+/**
+ * from 이후(초과) 실행 시각을 순서대로 만든다.
+ * 첫날은 from의 현지 시각보다 앞선 시·분을 건너뛰어 그날의 모든 시각을 만들지 않는다.
+ * 서머타임이 바뀌는 날은 건너뛴 시각이 뒤로 밀리므로 DST_MARGIN_MINUTES만큼 여유를 둔다.
+ */
+function* cronTimesAfter(
+  fields: CronFields,
+  timezone: string,
+  from: Date,
+): Generator<Date> {
+  const start = toZoned(from, timezone);
+  let day = start.startOf('day');
+  const startMinute =
+    start.hour * 60 +
+    start.minute -
+    (day.offset !== day.endOf('day').offset ? DST_MARGIN_MINUTES : 0);
+  let last = -Infinity;
+
+  for (let i = 0; i < SEARCH_DAYS; i++, day = day.plus({ days: 1 })) {
+    if (!cronMatchesDay(fields, day)) continue;
+    const skipBefore = i === 0 ? startMinute : -Infinity;
+    for (const hour of fields.hours) {
+      if ((hour + 1) * 60 <= skipBefore) continue;
+      for (const minute of fields.minutes) {
+        if (hour * 60 + minute < skipBefore) continue;
+        const at = day.set({ hour, minute }).toMillis();
+        // 같은 시각이 두 번 나올 수 있다 (서머타임)
+        if (at <= from.getTime() || at <= last) continue;
+        last = at;
+        yield new Date(at);
+      }
+    }
+  }
+}
+
+/** 해당 현지 날짜의 실행 시각 목록 */
+export function cronTimesOnDay(
+  expression: string,
+  timezone: string,
+  day: Date,
+): Date[] {
+  const fields = parseCron(expression);
+  const local = toZoned(day, timezone).startOf('day');
+  return cronMatchesDay(fields, local) ? timesOnDay(fields, local) : [];
+}
+
+export function cronMatchesDay(fields: CronFields, day: DateTime): boolean {
+  if (!fields.months.includes(day.month)) return false;
+  const dom = fields.daysOfMonth.includes(day.day);
+  const dow = fields.daysOfWeek.includes(day.weekday % 7);
+  if (fields.domRestricted && fields.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/** 예: "평일(월~금) 오전 9:00", "매월 1일 오전 9:00", "매일 15분마다" */
+export function describeCron(expression: string): string {
+  let fields: CronFields;
+  try {
+    fields = parseCron(expression);
+  } catch {
+    return expression;
+  }
+  const [minuteField, hourField] = splitCron(expression);
+  const days = describeDays(fields);
+  const times = describeTimes(fields, minuteField, hourField);
+  // "매일 매시 정각" → "매시 정각"
+  return days === '매일' && times.startsWith('매') ? times : `${days} ${times}`;
+}
+
+/** 날짜 부분만. 예: "평일(월~금)", "매주 월·수요일", "매월 13일 또는 매주 금요일" */
+export function describeCronDays(expression: string): string {
+  try {
+    return describeDays(parseCron(expression));
+  } catch {
+    return expression;
+  }
+}
+
+function splitCron(expression: string): string[] {
+  const trimmed = expression.trim();
+  const expanded = PRESETS[trimmed.toLowerCase()] ?? trimmed;
+  if (expanded.startsWith('@')) {
+    throw new CronParseError(
+      `알 수 없는 cron 프리셋 "${trimmed}"입니다. (${Object.keys(PRESETS).join(', ')})`,
+    );
+  }
+  const parts = expanded.split(/\s+/).filter(Boolean);
+  if (parts.length !== 5) {
+    throw new CronParseError(
+      `cron은 5개 필드여야 합니다 (현재 ${parts.length}개). ${USAGE}`,
+    );
+  }
+  return parts;
+}
+
+function parseParts(parts: string[]): CronFields {
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, i) => parseField(part, FIELD_SPECS[i]),
+  );
+  const fields: CronFields = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: [...new Set(daysOfWeek.map((d) => d % 7))].sort(
+      (a, b) => a - b,
+    ),
+    domRestricted: !/^[*?]/.test(parts[2]),
+    dowRestricted: !/^[*?]/.test(parts[4]),
+  };
+
+  // 요일로 실행되지 않는 한, 모든 달에서 없는 날짜(2월 30일 등)면 실행되지 않는다
+  if (
+    !fields.dowRestricted &&
+    !fields.months.some((m) =>
+      fields.daysOfMonth.some((d) => d <= MAX_DAYS[m - 1]),
+    )
+  ) {
+    throw new CronParseError(
+      `cron "${parts.join(' ')}"은(는) 존재하지 않는 날짜라 실행되지 않습니다.`,
+    );
+  }
+  return fields;
+}
+
+function parseField(field: string, spec: FieldSpec): number[] {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const fail = (reason: string) =>
+      new CronParseError(`${spec.label} 필드 "${part}": ${reason} ${USAGE}`);
+
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || !range) throw fail('형식이 잘못되었습니다.');
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) < 1) {
+        throw fail('간격(/ 뒤)은 1 이상의 정수여야 합니다.');
+      }
+      step = Number(stepText);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.label === '요일' ? 6 : spec.max;
+    } else {
+      const [startText, endText, rest] = range.split('-');
+      if (rest !== undefined) throw fail('범위 형식이 잘못되었습니다.');
+      start = parseValue(startText, spec, fail);
+      end =
+        endText !== undefined
+          ? parseValue(endText, spec, fail)
+          : stepText !== undefined
+            ? spec.max
+            : start;
+      if (start > end) {
+        throw fail(`범위의 시작(${start})이 끝(${end})보다 큽니다.`);
+      }
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseValue(
+  text: string,
+  spec: FieldSpec,
+  fail: (reason: string) => CronParseError,
+): number {
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) return nameIndex + spec.min;
+  if (!/^\d+$/.test(text)) {
+    throw fail(
+      spec.names
+        ? `숫자 또는 ${spec.names[0]}~${spec.names[spec.names.length - 1]} 이름이어야 합니다.`
+        : '숫자여야 합니다.',
+    );
+  }
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) {
+    throw fail(`${spec.min}~${spec.max} 범위여야 합니다.`);
+  }
+  return value;
+}
+
+function timesOnDay(fields: CronFields, day: DateTime): Date[] {
+  const times: Date[] = [];
+  for (const hour of fields.hours) {
+    for (const minute of fields.minutes) {
+      const at = day.set({ hour, minute });
+      // 서머타임으로 건너뛴 시각은 뒤로 밀리므로 같은 시각이 두 번 나올 수 있다
+      const date = at.toJSDate();
+      if (times[times.length - 1]?.getTime() !== date.getTime()) {
+        times.push(date);
+      }
+    }
+  }
+  return times;
+}
+
+function describeDays(fields: CronFields): string {
+  const allMonths = fields.months.length === 12;
+  const monthPrefix = allMonths
+    ? ''
+    : `${fields.months.map((m) => `${m}월`).join(', ')} `;
+
+  const dom = describeList(fields.daysOfMonth, (d) => `${d}일`);
+  const dow = describeWeekdays(fields.daysOfWeek);
+
+  if (fields.domRestricted && fields.dowRestricted) {
+    return `${allMonths ? '매월 ' : monthPrefix}${dom} 또는 ${dow}`;
+  }
+  if (fields.domRestricted) {
+    if (!allMonths) {
+      return `${fields.months.length === 1 ? '매년 ' : ''}${monthPrefix}${dom}`;
+    }
+    return `매월 ${dom}`;
+  }
+  if (fields.dowRestricted) return `${monthPrefix}${dow}`;
+  return allMonths ? '매일' : `${monthPrefix}매일`;
+}
+
+function describeWeekdays(days: number[]): string {
+  const key = days.join(',');
+  if (key === '1,2,3,4,5') return '평일(월~금)';
+  if (key === '0,6') return '주말';
+  if (days.length === 7) return '매일';
+
+  // 월요일부터 나열한다
+  const ordered = [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  const contiguous = ordered.every(
+    (d, i) => i === 0 || d === (ordered[i - 1] + 1) % 7,
+  );
+  if (contiguous && ordered.length >= 3) {
+    return `매주 ${DAY_LABELS[ordered[0]]}~${DAY_LABELS[ordered[ordered.length - 1]]}요일`;
+  }
+  return `매주 ${ordered.map((d) => DAY_LABELS[d]).join('·')}요일`;
+}
+
+function describeTimes(
+  fields: CronFields,
+  minuteField: string,
+  hourField: string,
+): string {
+  const { minutes, hours } = fields;
+  if (minutes.length === 1 && hours.length <= 4) {
+    return hours.map((h) => formatClock(h, minutes[0])).join(', ');
+  }
+
+  const hourStep = /^\*\/(\d+)$/.exec(hourField)?.[1];
+  if (hourStep && minutes.length === 1) {
+    return `${hourStep}시간마다 ${minutes[0] === 0 ? '정각' : `${minutes[0]}분`}`;
+  }
+
+  const contiguous = hours.every((h, i) => i === 0 || h === hours[i - 1] + 1);
+  const hoursText =
+    hours.length === 24
+      ? ''
+      : contiguous && hours.length > 2
+        ? `${hours[0]}~${hours[hours.length - 1]}시 `
+        : `${describeList(hours, (h) => `${h}시`)} `;
+
+  if (minutes.length === 60) return `${hoursText}매분`;
+  const step = /^\*\/(\d+)$/.exec(minuteField)?.[1];
+  if (step) return `${hoursText}${step}분마다`;
+  if (minutes.length === 1) {
+    const minute = minutes[0] === 0 ? '정각' : `${minutes[0]}분`;
+    return `${hoursText}매시 ${minute}`;
+  }
+  return `${hoursText}${describeList(minutes, (m) => `${m}분`)}`;
+}
+
+function describeList(values: number[], format: (v: number) => string) {
+  if (values.length <= 6) return values.map(format).join(', ');
+  return `${values.slice(0, 3).map(format).join(', ')} 등 ${values.length}개`;
+}
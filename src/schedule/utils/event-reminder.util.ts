@@ -0,0 +1,87 @@
+import { DateTime } from 'luxon';
+import { toZoned } from '../../common/utils/date.util.js';
+import type {
+  ReminderOffset,
+  ScheduledNotificationEntity,
+} from '../entities/scheduled-notification.entity.js';
+
+/**
+ * 이벤트의 실제 시각. eventTime이 있으면 scheduledAt 날짜의 해당 시각,
+ * 없으면 scheduledAt 그대로 (보통 그날 00:00).
+ */
+export function resolveEventAt(
+  schedule: Pick<ScheduledNotificationEntity, 'scheduledAt' | 'eventTime'>,
+  timezone: string,
+): Date | null {
+  if (!schedule.scheduledAt) return null;
+  const day = toZoned(schedule.scheduledAt, timezone);
+  if (!schedule.eventTime) return day.toJSDate();
+
+  const [hour, minute] = schedule.eventTime.split(':').map(Number);
+  return day.set({ hour, minute, second: 0, millisecond: 0 }).toJSDate();
+}
+
+/** 오프셋을 적용한 리마인더 발송 시각 (타임존 기준 달력 계산, DST 반영) */
+export function reminderTime(
+  eventAt: Date,
+  offset: ReminderOffset,
+  timezone: string,
+): Date {
+  let at: DateTime = toZoned(eventAt, timezone).minus({
+    days: offset.days ?? 0,
+    hours: offset.hours ?? 0,
+    minutes: offset.minutes ?? 0,
+  });
+  if (offset.at) {
+    const [hour, minute] = offset.at.split(':').map(Number);
+    at = at.set({ hour, minute, second: 0, millisecond: 0 });
+  }
+  return at.toJSDate();
+}
+
+/** 이벤트 시각보다 앞선 리마인더 시각을 오름차순으로 반환한다. */
+export function reminderTimes(
+  schedule: Pick<
+    ScheduledNotificationEntity,
+    'scheduledAt' | 'eventTime' | 'reminderOffsets'
+  >,
+  timezone: string,
+): Date[] {
+  const eventAt = resolveEventAt(schedule, timezone);
+  if (!eventAt || !schedule.reminderOffsets?.length) return [];
+
+  const times = schedule.reminderOffsets
+    .map((offset) => reminderTime(eventAt, offset, timezone))
+    .filter((t) => t.getTime() < eventAt.getTime());
+  return [...new Map(times.map((t) => [t.getTime(), t])).values()].sort(
+    (a, b) => a.getTime() - b.getTime(),
+  );
+}
+
+/** 예: "D-3 09:00", "1일 전", "1시간 30분 전" */
+export function describeReminderOffset(offset: ReminderOffset): string {
+  const days = offset.days ?? 0;
+  if (offset.at) {
+    return `${days === 0 ? '당일' : `D-${days}`} ${offset.at}`;
+  }
+
+  const parts: string[] = [];
+  if (days) parts.push(`${days}일`);
+  if (offset.hours) parts.push(`${offset.hours}시간`);
+  if (offset.minutes) parts.push(`${offset.minutes}분`);
+  return parts.length ? `${parts.join(' ')} 전` : '이벤트 시각';
+}
+
+/** 남은 시간 표기. 예: "3일", "1일 2시간", "45분" */
+export function formatTimeUntil(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60_000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (days) parts.push(`${days}일`);
+  if (hours) parts.push(`${hours}시간`);
+  if (minutes && !days) parts.push(`${minutes}분`);
+  return parts.join(' ') || '곧';
+}
@@ -0,0 +1,330 @@
+import { DateTime } from 'luxon';
+import { nextCronTime, normalizeCron, parseCron } from './cron.util.js';
+import { isValidTimezone } from '../../common/utils/date.util.js';
+
+/**
+ * iCalendar(RFC 5545) 읽기·쓰기.
+ *
+ * 가져오기는 VEVENT의 제목·설명·장소·시작 시각만 읽고, 내보내기는 UTC 시각 또는
+ * TZID가 붙은 현지 시각으로 쓴다. VTIMEZONE은 만들지 않는다 (Google·Outlook은 IANA TZID를 그대로 인식한다).
+ */
+
+export const ICAL_PRODID = '-//telegram-bot//schedule export//KO';
+/** 이 서버가 만든 UID의 도메인 부분 (`<스케줄 id>@...`) */
+export const ICAL_UID_DOMAIN = 'telegram-bot.schedule';
+
+const ICAL_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+/** 한 줄 최대 길이 (CRLF 제외, octet 기준) */
+const FOLD_OCTETS = 75;
+
+export class IcalParseError extends Error {}
+
+export interface IcalEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  /** DTSTART가 없거나 해석할 수 없으면 null. 종일 일정이면 그날 00:00 */
+  start: Date | null;
+  allDay: boolean;
+  /** RRULE/RDATE가 있는 반복 일정 */
+  recurring: boolean;
+  /** 반복 일정의 특정 회차만 바꾼 예외 (RECURRENCE-ID) */
+  exception: boolean;
+  cancelled: boolean;
+}
+
+export interface IcalExportEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  /** DTSTART, RRULE, EXDATE 등 시각 관련 줄 (이미 완성된 형태) */
+  timing: string[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// ─── 가져오기 ──────────────────────────────────────
+
+/** floating 시각과 종일 일정은 timezone 기준 현지 시각으로 해석한다. */
+export function parseIcalEvents(text: string, timezone: string): IcalEvent[] {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new IcalParseError(
+      'BEGIN:VCALENDAR로 시작하는 .ics 파일이 아닙니다.',
+    );
+  }
+
+  const events: IcalEvent[] = [];
+  let current: ContentLine[] | null = null;
+  // VEVENT 안의 VALARM 등 하위 컴포넌트는 건너뛴다
+  let nested = 0;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      if (current) nested++;
+      else if (line.value.toUpperCase() === 'VEVENT') current = [];
+    } else if (line.name === 'END') {
+      if (nested > 0) nested--;
+      else if (current && line.value.toUpperCase() === 'VEVENT') {
+        events.push(toEvent(current, timezone));
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.push(line);
+    }
+  }
+
+  if (current) {
+    throw new IcalParseError('END:VEVENT 없이 파일이 끝났습니다.');
+  }
+  return events;
+}
+
+function toEvent(lines: ContentLine[], timezone: string): IcalEvent {
+  const find = (name: string) => lines.find((line) => line.name === name);
+  const text = (name: string) => {
+    const line = find(name);
+    return line ? unescapeText(line.value).trim() : null;
+  };
+
+  const dtstart = find('DTSTART');
+  const start = dtstart ? parseDateValue(dtstart, timezone) : null;
+
+  return {
+    uid: text('UID') || null,
+    summary: text('SUMMARY') ?? '',
+    description: text('DESCRIPTION') || null,
+    location: text('LOCATION') || null,
+    start: start?.date ?? null,
+    allDay: start?.allDay ?? false,
+    recurring: !!find('RRULE') || !!find('RDATE'),
+    exception: !!find('RECURRENCE-ID'),
+    cancelled: text('STATUS')?.toUpperCase() === 'CANCELLED',
+  };
+}
+
+function parseDateValue(
+  line: ContentLine,
+  timezone: string,
+): { date: Date; allDay: boolean } | null {
+  const value = line.value.trim();
+  if (line.params.VALUE === 'DATE' || /^\d{8}$/.test(value)) {
+    const day = DateTime.fromFormat(value, 'yyyyMMdd', { zone: timezone });
+    return day.isValid ? { date: day.toJSDate(), allDay: true } : null;
+  }
+
+  const match = /^(\d{8}T\d{6})(Z?)$/.exec(value);
+  if (!match) return null;
+  // Outlook의 "Korea Standard Time" 같은 Windows 이름은 인식하지 못하므로 기본 타임존으로 본다
+  const tzid = line.params.TZID;
+  const zone = match[2]
+    ? 'UTC'
+    : tzid && isValidTimezone(tzid)
+      ? tzid
+      : timezone;
+  const at = DateTime.fromFormat(match[1], "yyyyMMdd'T'HHmmss", { zone });
+  return at.isValid ? { date: at.toJSDate(), allDay: false } : null;
+}
+
+/** `NAME;PARAM=a;PARAM="b:c":value` (따옴표 안의 `:`와 `;`는 구분자가 아니다) */
+function parseContentLine(raw: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === '"') inQuotes = !inQuotes;
+    else if (raw[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] =
+    raw.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    params[part.slice(0, eq).toUpperCase()] = part
+      .slice(eq + 1)
+      .replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: raw.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) =>
+    ch === 'n' || ch === 'N' ? '\n' : ch,
+  );
+}
+
+// ─── 내보내기 ──────────────────────────────────────
+
+export function buildCalendar(
+  name: string,
+  timezone: string,
+  events: IcalExportEvent[],
+  now = new Date(),
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timezone}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      ...event.timing,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** 특정 시각에 시작하는 일정 */
+export function timedStart(at: Date): string[] {
+  return [`DTSTART:${formatUtc(at)}`];
+}
+
+/** 종일 일정 (timezone 기준 날짜) */
+export function allDayStart(at: Date, timezone: string): string[] {
+  const day = DateTime.fromJSDate(at, { zone: timezone });
+  return [
+    `DTSTART;VALUE=DATE:${day.toFormat('yyyyMMdd')}`,
+    `DTEND;VALUE=DATE:${day.plus({ days: 1 }).toFormat('yyyyMMdd')}`,
+  ];
+}
+
+/**
+ * cron을 RRULE 반복 일정으로 바꾼다. 일과 요일을 둘 다 지정한 cron은 RRULE로
+ * OR를 표현할 수 없어 일 기준·요일 기준 두 일정으로 나눈다.
+ * from 이후 첫 실행 시각을 DTSTART로 쓰며, 실행 시각이 없으면 빈 배열.
+ */
+export function cronToRecurringTimings(
+  expression: string,
+  timezone: string,
+  from: Date,
+): string[][] {
+  const [minute, hour, dom, month, dow] = normalizeCron(expression).split(' ');
+  const fields = parseCron(expression);
+  const parts =
+    fields.domRestricted && fields.dowRestricted
+      ? [
+          `${minute} ${hour} ${dom} ${month} *`,
+          `${minute} ${hour} * ${month} ${dow}`,
+        ]
+      : [`${minute} ${hour} ${dom} ${month} ${dow}`];
+
+  const timings: string[][] = [];
+  for (const part of parts) {
+    const start = nextCronTime(part, timezone, from);
+    if (!start) continue;
+    timings.push([
+      `DTSTART;TZID=${timezone}:${formatLocal(start, timezone)}`,
+      `RRULE:${cronToRRule(part)}`,
+    ]);
+  }
+  return timings;
+}
+
+function cronToRRule(expression: string): string {
+  const f = parseCron(expression);
+  const rule = [
+    `FREQ=${f.domRestricted ? 'MONTHLY' : f.dowRestricted ? 'WEEKLY' : 'DAILY'}`,
+  ];
+  if (f.months.length < 12) rule.push(`BYMONTH=${f.months.join(',')}`);
+  if (f.domRestricted) rule.push(`BYMONTHDAY=${f.daysOfMonth.join(',')}`);
+  if (f.dowRestricted) {
+    rule.push(`BYDAY=${f.daysOfWeek.map((d) => ICAL_DAYS[d]).join(',')}`);
+  }
+  // 하루 한 번이면 DTSTART의 시각으로 충분하다
+  if (f.hours.length > 1 || f.minutes.length > 1) {
+    rule.push(`BYHOUR=${f.hours.join(',')}`, `BYMINUTE=${f.minutes.join(',')}`);
+  }
+  return rule.join(';');
+}
+
+/**
+ * 스케줄의 recurrence(DTSTART/RRULE/EXDATE)를 그대로 쓰되,
+ * TZID도 `Z`도 없는 시각에는 스케줄 타임존을 붙인다.
+ */
+export function recurrenceToTimings(text: string, timezone: string): string[] {
+  return text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = /^(DTSTART|EXDATE|RDATE)(;[^:]*)?:(.+)$/i.exec(line);
+      if (!match) return line;
+      const [, name, params = '', value] = match;
+      if (/TZID=|VALUE=DATE(?!-)/i.test(params) || /Z$/i.test(value)) {
+        return line;
+      }
+      return `${name.toUpperCase()}${params};TZID=${timezone}:${value}`;
+    });
+}
+
+function formatUtc(date: Date): string {
+  return DateTime.fromJSDate(date, { zone: 'UTC' }).toFormat(
+    "yyyyMMdd'T'HHmmss'Z'",
+  );
+}
+
+function formatLocal(date: Date, timezone: string): string {
+  return DateTime.fromJSDate(date, { zone: timezone }).toFormat(
+    "yyyyMMdd'T'HHmmss",
+  );
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** 75 octet마다 CRLF + 공백으로 접는다 (UTF-8 문자 중간에서 끊지 않는다). */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    const limit = chunks.length === 0 ? FOLD_OCTETS : FOLD_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += ch;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
@@ -0,0 +1,271 @@
+import { DateTime } from 'luxon';
+import { Frequency, RRule, RRuleSet, rrulestr, Weekday } from 'rrule';
+import { formatClock, toZoned } from '../../common/utils/date.util.js';
+
+/**
+ * RFC 5545 RRULE(DTSTART, EXDATE 포함) 계산.
+ *
+ * rrule 라이브러리는 타임존 없는 "floating" 시각을 UTC 필드에 담아 계산하므로,
+ * DTSTART/EXDATE의 벽시계 시각을 그대로 floating으로 두고 결과를 스케줄 타임존의
+ * 현지 시각으로 변환한다. `Z`로 끝나는 UTC 값은 먼저 해당 타임존 현지 시각으로 바꾼다.
+ */
+
+const WEEKDAY_NAMES = ['월', '화', '수', '목', '금', '토', '일'];
+const ORDINALS: Record<number, string> = {
+  1: '첫째',
+  2: '둘째',
+  3: '셋째',
+  4: '넷째',
+  5: '다섯째',
+  [-1]: '마지막',
+  [-2]: '끝에서 둘째',
+};
+
+/** DTSTART의 TZID 파라미터. 스케줄 타임존을 정하지 않았을 때 기본값으로 쓴다. */
+export function recurrenceTimezone(text: string): string | null {
+  return /^DTSTART;[^:]*TZID=([^;:]+)/im.exec(text)?.[1] ?? null;
+}
+
+/** 오류 메시지를 반환한다. 유효하면 null. */
+export function validateRecurrence(text: string): string | null {
+  if (!/^DTSTART[:;]/im.test(text)) {
+    return 'recurrence에는 DTSTART가 필요합니다.';
+  }
+  if (!/^RRULE:/im.test(text)) {
+    return 'recurrence에는 RRULE이 필요합니다.';
+  }
+  try {
+    const set = parseRecurrence(text, 'UTC');
+    if (set.rrules().length !== 1) {
+      return 'RRULE은 하나만 지정할 수 있습니다.';
+    }
+    if (set.rrules()[0].options.freq === Frequency.SECONDLY) {
+      return '초 단위 반복(SECONDLY)은 지원하지 않습니다.';
+    }
+    return null;
+  } catch (error) {
+    return `RRULE을 해석할 수 없습니다: ${(error as Error).message}`;
+  }
+}
+
+export function parseRecurrence(text: string, timezone: string): RRuleSet {
+  const normalized = text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => normalizeDateLine(line, timezone))
+    .join('\n');
+  return rrulestr(normalized, { forceset: true }) as RRuleSet;
+}
+
+/** after 이후(초과) 첫 발생 시각 */
+export function nextRecurrence(
+  text: string,
+  timezone: string,
+  after: Date,
+): Date | null {
+  const next = parseRecurrence(text, timezone).after(
+    toFloating(after, timezone),
+    false,
+  );
+  return next ? fromFloating(next, timezone) : null;
+}
+
+/** (from, to] 구간의 발생 시각. limit개를 넘으면 마지막 limit개만 반환한다. */
+export function recurrencesBetween(
+  text: string,
+  timezone: string,
+  from: Date,
+  to: Date,
+  limit: number,
+): Date[] {
+  const occurrences = parseRecurrence(text, timezone)
+    .between(toFloating(from, timezone), toFloating(to, timezone), true)
+    .map((d) => fromFloating(d, timezone))
+    .filter((d) => d.getTime() > from.getTime() && d.getTime() <= to.getTime());
+  return occurrences.slice(-limit);
+}
+
+/** 해당 현지 날짜에 발생하는 시각 목록 */
+export function recurrencesOnDay(
+  text: string,
+  timezone: string,
+  day: Date,
+): Date[] {
+  const start = toZoned(day, timezone).startOf('day');
+  return parseRecurrence(text, timezone)
+    .between(
+      floatingFromDateTime(start),
+      floatingFromDateTime(start.endOf('day')),
+      true,
+    )
+    .map((d) => fromFloating(d, timezone));
+}
+
+/** 예: "격주 화요일 오전 9:00", "매월 마지막 금요일 오후 6:00", "90분마다" */
+export function describeRecurrence(text: string): string {
+  let set: RRuleSet;
+  try {
+    set = parseRecurrence(text, 'UTC');
+  } catch {
+    return text;
+  }
+  const rule = set.rrules()[0];
+  if (!rule) return text;
+
+  const o = rule.options;
+  const start = rule.options.dtstart;
+  const time = formatClock(
+    o.byhour?.length === 1 ? o.byhour[0] : start.getUTCHours(),
+    o.byminute?.length === 1 ? o.byminute[0] : start.getUTCMinutes(),
+  );
+  const interval = o.interval ?? 1;
+  const days = describeWeekdays(rule.origOptions.byweekday);
+
+  let base: string;
+  switch (o.freq) {
+    case Frequency.MINUTELY:
+      base = interval === 1 ? '매분' : `${interval}분마다`;
+      return withLimits(base, o, set);
+    case Frequency.HOURLY:
+      base = interval === 1 ? '매시간' : `${interval}시간마다`;
+      return withLimits(base, o, set);
+    case Frequency.DAILY:
+      base = interval === 1 ? '매일' : `${interval}일마다`;
+      break;
+    case Frequency.WEEKLY: {
+      const prefix =
+        interval === 1 ? '매주' : interval === 2 ? '격주' : `${interval}주마다`;
+      base = `${prefix} ${days ?? WEEKDAY_NAMES[(start.getUTCDay() + 6) % 7] + '요일'}`;
+      break;
+    }
+    case Frequency.MONTHLY: {
+      const prefix = interval === 1 ? '매월' : `${interval}개월마다`;
+      base = `${prefix} ${describeMonthDay(rule, days) ?? `${start.getUTCDate()}일`}`;
+      break;
+    }
+    case Frequency.YEARLY: {
+      const prefix = interval === 1 ? '매년' : `${interval}년마다`;
+      const months = o.bymonth?.length
+        ? o.bymonth.map((m) => `${m}월`).join(', ')
+        : `${start.getUTCMonth() + 1}월`;
+      base = `${prefix} ${months} ${describeMonthDay(rule, days) ?? `${start.getUTCDate()}일`}`;
+      break;
+    }
+    default:
+      return rule.toString();
+  }
+  return withLimits(`${base} ${time}`, o, set);
+}
+
+function describeMonthDay(rule: RRule, days: string | null): string | null {
+  const o = rule.options;
+  if (o.bysetpos?.length && days) {
+    const isWeekdays = days === '평일';
+    const pos = o.bysetpos
+      .map((p) => (p === -1 ? '마지막' : `${p}번째`))
+      .join(', ');
+    return `${pos} ${isWeekdays ? '평일' : days}`;
+  }
+  if (days) return days;
+  if (o.bymonthday?.length || o.bynmonthday?.length) {
+    return [
+      ...o.bymonthday.map((d) => `${d}일`),
+      ...o.bynmonthday.map((d) => (d === -1 ? '말일' : `말일 ${-d - 1}일 전`)),
+    ].join(', ');
+  }
+  return null;
+}
+
+function describeWeekdays(
+  byweekday: RRule['origOptions']['byweekday'],
+): string | null {
+  if (byweekday === undefined || byweekday === null) return null;
+  const list = (Array.isArray(byweekday) ? byweekday : [byweekday]).map((d) =>
+    d instanceof Weekday ? d : typeof d === 'number' ? new Weekday(d) : null,
+  );
+  if (list.some((d) => d === null)) return null;
+  const weekdays = list as Weekday[];
+
+  const plain = weekdays.every((d) => !d.n);
+  if (plain) {
+    const set = new Set(weekdays.map((d) => d.weekday));
+    if (set.size === 5 && [0, 1, 2, 3, 4].every((d) => set.has(d))) {
+      return '평일';
+    }
+    if (set.size === 2 && set.has(5) && set.has(6)) return '주말';
+  }
+  return weekdays
+    .map(
+      (d) =>
+        `${d.n ? `${ORDINALS[d.n] ?? `${d.n}번째`} ` : ''}${WEEKDAY_NAMES[d.weekday]}요일`,
+    )
+    .join(', ');
+}
+
+function withLimits(base: string, o: RRule['options'], set: RRuleSet): string {
+  const extras: string[] = [];
+  if (o.until) {
+    extras.push(
+      `${DateTime.fromJSDate(o.until, { zone: 'UTC' }).toFormat('yyyy-MM-dd')}까지`,
+    );
+  }
+  if (o.count) extras.push(`총 ${o.count}회`);
+  if (set.exdates().length) extras.push(`${set.exdates().length}일 제외`);
+  return extras.length ? `${base} (${extras.join(', ')})` : base;
+}
+
+/** DTSTART/EXDATE/RDATE 줄의 UTC 값을 현지 floating 값으로 바꾸고 TZID를 제거한다. */
+function normalizeDateLine(line: string, timezone: string): string {
+  const match = /^(DTSTART|EXDATE|RDATE)(;[^:]*)?:(.*)$/i.exec(line);
+  if (!match) return line;
+
+  const [, name, params = '', values] = match;
+  const keptParams = params
+    .split(';')
+    .filter((p) => p && !/^TZID=/i.test(p))
+    .map((p) => `;${p}`)
+    .join('');
+  const converted = values
+    .split(',')
+    .map((value) => {
+      if (!value.toUpperCase().endsWith('Z')) return value;
+      const utc = DateTime.fromFormat(
+        value.toUpperCase(),
+        "yyyyMMdd'T'HHmmss'Z'",
+        {
+          zone: 'UTC',
+        },
+      );
+      return utc.isValid
+        ? utc.setZone(timezone).toFormat("yyyyMMdd'T'HHmmss")
+        : value;
+    })
+    .join(',');
+  return `${name}${keptParams}:${converted}`;
+}
+
+function toFloating(date: Date, timezone: string): Date {
+  return floatingFromDateTime(toZoned(date, timezone));
+}
+
+function floatingFromDateTime(dt: DateTime): Date {
+  return new Date(
+    Date.UTC(dt.year, dt.month - 1, dt.day, dt.hour, dt.minute, dt.second),
+  );
+}
+
+function fromFloating(date: Date, timezone: string): Date {
+  return DateTime.fromObject(
+    {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+    },
+    { zone: timezone },
+  ).toJSDate();
+}
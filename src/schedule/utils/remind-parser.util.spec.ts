@@ -0,0 +1,220 @@
+import { DateTime } from 'luxon';
+import { parseReminder, ParsedReminder } from './remind-parser.util.js';
+
+const TIMEZONE = 'Asia/Seoul';
+// 2026-10-19 (월) 10:00 KST
+const NOW = DateTime.fromISO('2026-10-19T10:00:00', {
+  zone: TIMEZONE,
+}).toJSDate();
+
+function parse(text: string, now = NOW): ParsedReminder | null {
+  return parseReminder(text, now, TIMEZONE);
+}
+
+/** 일회성 알림의 현지 시각 (yyyy-MM-dd HH:mm) */
+function localTime(text: string, now = NOW): string {
+  const result = parse(text, now);
+  if (result?.type !== 'manual') {
+    throw new Error(`"${text}" → ${JSON.stringify(result)}`);
+  }
+  return DateTime.fromJSDate(result.scheduledAt, { zone: TIMEZONE }).toFormat(
+    'yyyy-MM-dd HH:mm',
+  );
+}
+
+function messageOf(text: string): string | undefined {
+  return parse(text)?.message;
+}
+
+describe('parseReminder', () => {
+  describe('상대 시간', () => {
+    it.each([
+      ['30분 뒤 배포 확인', '2026-10-19 10:30'],
+      ['30분 후 배포 확인', '2026-10-19 10:30'],
+      ['2시간 후에 점심', '2026-10-19 12:00'],
+      ['1시간 30분 뒤 회의', '2026-10-19 11:30'],
+      ['1시간 반 뒤 회의', '2026-10-19 11:30'],
+      ['3일 뒤 보고서', '2026-10-22 10:00'],
+      ['2주 후 회고', '2026-11-02 10:00'],
+      ['3일 뒤 오후 2시 보고서', '2026-10-22 14:00'],
+      ['in 30 minutes check deploy', '2026-10-19 10:30'],
+      ['in 2 hours and 15 mins lunch', '2026-10-19 12:15'],
+      ['in an hour standup', '2026-10-19 11:00'],
+      ['in 3 days invoice', '2026-10-22 10:00'],
+    ])('%s → %s', (text, expected) => {
+      expect(localTime(text)).toBe(expected);
+    });
+
+    it('시간 표현 뒤 나머지를 메시지로 쓴다', () => {
+      expect(messageOf('30분 뒤 배포 확인')).toBe('배포 확인');
+      expect(messageOf('2시간 후에 점심 먹기')).toBe('점심 먹기');
+      expect(messageOf('in 30 minutes check deploy')).toBe('check deploy');
+    });
+  });
+
+  describe('날짜 + 시각', () => {
+    it.each([
+      ['내일 오후 3시 회의 준비', '2026-10-20 15:00'],
+      ['내일 오전 9시 30분 스탠드업', '2026-10-20 09:30'],
+      ['내일 3시 회의', '2026-10-20 15:00'],
+      ['내일 9시 회의', '2026-10-20 09:00'],
+      ['내일 15:30 회의', '2026-10-20 15:30'],
+      ['내일 저녁 7시 반 저녁 약속', '2026-10-20 19:30'],
+      ['내일 정오 점심', '2026-10-20 12:00'],
+      ['내일 회의', '2026-10-20 09:00'],
+      ['모레 오후 2시 출장', '2026-10-21 14:00'],
+      ['글피 오전 10시 면접', '2026-10-22 10:00'],
+      ['오늘 오후 5시 퇴근 보고', '2026-10-19 17:00'],
+      ['오늘 3시 회의', '2026-10-19 15:00'],
+      ['tomorrow 3pm standup', '2026-10-20 15:00'],
+      ['tomorrow at 9:15am standup', '2026-10-20 09:15'],
+      ['today at 18:00 wrap up', '2026-10-19 18:00'],
+    ])('%s → %s', (text, expected) => {
+      expect(localTime(text)).toBe(expected);
+    });
+
+    it('조사 "에"를 메시지에 남기지 않는다', () => {
+      expect(messageOf('내일 오후 3시에 회의 준비')).toBe('회의 준비');
+      expect(localTime('내일 오후 3시에 회의 준비')).toBe('2026-10-20 15:00');
+    });
+  });
+
+  describe('요일', () => {
+    it.each([
+      ['수요일 오후 2시 리뷰', '2026-10-21 14:00'],
+      ['월요일 오후 2시 리뷰', '2026-10-19 14:00'],
+      ['월요일 오전 9시 리뷰', '2026-10-26 09:00'],
+      ['금요일 회식', '2026-10-23 09:00'],
+      ['이번주 금요일 6시 회식', '2026-10-23 18:00'],
+      ['다음주 월요일 9시 킥오프', '2026-10-26 09:00'],
+      ['다음 주 수요일 오후 4시 데모', '2026-10-28 16:00'],
+      ['next friday 5pm demo', '2026-10-30 17:00'],
+      ['friday 5pm demo', '2026-10-23 17:00'],
+      ['on tuesday at 10:00 sync', '2026-10-20 10:00'],
+    ])('%s → %s', (text, expected) => {
+      expect(localTime(text)).toBe(expected);
+    });
+  });
+
+  describe('달력 날짜', () => {
+    it.each([
+      ['다음달 1일 월세', '2026-11-01 09:00'],
+      ['다음 달 25일 오후 6시 정산', '2026-11-25 18:00'],
+      ['이번달 30일 마감', '2026-10-30 09:00'],
+      ['12월 25일 크리스마스', '2026-12-25 09:00'],
+      ['3월 1일 오전 10시 정기 점검', '2027-03-01 10:00'],
+      ['2027년 1월 2일 시무식', '2027-01-02 09:00'],
+      ['2026-11-03 14:00 배포', '2026-11-03 14:00'],
+      ['11/3 배포', '2026-11-03 09:00'],
+      ['25일 급여일', '2026-10-25 09:00'],
+      ['5일 카드 결제', '2026-11-05 09:00'],
+    ])('%s → %s', (text, expected) => {
+      expect(localTime(text)).toBe(expected);
+    });
+
+    it('없는 날짜는 해석하지 않는다', () => {
+      expect(parse('2월 30일 회의')).toBeNull();
+      expect(parse('다음달 31일 정산')).toBeNull();
+      expect(parse('2026-13-01 배포')).toBeNull();
+    });
+  });
+
+  describe('시각만 있는 경우', () => {
+    it.each([
+      ['오후 3시 회의', '2026-10-19 15:00'],
+      ['3시 회의', '2026-10-19 15:00'],
+      ['11시 회의', '2026-10-19 11:00'],
+      ['오전 9시 스탠드업', '2026-10-20 09:00'],
+      ['9시 야간 점검', '2026-10-19 21:00'],
+      ['14:30 리뷰', '2026-10-19 14:30'],
+      ['6pm wrap up', '2026-10-19 18:00'],
+      ['자정 백업 확인', '2026-10-20 00:00'],
+    ])('%s → %s', (text, expected) => {
+      expect(localTime(text)).toBe(expected);
+    });
+
+    it('오늘 지난 시각이면 내일로 넘긴다', () => {
+      const lateNight = DateTime.fromISO('2026-10-19T22:00:00', {
+        zone: TIMEZONE,
+      }).toJSDate();
+      expect(localTime('9시 스탠드업', lateNight)).toBe('2026-10-20 09:00');
+      expect(localTime('3시 회의', lateNight)).toBe('2026-10-20 15:00');
+    });
+  });
+
+  describe('반복', () => {
+    it.each([
+      ['매주 월요일 9시 주간회의', '0 9 * * 1', '매주 월요일 오전 9:00'],
+      [
+        '매주 월, 수, 금 오후 6시 운동',
+        '0 18 * * 1,3,5',
+        '매주 월·수·금요일 오후 6:00',
+      ],
+      [
+        '매주 금요일 월요일 10시 점검',
+        '0 10 * * 1,5',
+        '매주 월·금요일 오전 10:00',
+      ],
+      ['매주 일요일마다 밤 10시 정리', '0 22 * * 0', '매주 일요일 오후 10:00'],
+      ['매일 오전 8시 30분 출근 체크', '30 8 * * *', '매일 오전 8:30'],
+      ['평일 9시 스탠드업', '0 9 * * 1-5', '평일 오전 9:00'],
+      ['매주 평일 오후 6시 퇴근', '0 18 * * 1-5', '평일 오후 6:00'],
+      ['주말 오전 10시 청소', '0 10 * * 0,6', '주말 오전 10:00'],
+      ['매월 1일 월세', '0 9 1 * *', '매월 1일 오전 9:00'],
+      ['매달 25일 오후 2시 정산', '0 14 25 * *', '매월 25일 오후 2:00'],
+      ['every monday 9am standup', '0 9 * * 1', '매주 월요일 오전 9:00'],
+      [
+        'every tuesday and thursday at 17:00 gym',
+        '0 17 * * 2,4',
+        '매주 화·목요일 오후 5:00',
+      ],
+      ['every day at 8am vitamins', '0 8 * * *', '매일 오전 8:00'],
+      ['every weekday 9:30am sync', '30 9 * * 1-5', '평일 오전 9:30'],
+      ['every month on the 1st rent', '0 9 1 * *', '매월 1일 오전 9:00'],
+    ])('%s → %s', (text, cron, label) => {
+      const result = parse(text);
+      expect(result).toMatchObject({ type: 'fixed', cron, label });
+    });
+
+    it('요일 뒤의 메시지를 남긴다', () => {
+      expect(messageOf('매주 월요일 9시 주간회의')).toBe('주간회의');
+      expect(messageOf('every month on the 1st pay rent')).toBe('pay rent');
+    });
+  });
+
+  describe('해석 실패', () => {
+    it.each([
+      ['회의 준비'],
+      [''],
+      ['내일'],
+      ['30분 뒤'],
+      ['매주 월요일 9시'],
+      ['25시 회의'],
+      ['오후 13시 회의'],
+      ['3시 70분 회의'],
+      ['매월 32일 정산'],
+    ])('"%s" → null', (text) => {
+      expect(parse(text)).toBeNull();
+    });
+  });
+
+  it('시간 표현이 아닌 숫자로 시작하면 해석하지 않는다', () => {
+    expect(parse('3층 회의실 예약')).toBeNull();
+  });
+
+  it('타임존 기준으로 해석한다', () => {
+    const result = parseReminder(
+      '내일 오전 9시 standup',
+      NOW,
+      'America/New_York',
+    );
+    expect(result?.type).toBe('manual');
+    // 뉴욕 기준 "지금"은 10/18 21:00 → 내일은 10/19
+    expect(
+      result?.type === 'manual' &&
+        DateTime.fromJSDate(result.scheduledAt, {
+          zone: 'America/New_York',
+        }).toFormat('yyyy-MM-dd HH:mm'),
+    ).toBe('2026-10-19 09:00');
+  });
+});
@@ -0,0 +1,468 @@
+import { DateTime } from 'luxon';
+import { formatClock, toZoned } from '../../common/utils/date.util.js';
+
+/**
+ * `/remind` 자연어 해석.
+ *
+ * 문장 앞부분의 시간 표현(상대 시간 → 반복 → 날짜 → 시각 순)을 읽고 나머지를 메시지로 쓴다.
+ * 예: "내일 오후 3시 회의 준비", "30분 뒤 배포 확인", "매주 월요일 9시 주간회의",
+ * "다음달 1일 월세", "tomorrow 3pm standup", "in 2 hours check logs", "every friday 6pm 회고"
+ */
+
+export type ParsedReminder =
+  | { type: 'manual'; scheduledAt: Date; message: string }
+  | { type: 'fixed'; cron: string; label: string; message: string };
+
+interface ParsedTime {
+  hour: number;
+  minute: number;
+  /** 오전/오후를 명시했는지. null이면 1~11시는 오전·오후 모두 가능하다. */
+  meridiem: 'am' | 'pm' | null;
+}
+
+interface ParsedDate {
+  day: DateTime;
+  /** "월요일"처럼 요일만 말해 지난 시각이면 다음 주로 넘겨도 되는 경우 */
+  rollWeekly: boolean;
+}
+
+/** 날짜만 있고 시각이 없을 때 */
+const DEFAULT_HOUR = 9;
+
+const KO_WEEKDAYS = '일월화수목금토';
+const EN_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const EN_WEEKDAY =
+  '(sun|mon|tue|wed|thu|fri|sat)(?:day|sday|nesday|rsday|urday)?';
+
+const KO_DAY = `[${KO_WEEKDAYS}](?:요일)?`;
+
+/** 뒤에 공백, 문장 끝, 또는 조사 "에"가 오는 경계 */
+const END = '(?:에|에는)?(?=\\s|$)';
+
+const MERIDIEM_WORDS: Record<string, 'am' | 'pm'> = {
+  오전: 'am',
+  아침: 'am',
+  새벽: 'am',
+  am: 'am',
+  오후: 'pm',
+  낮: 'pm',
+  저녁: 'pm',
+  밤: 'pm',
+  pm: 'pm',
+};
+
+class Scanner {
+  constructor(public rest: string) {}
+
+  take(pattern: string): RegExpExecArray | null {
+    const match = new RegExp(`^(?:${pattern})`, 'i').exec(this.rest);
+    if (match) this.rest = this.rest.slice(match[0].length).trimStart();
+    return match;
+  }
+}
+
+class InvalidReminder extends Error {}
+
+/** 해석할 수 없거나 메시지가 비어 있으면 null을 반환한다. */
+export function parseReminder(
+  text: string,
+  now: Date,
+  timezone: string,
+): ParsedReminder | null {
+  try {
+    return parse(new Scanner(text.trim()), toZoned(now, timezone));
+  } catch (error) {
+    if (error instanceof InvalidReminder) return null;
+    throw error;
+  }
+}
+
+function parse(scanner: Scanner, now: DateTime): ParsedReminder | null {
+  const relative = takeRelative(scanner);
+  if (relative) {
+    let at = now.plus(relative).set({ second: 0, millisecond: 0 });
+    if (!relative.hours && !relative.minutes) {
+      const time = takeTime(scanner);
+      if (time) at = atTime(at, time, true);
+    }
+    return manual(at, scanner.rest);
+  }
+
+  const recurring = takeRecurring(scanner);
+  if (recurring) {
+    const time = takeTime(scanner);
+    const hour = time ? colloquialHour(time) : DEFAULT_HOUR;
+    const minute = time?.minute ?? 0;
+    const message = scanner.rest;
+    if (!message) return null;
+    return {
+      type: 'fixed',
+      cron: `${minute} ${hour} ${recurring.dom} * ${recurring.dow}`,
+      label: `${recurring.label} ${formatClock(hour, minute)}`,
+      message,
+    };
+  }
+
+  const date = takeDate(scanner, now);
+  const time = takeTime(scanner);
+  if (!date && !time) return null;
+
+  if (!date) {
+    // 시각만 있으면 가장 가까운 미래 시각 (오늘 안 되면 내일)
+    return manual(
+      nearestToday(now, now, time!) ??
+        atTime(now.plus({ days: 1 }), time!, true),
+      scanner.rest,
+    );
+  }
+
+  let at: DateTime;
+  if (!time) {
+    at = date.day.set({ hour: DEFAULT_HOUR, minute: 0 });
+  } else if (date.day.hasSame(now, 'day')) {
+    at = nearestToday(now, date.day, time) ?? atTime(date.day, time, true);
+  } else {
+    at = atTime(date.day, time, true);
+  }
+  if (date.rollWeekly && at <= now) {
+    at = time
+      ? atTime(date.day.plus({ weeks: 1 }), time, true)
+      : at.plus({ weeks: 1 });
+  }
+  return manual(at, scanner.rest);
+}
+
+function manual(at: DateTime, message: string): ParsedReminder | null {
+  if (!message) return null;
+  return { type: 'manual', scheduledAt: at.toJSDate(), message };
+}
+
+// ─── 상대 시간 ─────────────────────────────────────────
+
+const KO_UNITS: Record<string, keyof RelativeOffset> = {
+  주: 'weeks',
+  일: 'days',
+  시간: 'hours',
+  분: 'minutes',
+};
+
+interface RelativeOffset {
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+}
+
+function takeRelative(scanner: Scanner): RelativeOffset | null {
+  const ko = scanner.take(
+    `((?:\\d+\\s*(?:주|일|시간|분)\\s*|반\\s*)+)(?:뒤|후|있다가)${END}`,
+  );
+  if (ko) {
+    const offset: RelativeOffset = {};
+    for (const [, amount, unit] of ko[1].matchAll(/(\d+)\s*(주|일|시간|분)/g)) {
+      add(offset, KO_UNITS[unit], Number(amount));
+    }
+    // "1시간 반 뒤"
+    if (/반/.test(ko[1])) add(offset, 'minutes', 30);
+    return offset;
+  }
+
+  const en = scanner.take(
+    `in\\s+((?:(?:\\d+|an?)\\s*(?:weeks?|days?|hours?|hrs?|minutes?|mins?)\\s*(?:and\\s+)?)+)(?=\\s|$)`,
+  );
+  if (en) {
+    const offset: RelativeOffset = {};
+    for (const [, amount, unit] of en[1].matchAll(
+      /(\d+|an?)\s*(week|day|hour|hr|minute|min)/gi,
+    )) {
+      const key = unit.toLowerCase().startsWith('w')
+        ? 'weeks'
+        : unit.toLowerCase().startsWith('d')
+          ? 'days'
+          : unit.toLowerCase().startsWith('h')
+            ? 'hours'
+            : 'minutes';
+      add(offset, key, /^\d+$/.test(amount) ? Number(amount) : 1);
+    }
+    return offset;
+  }
+  return null;
+}
+
+function add(offset: RelativeOffset, key: keyof RelativeOffset, n: number) {
+  offset[key] = (offset[key] ?? 0) + n;
+}
+
+// ─── 반복 ──────────────────────────────────────────────
+
+function takeRecurring(
+  scanner: Scanner,
+): { dow: string; dom: string; label: string } | null {
+  if (scanner.take(`(?:매일|daily|every\\s*day)(?:\\s*마다)?${END}`)) {
+    return { dow: '*', dom: '*', label: '매일' };
+  }
+  if (
+    scanner.take(
+      `(?:(?:매주\\s*)?평일(?:\\s*마다)?|every\\s+weekday|weekdays)${END}`,
+    )
+  ) {
+    return { dow: '1-5', dom: '*', label: '평일' };
+  }
+  if (
+    scanner.take(
+      `(?:(?:매주\\s*)?주말(?:\\s*마다)?|every\\s+weekend|weekends)${END}`,
+    )
+  ) {
+    return { dow: '0,6', dom: '*', label: '주말' };
+  }
+
+  const koWeekly = scanner.take(
+    `매주\\s*(${KO_DAY}(?:(?:\\s*[,·/]\\s*|\\s+(?=[${KO_WEEKDAYS}]요일)|)${KO_DAY})*)(?:\\s*마다)?${END}`,
+  );
+  if (koWeekly) {
+    const days = [...koWeekly[1].replace(/요일|[\s,·/]/g, '')].map((c) =>
+      KO_WEEKDAYS.indexOf(c),
+    );
+    return weekly(days);
+  }
+
+  const enWeekly = scanner.take(
+    `every\\s+(${EN_WEEKDAY}(?:(?:\\s*,\\s*(?:and\\s+)?|\\s+and\\s+)${EN_WEEKDAY})*)(?=\\s|$)`,
+  );
+  if (enWeekly) {
+    const days = [...enWeekly[1].matchAll(new RegExp(EN_WEEKDAY, 'gi'))].map(
+      (m) => EN_WEEKDAYS.indexOf(m[1].toLowerCase()),
+    );
+    return weekly(days);
+  }
+
+  const monthly =
+    scanner.take(`(?:매월|매달)\\s*(\\d{1,2})일(?:\\s*마다)?${END}`) ??
+    scanner.take(
+      `(?:every\\s+month|monthly)\\s+on\\s+(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?=\\s|$)`,
+    );
+  if (monthly) {
+    const day = Number(monthly[1]);
+    if (day < 1 || day > 31) throw new InvalidReminder();
+    return { dow: '*', dom: String(day), label: `매월 ${day}일` };
+  }
+  return null;
+}
+
+function weekly(days: number[]): { dow: string; dom: string; label: string } {
+  const sorted = [...new Set(days)].sort(
+    (a, b) => ((a + 6) % 7) - ((b + 6) % 7),
+  );
+  return {
+    dow: sorted.join(','),
+    dom: '*',
+    label: `매주 ${sorted.map((d) => KO_WEEKDAYS[d]).join('·')}요일`,
+  };
+}
+
+// ─── 날짜 ──────────────────────────────────────────────
+
+function takeDate(scanner: Scanner, now: DateTime): ParsedDate | null {
+  const today = now.startOf('day');
+  const fixed = (day: DateTime): ParsedDate => {
+    if (!day.isValid) throw new InvalidReminder();
+    return { day, rollWeekly: false };
+  };
+
+  const word = scanner.take(
+    `(오늘|today|내일|tomorrow|모레|글피)(?:은|에)?(?=\\s|$)`,
+  );
+  if (word) {
+    const offsets: Record<string, number> = {
+      오늘: 0,
+      today: 0,
+      내일: 1,
+      tomorrow: 1,
+      모레: 2,
+      글피: 3,
+    };
+    return fixed(today.plus({ days: offsets[word[1].toLowerCase()] }));
+  }
+
+  const koWeekday = scanner.take(
+    `(이번\\s*주|다음\\s*주|담주|다다음\\s*주)?\\s*([${KO_WEEKDAYS}])요일(?:에|날)?(?=\\s|$)`,
+  );
+  if (koWeekday) {
+    const weekday = KO_WEEKDAYS.indexOf(koWeekday[2]);
+    const week = koWeekday[1]?.replace(/\s/g, '');
+    if (!week) return nextWeekday(today, weekday);
+    const weeks = week === '이번주' ? 0 : week === '다다음주' ? 2 : 1;
+    return fixed(inWeek(today, weeks, weekday));
+  }
+
+  const enWeekday = scanner.take(
+    `(?:on\\s+)?(next\\s+|this\\s+)?${EN_WEEKDAY}(?=\\s|$)`,
+  );
+  if (enWeekday) {
+    const weekday = EN_WEEKDAYS.indexOf(enWeekday[2].toLowerCase());
+    if (!enWeekday[1]) return nextWeekday(today, weekday);
+    const weeks = /next/i.test(enWeekday[1]) ? 1 : 0;
+    return fixed(inWeek(today, weeks, weekday));
+  }
+
+  const monthDay = scanner.take(
+    `(이번\\s*달|다음\\s*달|담달)\\s*(\\d{1,2})일${END}`,
+  );
+  if (monthDay) {
+    const month = monthDay[1].startsWith('이번')
+      ? today
+      : today.plus({ months: 1 });
+    return fixed(onDay(month, Number(monthDay[2])));
+  }
+
+  const iso = scanner.take(`(\\d{4})-(\\d{1,2})-(\\d{1,2})${END}`);
+  if (iso) {
+    return fixed(
+      DateTime.fromObject(
+        { year: +iso[1], month: +iso[2], day: +iso[3] },
+        { zone: now.zone },
+      ),
+    );
+  }
+
+  const koDate =
+    scanner.take(`(?:(\\d{4})년\\s*)?(\\d{1,2})월\\s*(\\d{1,2})일${END}`) ??
+    scanner.take(`()(\\d{1,2})\\/(\\d{1,2})${END}`);
+  if (koDate) {
+    let day = DateTime.fromObject(
+      {
+        year: koDate[1] ? +koDate[1] : today.year,
+        month: +koDate[2],
+        day: +koDate[3],
+      },
+      { zone: now.zone },
+    );
+    if (!koDate[1] && day.isValid && day < today) day = day.plus({ years: 1 });
+    return fixed(day);
+  }
+
+  const dayOfMonth = scanner.take(`(\\d{1,2})일${END}`);
+  if (dayOfMonth) {
+    const dayNumber = Number(dayOfMonth[1]);
+    const day = onDay(today, dayNumber);
+    return fixed(
+      day < today ? onDay(today.plus({ months: 1 }), dayNumber) : day,
+    );
+  }
+  return null;
+}
+
+/** 그 달에 없는 날짜(2월 30일 등)는 거부한다. */
+function onDay(month: DateTime, day: number): DateTime {
+  if (day < 1 || day > month.daysInMonth!) throw new InvalidReminder();
+  return month.set({ day });
+}
+
+/** 오늘 또는 다음 해당 요일 (cron 요일 번호: 0=일) */
+function nextWeekday(today: DateTime, weekday: number): ParsedDate {
+  const diff = (weekday - (today.weekday % 7) + 7) % 7;
+  return { day: today.plus({ days: diff }), rollWeekly: true };
+}
+
+/** 이번 주(월요일 시작)로부터 weeks주 뒤의 해당 요일 */
+function inWeek(today: DateTime, weeks: number, weekday: number): DateTime {
+  return today.startOf('week').plus({ weeks, days: (weekday + 6) % 7 });
+}
+
+// ─── 시각 ──────────────────────────────────────────────
+
+function takeTime(scanner: Scanner): ParsedTime | null {
+  const special = scanner.take(`(정오|noon|자정|midnight)${END}`);
+  if (special) {
+    const noon = /정오|noon/i.test(special[1]);
+    return { hour: noon ? 12 : 0, minute: 0, meridiem: noon ? 'pm' : 'am' };
+  }
+
+  const ko = scanner.take(
+    `(?:(오전|오후|아침|낮|저녁|밤|새벽)\\s*)?(\\d{1,2})\\s*시\\s*(?:(\\d{1,2})\\s*분|(반))?${END}`,
+  );
+  if (ko) {
+    return validTime(
+      Number(ko[2]),
+      ko[4] ? 30 : Number(ko[3] ?? 0),
+      ko[1] ? MERIDIEM_WORDS[ko[1]] : null,
+    );
+  }
+
+  const en = scanner.take(
+    `(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)(?=\\s|$)`,
+  );
+  if (en) {
+    return validTime(
+      Number(en[1]),
+      Number(en[2] ?? 0),
+      MERIDIEM_WORDS[en[3].toLowerCase()],
+    );
+  }
+
+  const clock = scanner.take(
+    `(?:(오전|오후|아침|낮|저녁|밤|새벽)\\s*|at\\s+)?(\\d{1,2}):(\\d{2})${END}`,
+  );
+  if (clock) {
+    const meridiem = clock[1] ? (MERIDIEM_WORDS[clock[1]] ?? null) : null;
+    return validTime(Number(clock[2]), Number(clock[3]), meridiem);
+  }
+
+  const bareAt = scanner.take(`at\\s+(\\d{1,2})(?=\\s|$)`);
+  if (bareAt) return validTime(Number(bareAt[1]), 0, null);
+  return null;
+}
+
+function validTime(
+  hour: number,
+  minute: number,
+  meridiem: ParsedTime['meridiem'],
+): ParsedTime {
+  if (minute > 59 || hour > (meridiem ? 12 : 23) || (meridiem && hour < 1)) {
+    throw new InvalidReminder();
+  }
+  // 13시 이상이면 오전/오후가 정해져 있다
+  return { hour, minute, meridiem: hour > 12 ? 'pm' : meridiem };
+}
+
+function hour24(time: ParsedTime, hour = time.hour): number {
+  if (time.meridiem === 'pm' && hour < 12) return hour + 12;
+  if (time.meridiem === 'am' && hour === 12) return 0;
+  return hour;
+}
+
+/** 오전/오후가 없는 1~6시는 오후로 본다 ("3시 회의" → 15:00). */
+function colloquialHour(time: ParsedTime): number {
+  if (!time.meridiem && time.hour >= 1 && time.hour <= 6) {
+    return time.hour + 12;
+  }
+  return hour24(time);
+}
+
+/** 해당 날짜에서 now 이후인 가장 이른 해석 (오전/오후 모두 가능하면 둘 다 시도) */
+function nearestToday(
+  now: DateTime,
+  day: DateTime,
+  time: ParsedTime,
+): DateTime | null {
+  const hours =
+    !time.meridiem && time.hour >= 1 && time.hour <= 11
+      ? [time.hour, time.hour + 12]
+      : [hour24(time)];
+  return (
+    hours
+      .map((hour) =>
+        day.set({ hour, minute: time.minute, second: 0, millisecond: 0 }),
+      )
+      .find((candidate) => candidate > now) ?? null
+  );
+}
+
+function atTime(day: DateTime, time: ParsedTime, colloquial = false) {
+  return day.set({
+    hour: colloquial ? colloquialHour(time) : hour24(time),
+    minute: time.minute,
+    second: 0,
+    millisecond: 0,
+  });
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import type { WebhookEvent } from './webhook-subscription.entity.js';
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+/** 구독 이벤트와 연결 확인용 ping */
+export type WebhookDeliveryEvent = WebhookEvent | 'ping';
+
+/** 구독 하나에 보낼 이벤트 하나. 전송 대기열이자 전송 이력이다. */
+@Entity('webhook_deliveries')
+@Index(['subscriptionId', 'createdAt'])
+export class WebhookDeliveryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  subscriptionId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  event: WebhookDeliveryEvent;
+
+  /** 본문의 data 필드 */
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({ type: 'varchar', length: 10, default: 'pending' })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  /** 다음 전송 시각. pending이 아니면 null */
+  @Index()
+  @Column({ type: 'timestamptz', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ type: 'integer', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deliveredAt: Date | null;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export const WEBHOOK_EVENTS = [
+  'schedule.created',
+  'schedule.updated',
+  'schedule.deleted',
+  'delivery.succeeded',
+  'delivery.failed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** 외부 시스템이 등록한 이벤트 구독 (outbound webhook) */
+@Entity('webhook_subscriptions')
+export class WebhookSubscriptionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  @Column({ type: 'jsonb' })
+  events: WebhookEvent[];
+
+  /** 이 채팅들의 이벤트만 보낸다. null이면 모든 채팅 */
+  @Column({ type: 'jsonb', nullable: true })
+  chatIds: string[] | null;
+
+  /** HMAC 서명 키. 등록 응답에서만 반환하고 목록 조회에는 포함하지 않는다. */
+  @Column({ type: 'varchar', length: 128, select: false })
+  secret: string;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  /** 마지막 시도의 HTTP 응답 코드 (응답을 받지 못했으면 null) */
+  @Column({ type: 'integer', nullable: true })
+  lastStatus: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
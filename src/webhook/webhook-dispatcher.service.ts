@@ -0,0 +1,274 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { CronJob } from 'cron';
+import { createHmac } from 'crypto';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity.js';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity.js';
+
+interface AttemptResult {
+  status: number | null;
+  error: string | null;
+  /** 다시 보내 볼 만한 실패 (네트워크 오류, 5xx, 408, 429) */
+  retryable: boolean;
+}
+
+/**
+ * 전송 대기열(webhook_deliveries)의 due 항목을 행 잠금(SKIP LOCKED)으로 가져와 POST한다.
+ * 실패하면 백오프 후 다시 보내고, 결과는 전송 기록과 구독의 마지막 상태에 남긴다.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+
+  private static readonly CLAIM_BATCH = 20;
+  private static readonly TIMEOUT_MS = 10_000;
+  /**
+   * 가져간 항목을 다른 인스턴스가 다시 가져가지 않도록 미뤄 두는 시간 (전송 중 종료되면 이후 재시도).
+   * 한 묶음을 차례로 보내므로 묶음 전체가 시간 초과돼도 끝날 만큼 잡는다.
+   */
+  private static readonly LEASE_MS =
+    WebhookDispatcherService.CLAIM_BATCH * WebhookDispatcherService.TIMEOUT_MS +
+    60_000;
+  /** n번째 실패 후 다음 시도까지의 대기(초). 모두 쓰면 failed */
+  private static readonly RETRY_DELAYS_S = [30, 120, 600, 1800, 7200];
+  private static readonly ERROR_BODY_LENGTH = 200;
+
+  private job: CronJob | null = null;
+  private running = false;
+  private again = false;
+
+  constructor(
+    @InjectRepository(WebhookDeliveryEntity)
+    private readonly deliveryRepo: Repository<WebhookDeliveryEntity>,
+    @InjectRepository(WebhookSubscriptionEntity)
+    private readonly subscriptionRepo: Repository<WebhookSubscriptionEntity>,
+  ) {}
+
+  onModuleInit() {
+    this.job = new CronJob(
+      '*/10 * * * * *',
+      async () => {
+        await this.tick();
+      },
+      null,
+      true,
+      'UTC',
+    );
+    this.logger.log('[WEBHOOK] Registered dispatcher: every 10 seconds');
+  }
+
+  onModuleDestroy() {
+    void this.job?.stop();
+  }
+
+  /** 새 항목이 쌓였으니 다음 주기를 기다리지 않고 보낸다. */
+  wake(): void {
+    void this.tick();
+  }
+
+  /** 새로 넣을 항목의 nextAttemptAt. 바로 보낼 항목은 워커가 가져가지 않도록 lease를 잡아 둔다. */
+  leaseUntil(now = new Date()): Date {
+    return new Date(now.getTime() + WebhookDispatcherService.LEASE_MS);
+  }
+
+  /**
+   * 한 항목을 보내고 결과를 기록한다. 재시도할 수 있으면 pending으로 남긴다.
+   * entry.nextAttemptAt은 이 인스턴스가 잡은 lease여야 하며, 그사이 lease가 바뀌었으면
+   * (만료돼 다른 인스턴스가 가져간 경우) 결과를 덮어쓰지 않는다.
+   */
+  async deliver(
+    entry: WebhookDeliveryEntity,
+    subscription: WebhookSubscriptionEntity,
+  ): Promise<WebhookDeliveryEntity> {
+    const now = new Date();
+    const attempts = entry.attempts + 1;
+    const result: AttemptResult = subscription.enabled
+      ? await this.post(entry, subscription)
+      : { status: null, error: '비활성화된 구독입니다.', retryable: false };
+
+    const delays = WebhookDispatcherService.RETRY_DELAYS_S;
+    const retry = result.retryable && attempts <= delays.length;
+    const update: Pick<
+      WebhookDeliveryEntity,
+      | 'attempts'
+      | 'responseStatus'
+      | 'error'
+      | 'status'
+      | 'nextAttemptAt'
+      | 'deliveredAt'
+    > = {
+      attempts,
+      responseStatus: result.status,
+      error: result.error,
+      status: !result.error ? 'success' : retry ? 'pending' : 'failed',
+      nextAttemptAt: retry
+        ? new Date(now.getTime() + delays[attempts - 1] * 1000)
+        : null,
+      deliveredAt: result.error ? null : now,
+    };
+    const { affected } = await this.deliveryRepo.update(
+      { id: entry.id, nextAttemptAt: entry.nextAttemptAt ?? undefined },
+      update,
+    );
+    const label = `${entry.event} → "${subscription.name}" (${entry.id})`;
+    if (!affected) {
+      this.logger.warn(
+        `[WEBHOOK LEASE LOST] ${label} lease expired before the result was recorded`,
+      );
+      return Object.assign(entry, update);
+    }
+    if (subscription.enabled) {
+      await this.subscriptionRepo.update(subscription.id, {
+        lastStatus: result.status,
+        lastError: result.error,
+        lastAttemptAt: now,
+      });
+    }
+
+    if (!result.error) {
+      this.logger.log(`[WEBHOOK OK] ${label} status: ${result.status}`);
+    } else if (retry) {
+      this.logger.warn(
+        `[WEBHOOK RETRY] ${label} attempt ${attempts} failed (${result.error}), retry at ${update.nextAttemptAt!.toISOString()}`,
+      );
+    } else {
+      this.logger.error(
+        `[WEBHOOK FAIL] ${label} attempt ${attempts}: ${result.error}`,
+      );
+    }
+    return Object.assign(entry, update);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      this.again = true;
+      return;
+    }
+    this.running = true;
+    try {
+      do {
+        this.again = false;
+        const claimed = await this.claim(new Date());
+        for (const { entry, subscription } of claimed) {
+          await this.deliver(entry, subscription);
+        }
+        if (claimed.length === WebhookDispatcherService.CLAIM_BATCH) {
+          this.again = true;
+        }
+      } while (this.again);
+    } catch (error) {
+      this.logger.error('[WEBHOOK TICK FAIL]', (error as Error).stack);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** ScheduleStorageService.claimDue와 같은 방식으로 due 항목에 lease를 잡는다. */
+  private async claim(now: Date): Promise<
+    {
+      entry: WebhookDeliveryEntity;
+      subscription: WebhookSubscriptionEntity;
+    }[]
+  > {
+    return this.deliveryRepo.manager.transaction(async (manager) => {
+      const due = await manager
+        .createQueryBuilder(WebhookDeliveryEntity, 'd')
+        .where(`d.status = 'pending'`)
+        .andWhere('d.nextAttemptAt <= :now', { now })
+        .orderBy('d.nextAttemptAt', 'ASC')
+        .limit(WebhookDispatcherService.CLAIM_BATCH)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+      if (due.length === 0) return [];
+
+      const lease = this.leaseUntil(now);
+      await manager.update(
+        WebhookDeliveryEntity,
+        { id: In(due.map((d) => d.id)) },
+        { nextAttemptAt: lease },
+      );
+      for (const entry of due) entry.nextAttemptAt = lease;
+
+      const subscriptions = await manager
+        .createQueryBuilder(WebhookSubscriptionEntity, 's')
+        .addSelect('s.secret')
+        .whereInIds([...new Set(due.map((d) => d.subscriptionId))])
+        .getMany();
+      const byId = new Map(subscriptions.map((s) => [s.id, s]));
+
+      return due.flatMap((entry) => {
+        const subscription = byId.get(entry.subscriptionId);
+        return subscription ? [{ entry, subscription }] : [];
+      });
+    });
+  }
+
+  private async post(
+    entry: WebhookDeliveryEntity,
+    subscription: WebhookSubscriptionEntity,
+  ): Promise<AttemptResult> {
+    const body = JSON.stringify({
+      id: entry.id,
+      event: entry.event,
+      createdAt: entry.createdAt,
+      data: entry.payload,
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'telegram-notification-bot-webhook/1',
+          'X-Webhook-Id': entry.id,
+          'X-Webhook-Event': entry.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${this.sign(subscription.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WebhookDispatcherService.TIMEOUT_MS),
+      });
+      if (response.ok) {
+        return { status: response.status, error: null, retryable: false };
+      }
+
+      const text = await response.text().catch(() => '');
+      const { status } = response;
+      return {
+        status,
+        error: `HTTP ${status}${text ? `: ${text.slice(0, WebhookDispatcherService.ERROR_BODY_LENGTH)}` : ''}`,
+        retryable: status >= 500 || status === 408 || status === 429,
+      };
+    } catch (error) {
+      const err = error as Error;
+      // fetch는 연결 오류를 "fetch failed"로 감싸므로 원인(ECONNREFUSED 등)을 남긴다
+      const cause = err.cause instanceof Error ? err.cause.message : null;
+      return {
+        status: null,
+        error:
+          err.name === 'TimeoutError'
+            ? '응답 시간 초과'
+            : cause
+              ? `${err.message}: ${cause}`
+              : err.message,
+        retryable: true,
+      };
+    }
+  }
+
+  /** `<timestamp>.<본문>`의 HMAC-SHA256 (hex) */
+  private sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+}
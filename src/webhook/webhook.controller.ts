@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { WebhookService } from './webhook.service.js';
+import { Scopes } from '../auth/decorators/scopes.decorator.js';
+import { CreateWebhookDto } from '../common/dto/create-webhook.dto.js';
+import { UpdateWebhookDto } from '../common/dto/update-webhook.dto.js';
+
+@ApiTags('webhook')
+@Scopes('admin')
+@Controller('webhooks')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: '웹훅 구독 등록',
+    description:
+      '스케줄 변경·발송 결과 이벤트를 지정한 URL로 POST합니다. 응답의 secret 값은 이때만 확인할 수 있습니다.',
+  })
+  @ApiResponse({ status: 201, description: '등록 성공' })
+  @ApiResponse({ status: 400, description: '잘못된 요청' })
+  async create(@Body() dto: CreateWebhookDto) {
+    return this.webhookService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: '웹훅 구독 목록 조회',
+    description: '각 구독의 마지막 응답 코드(lastStatus)와 오류를 포함합니다.',
+  })
+  @ApiResponse({ status: 200, description: '구독 목록 (secret 제외)' })
+  async findAll() {
+    return this.webhookService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '웹훅 구독 상세 조회' })
+  @ApiResponse({ status: 200, description: '구독 정보' })
+  @ApiResponse({ status: 404, description: '구독을 찾을 수 없음' })
+  async findOne(@Param('id') id: string) {
+    return this.webhookService.findById(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '웹훅 구독 수정' })
+  @ApiResponse({ status: 200, description: '수정 성공' })
+  @ApiResponse({ status: 404, description: '구독을 찾을 수 없음' })
+  async update(@Param('id') id: string, @Body() dto: UpdateWebhookDto) {
+    return this.webhookService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: '웹훅 구독 삭제',
+    description: '전송 대기 중인 이벤트와 전송 기록도 함께 삭제합니다.',
+  })
+  @ApiResponse({ status: 200, description: '삭제 성공' })
+  @ApiResponse({ status: 404, description: '구독을 찾을 수 없음' })
+  async remove(@Param('id') id: string) {
+    await this.webhookService.delete(id);
+    return { success: true, message: `웹훅 구독 ${id} 삭제 완료` };
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({
+    summary: '웹훅 전송 기록 조회',
+    description:
+      '이벤트별 전송 상태(pending/success/failed), 시도 횟수, 마지막 응답 코드를 최신순으로 조회합니다.',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: '최대 개수 (기본 50, 최대 1000)',
+  })
+  @ApiResponse({ status: 200, description: '전송 기록' })
+  @ApiResponse({ status: 404, description: '구독을 찾을 수 없음' })
+  async findDeliveries(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.webhookService.findDeliveries(
+      id,
+      limit ? Math.min(Math.max(Number(limit) || 50, 1), 1000) : 50,
+    );
+  }
+
+  @Post(':id/ping')
+  @ApiOperation({
+    summary: '웹훅 연결 확인',
+    description:
+      'ping 이벤트를 바로 보내고 결과를 반환합니다. 실패하면 다른 이벤트처럼 재시도합니다.',
+  })
+  @ApiResponse({ status: 201, description: '전송 결과' })
+  @ApiResponse({ status: 404, description: '구독을 찾을 수 없음' })
+  async ping(@Param('id') id: string) {
+    return this.webhookService.ping(id);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookController } from './webhook.controller.js';
+import { WebhookService } from './webhook.service.js';
+import { WebhookDispatcherService } from './webhook-dispatcher.service.js';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity.js';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity.js';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      WebhookSubscriptionEntity,
+      WebhookDeliveryEntity,
+    ]),
+  ],
+  controllers: [WebhookController],
+  providers: [WebhookService, WebhookDispatcherService],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
@@ -0,0 +1,164 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { WebhookDispatcherService } from './webhook-dispatcher.service.js';
+import {
+  WebhookEvent,
+  WebhookSubscriptionEntity,
+} from './entities/webhook-subscription.entity.js';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity.js';
+import { CreateWebhookDto } from '../common/dto/create-webhook.dto.js';
+import { UpdateWebhookDto } from '../common/dto/update-webhook.dto.js';
+
+/** 이벤트 구독 관리와 이벤트 발행. 실제 전송은 WebhookDispatcherService가 한다. */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  private static readonly SECRET_PREFIX = 'whsec_';
+
+  constructor(
+    @InjectRepository(WebhookSubscriptionEntity)
+    private readonly repo: Repository<WebhookSubscriptionEntity>,
+    @InjectRepository(WebhookDeliveryEntity)
+    private readonly deliveryRepo: Repository<WebhookDeliveryEntity>,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {}
+
+  /** 구독을 등록한다. 서명 키(secret)는 이 응답에서만 확인할 수 있다. */
+  async create(dto: CreateWebhookDto): Promise<WebhookSubscriptionEntity> {
+    const secret =
+      dto.secret ??
+      WebhookService.SECRET_PREFIX + randomBytes(24).toString('base64url');
+    const saved = await this.repo.save(
+      this.repo.create({
+        name: dto.name,
+        url: dto.url,
+        events: [...new Set(dto.events)],
+        chatIds: dto.chatIds?.length ? dto.chatIds : null,
+        secret,
+      }),
+    );
+    this.logger.log(
+      `[WEBHOOK CREATE] "${saved.name}" (${saved.id}) events: ${saved.events.join(',')}`,
+    );
+    return saved;
+  }
+
+  async findAll(): Promise<WebhookSubscriptionEntity[]> {
+    return this.repo.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async findById(id: string): Promise<WebhookSubscriptionEntity> {
+    const found = await this.repo.findOneBy({ id });
+    if (!found) {
+      throw new NotFoundException(`웹훅 구독 ${id}을(를) 찾을 수 없습니다.`);
+    }
+    return found;
+  }
+
+  async update(
+    id: string,
+    dto: UpdateWebhookDto,
+  ): Promise<WebhookSubscriptionEntity> {
+    await this.findById(id);
+    await this.repo.update(id, {
+      ...dto,
+      ...(dto.events && { events: [...new Set(dto.events)] }),
+      ...(dto.chatIds && {
+        chatIds: dto.chatIds.length ? dto.chatIds : null,
+      }),
+    });
+    this.logger.log(
+      `[WEBHOOK UPDATE] ${id} → ${Object.keys(dto).join(', ') || '(no change)'}`,
+    );
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    const found = await this.findById(id);
+    await this.deliveryRepo.delete({ subscriptionId: id });
+    await this.repo.delete(id);
+    this.logger.log(`[WEBHOOK DELETE] "${found.name}" (${id})`);
+  }
+
+  async findDeliveries(
+    id: string,
+    limit = 50,
+  ): Promise<WebhookDeliveryEntity[]> {
+    await this.findById(id);
+    return this.deliveryRepo.find({
+      where: { subscriptionId: id },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /** ping 이벤트를 바로 보내 연결과 서명 검증을 확인한다. 실패해도 재시도한다. */
+  async ping(id: string): Promise<WebhookDeliveryEntity> {
+    const subscription = await this.repo
+      .createQueryBuilder('s')
+      .addSelect('s.secret')
+      .where('s.id = :id', { id })
+      .getOne();
+    if (!subscription) {
+      throw new NotFoundException(`웹훅 구독 ${id}을(를) 찾을 수 없습니다.`);
+    }
+
+    const entry = await this.deliveryRepo.save(
+      this.deliveryRepo.create({
+        subscriptionId: id,
+        event: 'ping',
+        payload: { subscriptionId: id, name: subscription.name },
+        nextAttemptAt: this.dispatcher.leaseUntil(),
+      }),
+    );
+    return this.dispatcher.deliver(entry, subscription);
+  }
+
+  /**
+   * 이벤트를 구독한 곳마다 전송 대기열에 넣는다.
+   * 발행에 실패해도 스케줄 변경이나 발송에는 영향을 주지 않도록 에러를 기록만 한다.
+   */
+  async emit(
+    event: WebhookEvent,
+    chatId: string,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      const subscriptions = (await this.repo.findBy({ enabled: true })).filter(
+        (s) =>
+          s.events.includes(event) &&
+          (!s.chatIds || s.chatIds.includes(chatId)),
+      );
+      if (subscriptions.length === 0) return;
+
+      const now = new Date();
+      // 엔티티를 JSON 그대로 저장해 Date 등이 전송 때와 같은 모양이 되게 한다
+      const payload = JSON.parse(JSON.stringify(data)) as Record<
+        string,
+        unknown
+      >;
+      await this.deliveryRepo.save(
+        this.deliveryRepo.create(
+          subscriptions.map((s) => ({
+            subscriptionId: s.id,
+            event,
+            payload,
+            nextAttemptAt: now,
+          })),
+        ),
+      );
+      this.logger.debug(
+        `[WEBHOOK EMIT] ${event} chatId: ${chatId} → ${subscriptions.length} subscription(s)`,
+      );
+      this.dispatcher.wake();
+    } catch (error) {
+      this.logger.error(
+        `[WEBHOOK EMIT FAIL] ${event} chatId: ${chatId}`,
+        (error as Error).stack,
+      );
+    }
+  }
+}